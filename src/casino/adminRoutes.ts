@@ -0,0 +1,540 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { casinoService } from './service';
+import { requireAdmin, requireOperator } from '../shared/middleware';
+import { getPoolBalances } from './funds';
+import { getPageSize } from './pagination';
+import {
+  CasinoUser,
+  CasinoWallet,
+  CreateUserRequest,
+  LockUserRequest,
+  OpenWalletRequest,
+  AdjustmentRequest,
+  AdjustmentResponse,
+  CasinoGame,
+  CreateGameRequest,
+  UpdateGameRequest,
+  GameSyncStatus,
+  CasinoGameProvider,
+  RegisterProviderRequest,
+  UpdateProviderRequest,
+  DisableProviderRequest,
+  CasinoError,
+  ErrorCodes
+} from './types';
+
+// Back-office API for support staff: player accounts, wallets, manual adjustments,
+// game providers and the game catalog.
+// Every route needs the admin key; every change also needs the operator making it.
+const router = Router();
+
+router.use(requireAdmin);
+
+function toUserResponse(user: CasinoUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    isLocked: user.is_locked,
+    lockedReason: user.locked_reason,
+    lockedBy: user.locked_by,
+    lockedAt: user.locked_at,
+    selfExcludedUntil: user.self_excluded_until,
+    createdAt: user.created_at
+  };
+}
+
+function toWalletResponse(wallet: CasinoWallet) {
+  const pools = getPoolBalances(wallet);
+  
+  return {
+    id: wallet.id,
+    userId: wallet.user_id,
+    currency: wallet.currency_code,
+    balance: Number(wallet.playable_balance),
+    cashBalance: pools.cash,
+    bonusBalance: pools.bonus,
+    updatedAt: wallet.updated_at
+  };
+}
+
+// Provider secrets are write-only
+function toProviderResponse(provider: CasinoGameProvider) {
+  return {
+    id: provider.id,
+    code: provider.code,
+    name: provider.name,
+    apiEndpoint: provider.api_endpoint,
+    signatureMode: provider.signature_mode,
+    supportedCurrencies: provider.supported_currencies,
+    isDisabled: provider.is_disabled,
+    disabledReason: provider.disabled_reason,
+    disabledAt: provider.disabled_at,
+    healthStatus: provider.health_status,
+    consecutiveFailures: provider.consecutive_failures,
+    lastCheckedAt: provider.last_checked_at,
+    lastError: provider.last_error,
+    updatedAt: provider.updated_at
+  };
+}
+
+function toGameResponse(game: CasinoGame) {
+  return {
+    id: game.id,
+    providerId: game.provider_id,
+    providerGameId: game.provider_game_id,
+    name: game.name,
+    currency: game.currency_code,
+    isActive: game.is_active,
+    minBet: Number(game.min_bet),
+    maxBet: Number(game.max_bet),
+    syncStatus: game.sync_status,
+    syncChanges: game.sync_changes,
+    syncedAt: game.synced_at,
+    updatedAt: game.updated_at
+  };
+}
+
+/**
+ * POST /admin/users
+ * Create a player account
+ */
+router.post('/users', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { username, email } = req.body as CreateUserRequest;
+    
+    if (!username || !email) {
+      return res.status(400).json({
+        success: false,
+        error: 'username and email are required'
+      });
+    }
+    
+    const user = await casinoService.createUser(username, email);
+    
+    res.status(201).json({ success: true, user: toUserResponse(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/users/:userId
+ * A player account with its wallets
+ */
+router.get('/users/:userId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await casinoService.getUserById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    const wallets = await casinoService.listWallets({ userId: user.id });
+    
+    res.json({
+      success: true,
+      user: toUserResponse(user),
+      wallets: wallets.map(toWalletResponse)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/users/:userId/lock
+ * Lock a player account; launches and bets are refused until it is unlocked
+ */
+router.post('/users/:userId/lock', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = req.body as LockUserRequest;
+    
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'reason is required'
+      });
+    }
+    
+    const user = await casinoService.setUserLock(req.params.userId, true, res.locals.operatorId, reason);
+    
+    res.json({ success: true, user: toUserResponse(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/users/:userId/unlock
+ * Unlock a player account
+ */
+router.post('/users/:userId/unlock', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await casinoService.setUserLock(req.params.userId, false, res.locals.operatorId, null);
+    
+    res.json({ success: true, user: toUserResponse(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/users/:userId/wallets
+ * Open a wallet for the player in a registered currency
+ */
+router.post('/users/:userId/wallets', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { currency } = req.body as OpenWalletRequest;
+    
+    if (!currency) {
+      return res.status(400).json({
+        success: false,
+        error: 'currency is required'
+      });
+    }
+    
+    const wallet = await casinoService.openWallet(req.params.userId, currency);
+    
+    res.status(201).json({ success: true, wallet: toWalletResponse(wallet) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/wallets?userId=&currency=
+ * List wallets
+ */
+router.get('/wallets', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const wallets = await casinoService.listWallets({
+      userId: req.query.userId as string | undefined,
+      currency: req.query.currency as string | undefined
+    });
+    
+    res.json({ success: true, wallets: wallets.map(toWalletResponse) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/wallets/:walletId/adjustments
+ * Manually credit or debit a wallet's cash or bonus funds, with a mandatory reason
+ */
+router.post('/wallets/:walletId/adjustments', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { direction, amount, pool = 'cash', reason } = req.body as AdjustmentRequest;
+    
+    if (!direction || amount === undefined || !reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'direction, amount and reason are required'
+      });
+    }
+    
+    const { transaction, wallet } = await casinoService.adjustWallet(
+      req.params.walletId,
+      direction,
+      amount,
+      pool,
+      reason,
+      res.locals.operatorId
+    );
+    const pools = getPoolBalances(wallet);
+    
+    const response: AdjustmentResponse = {
+      success: true,
+      transactionId: transaction.external_transaction_id,
+      walletId: wallet.id,
+      direction,
+      amount,
+      pool,
+      balance: Number(wallet.playable_balance),
+      cashBalance: pools.cash,
+      bonusBalance: pools.bonus,
+      currency: wallet.currency_code
+    };
+    
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/providers
+ * Registered providers with their availability
+ */
+router.get('/providers', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const providers = await casinoService.listProviders();
+    
+    res.json({ success: true, providers: providers.map(toProviderResponse) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/providers
+ * Register a game provider
+ */
+router.post('/providers', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as RegisterProviderRequest;
+    
+    if (!body.code || !body.name || !body.apiEndpoint || !body.secretKey) {
+      return res.status(400).json({
+        success: false,
+        error: 'code, name, apiEndpoint and secretKey are required'
+      });
+    }
+    
+    const provider = await casinoService.registerProvider(body, res.locals.operatorId);
+    
+    res.status(201).json({ success: true, provider: toProviderResponse(provider) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/providers/:code
+ * A single provider
+ */
+router.get('/providers/:code', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.getProviderByCode(req.params.code);
+    if (!provider) {
+      return res.status(404).json({ success: false, error: 'Provider not found' });
+    }
+    
+    res.json({ success: true, provider: toProviderResponse(provider) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /admin/providers/:code
+ * Change a provider's name, endpoint, secret, signature mode or supported currencies
+ */
+router.patch('/providers/:code', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.updateProvider(
+      req.params.code,
+      req.body as UpdateProviderRequest,
+      res.locals.operatorId
+    );
+    
+    res.json({ success: true, provider: toProviderResponse(provider) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/providers/:code/disable
+ * Take a provider out of service; health checks will not re-enable it
+ */
+router.post('/providers/:code/disable', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = req.body as DisableProviderRequest;
+    
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: 'reason is required'
+      });
+    }
+    
+    const provider = await casinoService.setProviderDisabled(req.params.code, true, res.locals.operatorId, reason);
+    
+    res.json({ success: true, provider: toProviderResponse(provider) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/providers/:code/enable
+ * Put a provider back in service
+ */
+router.post('/providers/:code/enable', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.setProviderDisabled(req.params.code, false, res.locals.operatorId, null);
+    
+    res.json({ success: true, provider: toProviderResponse(provider) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/providers/:code/health-check
+ * Probe the provider now instead of waiting for the monitor
+ */
+router.post('/providers/:code/health-check', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.getProviderByCode(req.params.code);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const checked = await casinoService.checkProviderHealth(provider);
+    
+    res.json({ success: true, provider: toProviderResponse(checked) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/providers/:code/events?limit=
+ * Provider history: health transitions, enable/disable actions, registration and updates, newest first
+ */
+router.get('/providers/:code/events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.getProviderByCode(req.params.code);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const events = await casinoService.listProviderEvents(provider.id, getPageSize(req.query.limit as string | undefined));
+    
+    res.json({
+      success: true,
+      providerCode: provider.code,
+      events: events.map((event) => ({
+        type: event.event_type,
+        source: event.source,
+        detail: event.detail,
+        operatorId: event.operator_id,
+        createdAt: event.created_at
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/games?providerCode=&syncStatus=
+ * List the game catalog; syncStatus=added|changed|removed lists games awaiting review
+ */
+router.get('/games', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const providerCode = req.query.providerCode as string | undefined;
+    
+    let providerId: string | undefined;
+    if (providerCode) {
+      const provider = await casinoService.getProviderByCode(providerCode);
+      if (!provider) {
+        throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+      }
+      providerId = provider.id;
+    }
+    
+    const games = await casinoService.listGames({
+      providerId,
+      syncStatus: req.query.syncStatus as GameSyncStatus | undefined
+    });
+    
+    res.json({ success: true, games: games.map(toGameResponse) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/games
+ * Add a game, mapped to the provider's game ID
+ */
+router.post('/games', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as CreateGameRequest;
+    
+    if (!body.providerCode || !body.providerGameId || !body.name) {
+      return res.status(400).json({
+        success: false,
+        error: 'providerCode, providerGameId and name are required'
+      });
+    }
+    
+    const game = await casinoService.createGame(body);
+    console.log(`Game ${game.provider_game_id} added by ${res.locals.operatorId}`);
+    
+    res.status(201).json({ success: true, game: toGameResponse(game) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/games/:gameId
+ * A single game
+ */
+router.get('/games/:gameId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const game = await casinoService.getGameById(req.params.gameId);
+    if (!game) {
+      return res.status(404).json({ success: false, error: 'Game not found' });
+    }
+    
+    res.json({ success: true, game: toGameResponse(game) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /admin/games/:gameId
+ * Enable or disable a game, or change its name, limits, currency or provider mapping
+ */
+router.patch('/games/:gameId', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const game = await casinoService.updateGame(req.params.gameId, req.body as UpdateGameRequest);
+    console.log(`Game ${game.provider_game_id} updated by ${res.locals.operatorId}`);
+    
+    res.json({ success: true, game: toGameResponse(game) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/games/:gameId
+ * Remove a game that has never been played
+ */
+router.delete('/games/:gameId', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await casinoService.deleteGame(req.params.gameId);
+    console.log(`Game ${req.params.gameId} deleted by ${res.locals.operatorId}`);
+    
+    res.json({ success: true, gameId: req.params.gameId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/providers/:code/games/sync
+ * Pull the provider's catalog now instead of waiting for the scheduled sync
+ */
+router.post('/providers/:code/games/sync', requireOperator, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.getProviderByCode(req.params.code);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const report = await casinoService.syncGameCatalog(provider);
+    
+    res.json({ success: true, ...report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,85 @@
+import { diffGame, planCatalogSync, isValidBetRange } from './catalog';
+import { CasinoGame, ProviderCatalogGame } from './types';
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+function makeGame(overrides: Partial<CasinoGame>): CasinoGame {
+  return {
+    id: 'game-1',
+    provider_id: 'provider-1',
+    provider_game_id: 'slots',
+    name: 'Mega Slots',
+    currency_code: null,
+    is_active: true,
+    min_bet: 100,
+    max_bet: 10000,
+    sync_status: 'synced',
+    sync_changes: null,
+    synced_at: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides
+  };
+}
+
+const slots: ProviderCatalogGame = { gameId: 'slots', name: 'Mega Slots', minBet: 100, maxBet: 10000 };
+
+describe('Catalog Module', () => {
+  describe('diffGame', () => {
+    it('should accept limits inside the provider range', () => {
+      expect(diffGame(makeGame({ min_bet: 500, max_bet: 5000 }), slots)).toEqual([]);
+    });
+
+    it('should report limits the provider no longer accepts', () => {
+      const listed = { ...slots, minBet: 200, maxBet: 8000 };
+
+      expect(diffGame(makeGame({}), listed)).toEqual([
+        { field: 'min_bet', casino: 100, provider: 200 },
+        { field: 'max_bet', casino: 10000, provider: 8000 }
+      ]);
+    });
+
+    it('should report a renamed game', () => {
+      expect(diffGame(makeGame({}), { ...slots, name: 'Mega Slots Deluxe' })).toEqual([
+        { field: 'name', casino: 'Mega Slots', provider: 'Mega Slots Deluxe' }
+      ]);
+    });
+  });
+
+  describe('planCatalogSync', () => {
+    it('should sort games into added, removed, changed and unchanged', () => {
+      const roulette = makeGame({ id: 'game-2', provider_game_id: 'roulette', name: 'Roulette' });
+      const poker = makeGame({ id: 'game-3', provider_game_id: 'poker', name: 'Poker' });
+      const blackjack: ProviderCatalogGame = { gameId: 'blackjack', name: 'Blackjack', minBet: 100, maxBet: 5000 };
+      const renamedRoulette: ProviderCatalogGame = { gameId: 'roulette', name: 'European Roulette', minBet: 100, maxBet: 10000 };
+
+      const plan = planCatalogSync([makeGame({}), roulette, poker], [slots, renamedRoulette, blackjack]);
+
+      expect(plan.added).toEqual([blackjack]);
+      expect(plan.removed).toEqual([poker]);
+      expect(plan.changed.map(({ game }) => game.id)).toEqual(['game-2']);
+      expect(plan.unchanged.map((game) => game.id)).toEqual(['game-1']);
+    });
+
+    it('should not report a removed game twice', () => {
+      const plan = planCatalogSync([makeGame({ sync_status: 'removed', is_active: false })], []);
+
+      expect(plan.removed).toEqual([]);
+    });
+
+    it('should relist a removed game the provider offers again', () => {
+      const removed = makeGame({ sync_status: 'removed', is_active: false });
+
+      expect(planCatalogSync([removed], [slots]).relisted).toEqual([removed]);
+    });
+  });
+
+  describe('isValidBetRange', () => {
+    it('should require positive whole limits with min not above max', () => {
+      expect(isValidBetRange(100, 100)).toBe(true);
+      expect(isValidBetRange(0, 100)).toBe(false);
+      expect(isValidBetRange(200, 100)).toBe(false);
+      expect(isValidBetRange(1.5, 100)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { CasinoGame, GameSyncChange, ProviderCatalogGame } from './types';
+
+// Comparing our game catalog with a provider's. Our bet limits may be tighter
+// than the provider's, so they only count as changed when they fall outside the
+// range the provider accepts; the name must match exactly.
+
+export interface CatalogSyncPlan {
+  added: ProviderCatalogGame[];
+  relisted: CasinoGame[];
+  removed: CasinoGame[];
+  changed: { game: CasinoGame; changes: GameSyncChange[] }[];
+  unchanged: CasinoGame[];
+}
+
+export function isValidBetRange(minBet: number, maxBet: number): boolean {
+  return Number.isInteger(minBet) && Number.isInteger(maxBet) && minBet > 0 && maxBet >= minBet;
+}
+
+export function diffGame(game: CasinoGame, listed: ProviderCatalogGame): GameSyncChange[] {
+  const changes: GameSyncChange[] = [];
+
+  if (game.name !== listed.name) {
+    changes.push({ field: 'name', casino: game.name, provider: listed.name });
+  }
+  if (Number(game.min_bet) < listed.minBet) {
+    changes.push({ field: 'min_bet', casino: Number(game.min_bet), provider: listed.minBet });
+  }
+  if (Number(game.max_bet) > listed.maxBet) {
+    changes.push({ field: 'max_bet', casino: Number(game.max_bet), provider: listed.maxBet });
+  }
+
+  return changes;
+}
+
+// Sort a provider's games against ours. Games already flagged as removed are not
+// reported again; ones the provider lists again come back as relisted.
+export function planCatalogSync(games: CasinoGame[], catalog: ProviderCatalogGame[]): CatalogSyncPlan {
+  const plan: CatalogSyncPlan = { added: [], relisted: [], removed: [], changed: [], unchanged: [] };
+  const listedById = new Map(catalog.map((listed) => [listed.gameId, listed]));
+  const known = new Set<string>();
+
+  for (const game of games) {
+    known.add(game.provider_game_id);
+    const listed = listedById.get(game.provider_game_id);
+
+    if (!listed) {
+      if (game.sync_status !== 'removed') plan.removed.push(game);
+      continue;
+    }
+
+    const changes = diffGame(game, listed);
+    if (changes.length > 0) {
+      plan.changed.push({ game, changes });
+    } else if (game.sync_status === 'removed') {
+      plan.relisted.push(game);
+    } else {
+      plan.unchanged.push(game);
+    }
+  }
+
+  plan.added = catalog.filter((listed) => !known.has(listed.gameId));
+
+  return plan;
+}
@@ -0,0 +1,26 @@
+import { casinoService } from './service';
+
+// Periodically pull every enabled provider's game catalog into casino_games
+export function startCatalogSync(
+  intervalSeconds: number = parseInt(process.env.CATALOG_SYNC_INTERVAL_SECONDS || '3600')
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const reports = await casinoService.syncAllGameCatalogs();
+      for (const report of reports) {
+        if (report.added.length > 0 || report.removed.length > 0 || report.changed.length > 0) {
+          console.log(
+            `Catalog sync for ${report.providerCode}: ${report.added.length} added, ` +
+            `${report.removed.length} removed, ${report.changed.length} changed`
+          );
+        }
+      }
+    } catch (error: any) {
+      console.error('Catalog sync failed:', error.message);
+    }
+  }, intervalSeconds * 1000);
+
+  // Do not keep the process alive just for the sync
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,45 @@
+import { CasinoTransaction, ErrorCodes } from './types';
+
+// strict  - credits referencing an invalid bet are rejected
+// lenient - they are accepted and flagged for review
+export type CreditValidationMode = 'strict' | 'lenient';
+
+export interface RelatedBetIssue {
+  code: string;
+  message: string;
+}
+
+// Read the validation mode from CREDIT_VALIDATION_MODE
+export function getCreditValidationMode(): CreditValidationMode {
+  return process.env.CREDIT_VALIDATION_MODE === 'lenient' ? 'lenient' : 'strict';
+}
+
+// Check that a credit's related transaction is a live bet on the same wallet and round
+export function findRelatedBetIssue(
+  related: CasinoTransaction | null | undefined,
+  walletId: string,
+  roundId: string
+): RelatedBetIssue | null {
+  if (!related || related.transaction_type !== 'debit') {
+    return {
+      code: ErrorCodes.RELATED_TRANSACTION_NOT_FOUND,
+      message: 'Related bet not found'
+    };
+  }
+
+  if (related.wallet_id !== walletId || related.round_id !== roundId) {
+    return {
+      code: ErrorCodes.RELATED_TRANSACTION_MISMATCH,
+      message: 'Related bet belongs to a different wallet or round'
+    };
+  }
+
+  if (related.is_rollback) {
+    return {
+      code: ErrorCodes.RELATED_TRANSACTION_ROLLED_BACK,
+      message: 'Related bet has been rolled back'
+    };
+  }
+
+  return null;
+}
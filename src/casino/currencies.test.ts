@@ -0,0 +1,70 @@
+import { convertAmount, toWalletAmount, toGameAmount, fxRateSnapshot, getFxMode } from './currencies';
+import { CasinoCurrency, FxQuote } from './types';
+
+function currency(code: string, minorUnits: number): CasinoCurrency {
+  return { code, name: code, minor_units: minorUnits, is_active: true };
+}
+
+const USD = currency('USD', 2);
+const EUR = currency('EUR', 2);
+const JPY = currency('JPY', 0);
+const BTC = currency('BTC', 8);
+
+describe('Currencies Module', () => {
+  describe('convertAmount', () => {
+    it('should rescale between currencies with different precision', () => {
+      // 1000 JPY at 0.0067 USD/JPY = 6.70 USD
+      expect(convertAmount(1000, JPY, USD, 0.0067)).toBe(670);
+    });
+
+    it('should handle high-precision currencies', () => {
+      // 100.00 USD at 0.00002 BTC/USD = 0.002 BTC
+      expect(convertAmount(10000, USD, BTC, 0.00002)).toBe(200000);
+    });
+
+    it('should not be thrown off by floating point noise', () => {
+      expect(convertAmount(1005, EUR, USD, 1.1, Math.floor)).toBe(1105);
+    });
+  });
+
+  describe('toWalletAmount / toGameAmount', () => {
+    const fx: FxQuote = { gameCurrency: EUR, walletCurrency: USD, rate: 1.25 };
+
+    it('should convert game amounts into the wallet currency', () => {
+      expect(toWalletAmount(1000, fx)).toBe(1250);
+    });
+
+    it('should report wallet balances in the game currency, rounded down', () => {
+      expect(toGameAmount(1251, fx)).toBe(1000);
+    });
+
+    it('should leave amounts alone when no conversion is needed', () => {
+      const same: FxQuote = { gameCurrency: USD, walletCurrency: USD, rate: 1 };
+
+      expect(toWalletAmount(1234, same)).toBe(1234);
+      expect(toGameAmount(1234, same)).toBe(1234);
+      expect(fxRateSnapshot(same)).toBeNull();
+      expect(fxRateSnapshot(fx)).toBe(1.25);
+    });
+  });
+
+  describe('getFxMode', () => {
+    const original = process.env.FX_MODE;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.FX_MODE;
+      } else {
+        process.env.FX_MODE = original;
+      }
+    });
+
+    it('should be disabled unless explicitly enabled', () => {
+      delete process.env.FX_MODE;
+      expect(getFxMode()).toBe('disabled');
+
+      process.env.FX_MODE = 'enabled';
+      expect(getFxMode()).toBe('enabled');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { CasinoCurrency, FxQuote } from './types';
+
+// All amounts are integers in a currency's minor units (cents for USD, yen for
+// JPY, satoshi for BTC). FX rates are quoted in major units:
+//   1 game-currency unit = rate wallet-currency units
+
+// FX_MODE=enabled lets a game running in one currency play against a wallet in another
+export type FxMode = 'disabled' | 'enabled';
+
+export function getFxMode(): FxMode {
+  return process.env.FX_MODE === 'enabled' ? 'enabled' : 'disabled';
+}
+
+// Convert an amount between currencies, rescaling for their minor-unit precision
+export function convertAmount(
+  amount: number,
+  from: CasinoCurrency,
+  to: CasinoCurrency,
+  rate: number,
+  rounding: (value: number) => number = Math.round
+): number {
+  const scale = Math.pow(10, to.minor_units - from.minor_units);
+  // Guard against floating point noise such as 1004.9999999 before rounding
+  return rounding(Number((amount * rate * scale).toFixed(6)));
+}
+
+// Game-currency amount sent by the provider -> amount moved in the wallet
+export function toWalletAmount(amount: number, fx: FxQuote): number {
+  if (fx.gameCurrency.code === fx.walletCurrency.code) return amount;
+  return convertAmount(amount, fx.gameCurrency, fx.walletCurrency, fx.rate);
+}
+
+// Wallet balance -> balance reported to the provider in the game currency.
+// Rounded down so the provider never sees more than the player can spend.
+export function toGameAmount(amount: number, fx: FxQuote): number {
+  if (fx.gameCurrency.code === fx.walletCurrency.code) return amount;
+  return convertAmount(amount, fx.walletCurrency, fx.gameCurrency, 1 / fx.rate, Math.floor);
+}
+
+// Rate stored on a transaction; null when no conversion took place
+export function fxRateSnapshot(fx: FxQuote): number | null {
+  return fx.gameCurrency.code === fx.walletCurrency.code ? null : fx.rate;
+}
@@ -0,0 +1,91 @@
+import { getDebitOrder, getPoolBalances, splitDebit, splitCredit } from './funds';
+import { CasinoWallet } from './types';
+
+function makeWallet(playable: number, redeemable: number): CasinoWallet {
+  return {
+    id: 'wallet-1',
+    user_id: 'user-1',
+    currency_code: 'USD',
+    playable_balance: playable,
+    redeemable_balance: redeemable,
+    updated_at: new Date()
+  };
+}
+
+describe('Funds Module', () => {
+  describe('getDebitOrder', () => {
+    const originalOrder = process.env.WALLET_DEBIT_ORDER;
+
+    afterEach(() => {
+      if (originalOrder === undefined) {
+        delete process.env.WALLET_DEBIT_ORDER;
+      } else {
+        process.env.WALLET_DEBIT_ORDER = originalOrder;
+      }
+    });
+
+    it('should default to cash first, then bonus', () => {
+      delete process.env.WALLET_DEBIT_ORDER;
+
+      expect(getDebitOrder()).toEqual(['cash', 'bonus']);
+    });
+
+    it('should read the order from the environment', () => {
+      process.env.WALLET_DEBIT_ORDER = 'bonus, cash';
+
+      expect(getDebitOrder()).toEqual(['bonus', 'cash']);
+    });
+
+    it('should append pools missing from the configured order', () => {
+      process.env.WALLET_DEBIT_ORDER = 'bonus';
+
+      expect(getDebitOrder()).toEqual(['bonus', 'cash']);
+    });
+  });
+
+  describe('getPoolBalances', () => {
+    it('should treat the non-redeemable part of playable as bonus', () => {
+      const pools = getPoolBalances(makeWallet(1000, 600));
+
+      expect(pools).toEqual({ cash: 600, bonus: 400 });
+    });
+  });
+
+  describe('splitDebit', () => {
+    it('should draw from cash first when ordered cash, bonus', () => {
+      const split = splitDebit(makeWallet(1000, 600), 800, ['cash', 'bonus']);
+
+      expect(split).toEqual({ cash: 600, bonus: 200 });
+    });
+
+    it('should draw from bonus first when ordered bonus, cash', () => {
+      const split = splitDebit(makeWallet(1000, 600), 500, ['bonus', 'cash']);
+
+      expect(split).toEqual({ cash: 100, bonus: 400 });
+    });
+
+    it('should take everything from the first pool when it covers the bet', () => {
+      const split = splitDebit(makeWallet(1000, 600), 300, ['cash', 'bonus']);
+
+      expect(split).toEqual({ cash: 300, bonus: 0 });
+    });
+  });
+
+  describe('splitCredit', () => {
+    it('should land in cash when there is no related bet', () => {
+      expect(splitCredit(500)).toEqual({ cash: 500, bonus: 0 });
+    });
+
+    it('should follow the related bet split proportionally', () => {
+      const split = splitCredit(1000, { cash: 300, bonus: 100 });
+
+      expect(split).toEqual({ cash: 750, bonus: 250 });
+    });
+
+    it('should keep the total when the proportion does not divide evenly', () => {
+      const split = splitCredit(100, { cash: 1, bonus: 2 });
+
+      expect(split.cash + split.bonus).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { CasinoWallet, FundsPool, FundsSplit } from './types';
+
+// Funds model:
+//   playable_balance   - everything the player can wager (cash + bonus)
+//   redeemable_balance - the withdrawable cash part of playable_balance
+//   bonus              - playable_balance - redeemable_balance
+
+const DEFAULT_DEBIT_ORDER: FundsPool[] = ['cash', 'bonus'];
+
+// Read the pool order used for debits from WALLET_DEBIT_ORDER (e.g. "bonus,cash")
+export function getDebitOrder(): FundsPool[] {
+  const raw = process.env.WALLET_DEBIT_ORDER;
+  if (!raw) return DEFAULT_DEBIT_ORDER;
+
+  const pools = raw
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter((p): p is FundsPool => p === 'cash' || p === 'bonus');
+
+  // Always cover both pools, appending whatever was left out
+  for (const pool of DEFAULT_DEBIT_ORDER) {
+    if (!pools.includes(pool)) pools.push(pool);
+  }
+
+  return pools;
+}
+
+// Current balance of each pool in a wallet
+export function getPoolBalances(wallet: CasinoWallet): FundsSplit {
+  const playable = Number(wallet.playable_balance);
+  const cash = Math.min(Number(wallet.redeemable_balance), playable);
+  return { cash, bonus: playable - cash };
+}
+
+// Work out how much of a debit is taken from each pool, in the given order
+export function splitDebit(
+  wallet: CasinoWallet,
+  amount: number,
+  order: FundsPool[] = getDebitOrder()
+): FundsSplit {
+  const available = getPoolBalances(wallet);
+  const split: FundsSplit = { cash: 0, bonus: 0 };
+  let remaining = amount;
+
+  for (const pool of order) {
+    const taken = Math.min(available[pool], remaining);
+    split[pool] += taken;
+    remaining -= taken;
+  }
+
+  return split;
+}
+
+// Work out which pool a payout lands in. Winnings follow the funds that were
+// wagered: proportionally to the related bet's split, or cash when unknown.
+export function splitCredit(amount: number, relatedDebit?: FundsSplit | null): FundsSplit {
+  const wagered = relatedDebit ? relatedDebit.cash + relatedDebit.bonus : 0;
+  if (!relatedDebit || wagered <= 0) {
+    return { cash: amount, bonus: 0 };
+  }
+
+  const bonus = Math.floor((amount * relatedDebit.bonus) / wagered);
+  return { cash: amount - bonus, bonus };
+}
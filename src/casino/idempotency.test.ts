@@ -0,0 +1,57 @@
+import { diffReplayParams, describeReplayParams, ReplayParams } from './idempotency';
+
+const original: ReplayParams = {
+  transactionType: 'credit',
+  sessionToken: 'token-1',
+  roundId: 'round-1',
+  amount: 25,
+  relatedTransactionId: 'bet-1'
+};
+
+describe('Idempotency Module', () => {
+  describe('diffReplayParams', () => {
+    it('should accept an identical replay', () => {
+      expect(diffReplayParams(original, { ...original })).toEqual([]);
+    });
+
+    it('should compare amounts numerically', () => {
+      const stored = { ...original, amount: '25.00' as unknown as number };
+
+      expect(diffReplayParams(stored, { ...original, amount: 25 })).toEqual([]);
+    });
+
+    it('should report every mismatched field', () => {
+      const received = { ...original, amount: 30, roundId: 'round-2' };
+
+      expect(diffReplayParams(original, received)).toEqual(['roundId', 'amount']);
+    });
+
+    it('should treat a missing related transaction as null', () => {
+      const stored = { ...original, relatedTransactionId: null };
+
+      expect(diffReplayParams(stored, { ...original, relatedTransactionId: null })).toEqual([]);
+      expect(diffReplayParams(stored, original)).toEqual(['relatedTransactionId']);
+    });
+
+    it('should detect a transactionId reused for another transaction type', () => {
+      const received: ReplayParams = { transactionType: 'debit', sessionToken: 'token-1', roundId: 'round-1', amount: 25 };
+
+      expect(diffReplayParams(original, received)).toEqual(['transactionType']);
+    });
+
+    it('should ignore fields the replay does not carry', () => {
+      const received: ReplayParams = { transactionType: 'credit', relatedTransactionId: 'bet-1' };
+
+      expect(diffReplayParams(original, received)).toEqual([]);
+    });
+  });
+
+  describe('describeReplayParams', () => {
+    it('should report the compared fields without the session token', () => {
+      expect(describeReplayParams(original, ['transactionType', 'sessionToken', 'amount'])).toEqual({
+        transactionType: 'credit',
+        amount: 25
+      });
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { TransactionType } from './types';
+
+// The parameters that identify a money-moving request. A replayed
+// transactionId must carry the same values as the request that created it.
+export interface ReplayParams {
+  transactionType: TransactionType;
+  sessionToken?: string | null;
+  roundId?: string | null;
+  amount?: number | null;
+  relatedTransactionId?: string | null;
+}
+
+// List the fields of a replayed request that differ from the original.
+// Fields the replayed request does not carry are not compared.
+export function diffReplayParams(original: ReplayParams, received: ReplayParams): (keyof ReplayParams)[] {
+  const fields = Object.keys(received) as (keyof ReplayParams)[];
+
+  return fields.filter((field) => {
+    const value = received[field];
+    if (value === undefined) return false;
+
+    const originalValue = original[field];
+    if (field === 'amount') {
+      return Number(originalValue) !== Number(value);
+    }
+
+    return (originalValue ?? null) !== (value ?? null);
+  });
+}
+
+// Values of the compared fields for a conflict report. Session tokens are bearer
+// credentials, so only whether they matched is reported, never the tokens themselves.
+export function describeReplayParams(
+  params: ReplayParams,
+  fields: (keyof ReplayParams)[]
+): Record<string, unknown> {
+  return Object.fromEntries(fields.filter((field) => field !== 'sessionToken').map((field) => [field, params[field]]));
+}
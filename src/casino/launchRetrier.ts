@@ -0,0 +1,21 @@
+import { casinoService } from './service';
+
+// Periodically retry provider launches left pending by lenient-mode launches
+export function startLaunchRetrier(
+  intervalSeconds: number = parseInt(process.env.PROVIDER_LAUNCH_RETRY_INTERVAL_SECONDS || '5')
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const launched = await casinoService.retryPendingLaunches();
+      if (launched > 0) {
+        console.log(`Launch retrier started ${launched} pending provider session(s)`);
+      }
+    } catch (error: any) {
+      console.error('Launch retrier failed:', error.message);
+    }
+  }, intervalSeconds * 1000);
+
+  // Do not keep the process alive just for the retrier
+  timer.unref();
+  return timer;
+}
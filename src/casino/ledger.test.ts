@@ -0,0 +1,82 @@
+import { debitEntries, creditEntries, fundingEntries, reverseEntries, isBalanced, walletDelta } from './ledger';
+
+describe('Ledger Module', () => {
+  describe('debitEntries', () => {
+    it('should move the bet from both player pools into house wagering', () => {
+      const entries = debitEntries({ cash: 300, bonus: 200 });
+
+      expect(entries).toEqual([
+        { account: 'player_cash', amount: -300 },
+        { account: 'player_bonus', amount: -200 },
+        { account: 'house_wagering', amount: 500 }
+      ]);
+      expect(isBalanced(entries)).toBe(true);
+    });
+
+    it('should leave out pools that were not touched', () => {
+      expect(debitEntries({ cash: 500, bonus: 0 })).toEqual([
+        { account: 'player_cash', amount: -500 },
+        { account: 'house_wagering', amount: 500 }
+      ]);
+    });
+  });
+
+  describe('creditEntries', () => {
+    it('should pay winnings out of house payout', () => {
+      const entries = creditEntries({ cash: 750, bonus: 250 });
+
+      expect(isBalanced(entries)).toBe(true);
+      expect(walletDelta(entries)).toEqual({ playable: 1000, redeemable: 750 });
+    });
+
+    it('should post nothing for a zero payout', () => {
+      expect(creditEntries({ cash: 0, bonus: 0 })).toEqual([]);
+    });
+  });
+
+  describe('fundingEntries', () => {
+    it('should draw bonus funds from the house bonus account', () => {
+      const entries = fundingEntries({ cash: 0, bonus: 1000 });
+
+      expect(entries).toEqual([
+        { account: 'house_bonus', amount: -1000 },
+        { account: 'player_bonus', amount: 1000 }
+      ]);
+    });
+
+    it('should handle funds leaving a wallet', () => {
+      const entries = fundingEntries({ cash: -400, bonus: 0 });
+
+      expect(isBalanced(entries)).toBe(true);
+      expect(walletDelta(entries)).toEqual({ playable: -400, redeemable: -400 });
+    });
+  });
+
+  describe('reverseEntries', () => {
+    it('should exactly undo a bet', () => {
+      const bet = debitEntries({ cash: 300, bonus: 200 });
+      const reversal = reverseEntries(bet);
+
+      expect(isBalanced(reversal)).toBe(true);
+      expect(walletDelta(reversal)).toEqual({ playable: 500, redeemable: 300 });
+    });
+
+    it('should accept amounts read back from the database as strings', () => {
+      const stored = [
+        { account: 'player_cash', amount: '-300' },
+        { account: 'house_wagering', amount: '300' }
+      ] as any;
+
+      expect(reverseEntries(stored)).toEqual([
+        { account: 'player_cash', amount: 300 },
+        { account: 'house_wagering', amount: -300 }
+      ]);
+    });
+  });
+
+  describe('isBalanced', () => {
+    it('should reject a posting that does not sum to zero', () => {
+      expect(isBalanced([{ account: 'player_cash', amount: 100 }])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CasinoWallet, FundsSplit, LedgerEntryLine } from './types';
+
+// Double-entry journal behind casino_wallets. Every balance movement is posted
+// as a set of entries that sum to zero:
+//   player_cash / player_bonus - the player's redeemable and bonus funds
+//   house_wagering             - bets taken from players
+//   house_payout               - winnings paid to players
+//   house_bonus                - bonus funds granted to players
+//   house_funding              - cash entering or leaving the platform (opening balances, adjustments)
+// Wallet balances are a running projection of the player accounts:
+//   playable_balance = player_cash + player_bonus, redeemable_balance = player_cash
+
+// Entries for a bet, taken from the pools in the split
+export function debitEntries(split: FundsSplit): LedgerEntryLine[] {
+  return compact([
+    { account: 'player_cash', amount: -split.cash },
+    { account: 'player_bonus', amount: -split.bonus },
+    { account: 'house_wagering', amount: split.cash + split.bonus }
+  ]);
+}
+
+// Entries for a payout, landing in the pools in the split
+export function creditEntries(split: FundsSplit): LedgerEntryLine[] {
+  return compact([
+    { account: 'house_payout', amount: -(split.cash + split.bonus) },
+    { account: 'player_cash', amount: split.cash },
+    { account: 'player_bonus', amount: split.bonus }
+  ]);
+}
+
+// Entries moving funds between the platform and a player's pools
+export function fundingEntries(split: FundsSplit): LedgerEntryLine[] {
+  return compact([
+    { account: 'house_funding', amount: -split.cash },
+    { account: 'player_cash', amount: split.cash },
+    { account: 'house_bonus', amount: -split.bonus },
+    { account: 'player_bonus', amount: split.bonus }
+  ]);
+}
+
+// Entries that exactly undo an earlier posting
+export function reverseEntries(entries: LedgerEntryLine[]): LedgerEntryLine[] {
+  return entries.map((entry) => ({ account: entry.account, amount: -Number(entry.amount) }));
+}
+
+export function isBalanced(entries: LedgerEntryLine[]): boolean {
+  return entries.reduce((total, entry) => total + Number(entry.amount), 0) === 0;
+}
+
+// How a posting moves the wallet's cached balances
+export function walletDelta(entries: LedgerEntryLine[]): { playable: number; redeemable: number } {
+  const delta = { playable: 0, redeemable: 0 };
+
+  for (const entry of entries) {
+    if (entry.account === 'player_cash') {
+      delta.playable += Number(entry.amount);
+      delta.redeemable += Number(entry.amount);
+    } else if (entry.account === 'player_bonus') {
+      delta.playable += Number(entry.amount);
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Write a balanced posting to the journal and apply it to the wallet
+ * Must run inside the database transaction that holds the wallet row lock
+ */
+export async function postEntries(
+  client: any,
+  wallet: CasinoWallet,
+  entries: LedgerEntryLine[],
+  options: { transactionId?: string | null; description?: string } = {}
+): Promise<CasinoWallet> {
+  if (!isBalanced(entries)) {
+    throw new Error(`Unbalanced ledger posting for wallet ${wallet.id}`);
+  }
+
+  if (entries.length === 0) {
+    return wallet;
+  }
+
+  const postingId = uuidv4();
+  for (const entry of entries) {
+    await client.query(
+      `INSERT INTO casino_ledger_entries
+       (posting_id, transaction_id, wallet_id, account, currency_code, amount, description)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [postingId, options.transactionId || null, wallet.id, entry.account, wallet.currency_code, entry.amount, options.description || null]
+    );
+  }
+
+  const delta = walletDelta(entries);
+  const walletResult = await client.query(
+    `UPDATE casino_wallets
+     SET playable_balance = playable_balance + $1,
+         redeemable_balance = redeemable_balance + $2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3
+     RETURNING *`,
+    [delta.playable, delta.redeemable, wallet.id]
+  );
+
+  return walletResult.rows[0];
+}
+
+// Zero-amount lines carry no information; leave them out of the journal
+function compact(entries: LedgerEntryLine[]): LedgerEntryLine[] {
+  return entries.filter((entry) => entry.amount !== 0);
+}
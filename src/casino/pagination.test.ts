@@ -0,0 +1,38 @@
+import { encodeCursor, decodeCursor, getPageSize } from './pagination';
+
+describe('Pagination Module', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    const cursor = {
+      createdAt: '2024-01-01T12:00:00.123456Z',
+      id: '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b'
+    };
+
+    it('should round-trip a cursor', () => {
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should keep microsecond precision', () => {
+      expect(decodeCursor(encodeCursor(cursor))?.createdAt).toBe('2024-01-01T12:00:00.123456Z');
+    });
+
+    it('should reject tampered or foreign cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(encodeCursor({ ...cursor, createdAt: '2024-01-01' }))).toBeNull();
+      expect(decodeCursor(encodeCursor({ ...cursor, id: "1' OR '1'='1" }))).toBeNull();
+      expect(decodeCursor(Buffer.from(`${cursor.createdAt}|${cursor.id}|extra`).toString('base64url'))).toBeNull();
+    });
+  });
+
+  describe('getPageSize', () => {
+    it('should default when no limit is given', () => {
+      expect(getPageSize()).toBe(50);
+      expect(getPageSize('abc')).toBe(50);
+      expect(getPageSize('0')).toBe(50);
+    });
+
+    it('should cap large limits', () => {
+      expect(getPageSize('10')).toBe(10);
+      expect(getPageSize(1000)).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+// Keyset (cursor) pagination over rows ordered newest first by (created_at, id).
+// A cursor names the last row of a page, so rows inserted while a client is
+// paging land before the first page and never shift or repeat later pages.
+// Timestamps are carried as ISO strings with microseconds: a JS Date would drop
+// Postgres' sub-millisecond precision and skip rows sharing a millisecond.
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// SQL expression rendering a timestamptz column in the cursor's timestamp format
+export function cursorTimestampSql(column: string): string {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+}
+
+export interface PageCursor {
+  createdAt: string;
+  id: string;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64url');
+}
+
+// Returns null for anything that is not a cursor this module produced
+export function decodeCursor(value: string): PageCursor | null {
+  const [createdAt, id, ...rest] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+  if (!createdAt || !id || rest.length > 0) return null;
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/.test(createdAt)) return null;
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) return null;
+
+  return { createdAt, id };
+}
+
+// Clamp a requested page size to 1..MAX_PAGE_SIZE
+export function getPageSize(limit?: string | number): number {
+  const size = parseInt(String(limit ?? ''), 10);
+  if (!Number.isFinite(size) || size <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(size, MAX_PAGE_SIZE);
+}
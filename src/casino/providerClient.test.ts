@@ -0,0 +1,213 @@
+import { ProviderClient, ProviderTransport, ProviderHttpRequest, ProviderHttpResponse, ProviderTimeoutError, getRetryDelayMs } from './providerClient';
+import { verifySignature, SIGNATURE_TIMESTAMP_HEADER, SIGNATURE_NONCE_HEADER } from '../shared/security';
+import { CasinoGameProvider, CasinoError, ErrorCodes } from './types';
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+const provider: CasinoGameProvider = {
+  id: 'provider-1',
+  code: 'ACME',
+  name: 'Acme Games',
+  api_endpoint: 'http://provider.test',
+  secret_key: 'unused',
+  signature_mode: 'canonical',
+  supported_currencies: null,
+  is_disabled: false,
+  disabled_reason: null,
+  disabled_at: null,
+  health_status: 'up',
+  consecutive_failures: 0,
+  last_checked_at: null,
+  last_error: null,
+  created_at: now,
+  updated_at: now
+};
+
+const launchCall = {
+  playerId: 'player-1',
+  gameId: 'slots',
+  sessionToken: 'token-1',
+  currency: 'USD',
+  balance: 10000
+};
+
+// In-process transport answering from a script and recording what it was sent
+function scriptedTransport(replies: (ProviderHttpResponse | Error)[]): ProviderTransport & { requests: ProviderHttpRequest[] } {
+  const requests: ProviderHttpRequest[] = [];
+  return {
+    requests,
+    async send(request) {
+      requests.push(request);
+      const reply = replies.shift();
+      if (!reply) throw new Error('No scripted reply');
+      if (reply instanceof Error) throw reply;
+      return reply;
+    }
+  };
+}
+
+function makeClient(transport: ProviderTransport, sleep = jest.fn(async () => {})) {
+  return new ProviderClient(provider, async () => 'outbound_secret', {
+    transport,
+    casinoCode: 'CASINO_TEST',
+    maxRetries: 2,
+    retryBaseDelayMs: 100,
+    random: () => 0.5,
+    sleep
+  });
+}
+
+async function callError(promise: Promise<unknown>): Promise<CasinoError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as CasinoError;
+  }
+  throw new Error('Expected the call to fail');
+}
+
+describe('Provider Client Module', () => {
+  describe('launch', () => {
+    it('should send a signed launch request and map the response', async () => {
+      const transport = scriptedTransport([
+        { status: 200, data: { success: true, providerSessionId: 'ps-1', gameUrl: 'http://play.test/ps-1' } }
+      ]);
+
+      const result = await makeClient(transport).launch(launchCall);
+
+      expect(result).toEqual({
+        providerSessionId: 'ps-1',
+        gameUrl: 'http://play.test/ps-1',
+        playerId: null,
+        serverSeedHash: null
+      });
+
+      const [request] = transport.requests;
+      expect(request.url).toBe('http://provider.test/launch');
+      expect(JSON.parse(request.body!)).toEqual({ casinoCode: 'CASINO_TEST', ...launchCall });
+      expect(verifySignature(request.headers['x-casino-signature'], request.body, 'outbound_secret', {
+        timestamp: request.headers[SIGNATURE_TIMESTAMP_HEADER],
+        nonce: request.headers[SIGNATURE_NONCE_HEADER]
+      })).toBe(true);
+    });
+
+    it('should retry server errors with a fresh nonce and jittered backoff', async () => {
+      const sleep = jest.fn(async () => {});
+      const transport = scriptedTransport([
+        { status: 503, data: { error: 'Busy' } },
+        new Error('socket hang up'),
+        { status: 200, data: { providerSessionId: 'ps-1' } }
+      ]);
+
+      const result = await makeClient(transport, sleep).launch(launchCall);
+
+      expect(result.providerSessionId).toBe('ps-1');
+      expect(transport.requests).toHaveLength(3);
+      expect(new Set(transport.requests.map((r) => r.headers[SIGNATURE_NONCE_HEADER])).size).toBe(3);
+      expect(sleep.mock.calls).toEqual([[50], [100]]);
+    });
+
+    it('should give up after the last retry', async () => {
+      const transport = scriptedTransport([
+        { status: 500, data: {} },
+        { status: 502, data: {} },
+        { status: 500, data: { error: 'Still down' } }
+      ]);
+
+      const error = await callError(makeClient(transport).launch(launchCall));
+
+      expect(transport.requests).toHaveLength(3);
+      expect(error.code).toBe(ErrorCodes.PROVIDER_UNAVAILABLE);
+      expect(error.statusCode).toBe(503);
+      expect(error.details).toMatchObject({ provider: 'ACME', operation: 'launch', status: 500 });
+    });
+
+    it('should not retry a request the provider rejected', async () => {
+      const transport = scriptedTransport([
+        { status: 400, data: { success: false, error: 'Unknown game', code: 'GAME_NOT_FOUND' } }
+      ]);
+
+      const error = await callError(makeClient(transport).launch(launchCall));
+
+      expect(transport.requests).toHaveLength(1);
+      expect(error.code).toBe(ErrorCodes.PROVIDER_REJECTED);
+      expect(error.statusCode).toBe(502);
+      expect(error.details).toEqual({
+        provider: 'ACME',
+        operation: 'launch',
+        status: 400,
+        providerCode: 'GAME_NOT_FOUND',
+        providerError: 'Unknown game'
+      });
+    });
+
+    it('should report a timeout once retries are used up', async () => {
+      const transport = scriptedTransport([
+        new ProviderTimeoutError(),
+        new ProviderTimeoutError(),
+        new ProviderTimeoutError()
+      ]);
+
+      const error = await callError(makeClient(transport).launch(launchCall));
+
+      expect(error.code).toBe(ErrorCodes.PROVIDER_TIMEOUT);
+      expect(error.statusCode).toBe(504);
+    });
+
+    it('should reject a response without a provider session', async () => {
+      const transport = scriptedTransport([{ status: 200, data: { success: true } }]);
+
+      const error = await callError(makeClient(transport).launch(launchCall));
+
+      expect(error.code).toBe(ErrorCodes.PROVIDER_BAD_RESPONSE);
+    });
+  });
+
+  describe('simulate', () => {
+    it('should not retry, as a repeat would place the bets again', async () => {
+      const transport = scriptedTransport([{ status: 503, data: {} }]);
+
+      const error = await callError(
+        makeClient(transport).simulate({ sessionToken: 'token-1', gameId: 'slots', actions: [{ type: 'balance_check' }] })
+      );
+
+      expect(transport.requests).toHaveLength(1);
+      expect(error.code).toBe(ErrorCodes.PROVIDER_UNAVAILABLE);
+    });
+  });
+
+  describe('endSession', () => {
+    it('should end the provider session and return the revealed seed', async () => {
+      const transport = scriptedTransport([
+        { status: 200, data: { success: true, providerSessionId: 'ps-1', serverSeed: 'seed', serverSeedHash: 'hash' } }
+      ]);
+
+      const result = await makeClient(transport).endSession('token-1');
+
+      expect(result).toEqual({ providerSessionId: 'ps-1', serverSeed: 'seed', serverSeedHash: 'hash' });
+      expect(transport.requests[0].url).toBe('http://provider.test/sessions/end');
+      expect(JSON.parse(transport.requests[0].body!)).toEqual({ casinoCode: 'CASINO_TEST', sessionToken: 'token-1' });
+    });
+  });
+
+  describe('checkHealth', () => {
+    it('should probe the health route unsigned with the given timeout', async () => {
+      const transport = scriptedTransport([{ status: 200, data: { status: 'ok' } }]);
+      const getSecret = jest.fn(async () => 'outbound_secret');
+      const client = new ProviderClient(provider, getSecret, { transport });
+
+      await client.checkHealth(1500);
+
+      expect(transport.requests[0]).toMatchObject({ method: 'GET', url: 'http://provider.test/health', headers: {}, timeoutMs: 1500 });
+      expect(getSecret).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should pick a delay up to the doubled backoff for each retry', () => {
+      expect(getRetryDelayMs(1, 200, () => 0.999)).toBe(199);
+      expect(getRetryDelayMs(3, 200, () => 0.5)).toBe(400);
+      expect(getRetryDelayMs(2, 200, () => 0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import axios from 'axios';
+import { signRequest, signEmptyRequest, SIGNATURE_TIMESTAMP_HEADER, SIGNATURE_NONCE_HEADER } from '../shared/security';
+import {
+  CasinoGameProvider,
+  CasinoError,
+  ErrorCodes,
+  ProviderCatalogGame,
+  ProviderLaunchCall,
+  ProviderLaunchResult,
+  ProviderEndSessionResult,
+  ProviderSimulateCall,
+  ProviderSimulateResult
+} from './types';
+
+// Typed client for the calls the casino makes to a game provider. Requests go to the
+// provider's api_endpoint, signed with its outbound secret, through a pluggable transport
+// (HTTP by default, in-process in tests). Idempotent calls are retried with jittered
+// backoff; every failure surfaces as a CasinoError with a PROVIDER_* code.
+
+export interface ProviderHttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+}
+
+export interface ProviderHttpResponse {
+  status: number;
+  data: any;
+}
+
+// Sends one request; resolves with any HTTP response and rejects only when none arrived
+export interface ProviderTransport {
+  send(request: ProviderHttpRequest): Promise<ProviderHttpResponse>;
+}
+
+// Thrown by transports when the request timed out
+export class ProviderTimeoutError extends Error {
+  constructor(message: string = 'Provider request timed out') {
+    super(message);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export const httpTransport: ProviderTransport = {
+  async send(request) {
+    try {
+      const response = await axios.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeoutMs,
+        validateStatus: () => true
+      });
+      return { status: response.status, data: response.data };
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new ProviderTimeoutError(error.message);
+      }
+      throw error;
+    }
+  }
+};
+
+export interface ProviderClientOptions {
+  transport?: ProviderTransport;
+  casinoCode?: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface CallOptions {
+  operation: string;
+  method: 'GET' | 'POST';
+  path: string;
+  body?: object;
+  timeoutMs: number;
+  idempotent: boolean;
+  signed?: boolean;
+}
+
+// Our code with partners, sent as casinoCode / x-casino-code
+export function getCasinoCode(): string {
+  return process.env.CASINO_CODE || 'CASINO_MAIN';
+}
+
+// Full jitter: a random delay up to the exponential backoff for this retry (1-based)
+export function getRetryDelayMs(retry: number, baseDelayMs: number, random: () => number = Math.random): number {
+  return Math.floor(random() * baseDelayMs * 2 ** (retry - 1));
+}
+
+// Rate limiting and server-side failures may clear up; other client errors will not
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export class ProviderClient {
+  private readonly transport: ProviderTransport;
+  private readonly casinoCode: string;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly random: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly provider: CasinoGameProvider,
+    // Resolved per signed request, so unsigned calls never need a key
+    private readonly getSigningSecret: () => Promise<string>,
+    options: ProviderClientOptions = {}
+  ) {
+    this.transport = options.transport || httpTransport;
+    this.casinoCode = options.casinoCode || getCasinoCode();
+    this.maxRetries = options.maxRetries ?? parseInt(process.env.PROVIDER_CLIENT_MAX_RETRIES || '2');
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 200;
+    this.random = options.random || Math.random;
+    this.sleep = options.sleep || ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  // Start the provider side of a game session; safe to repeat for the same session token
+  async launch(call: ProviderLaunchCall): Promise<ProviderLaunchResult> {
+    const data = await this.call({
+      operation: 'launch',
+      method: 'POST',
+      path: '/launch',
+      body: { casinoCode: this.casinoCode, ...call },
+      timeoutMs: 10000,
+      idempotent: true
+    });
+
+    if (!data?.providerSessionId) {
+      throw this.badResponse('launch', 'no providerSessionId');
+    }
+
+    return {
+      providerSessionId: data.providerSessionId,
+      gameUrl: data.gameUrl || null,
+      playerId: data.playerId || null,
+      serverSeedHash: data.serverSeedHash || null
+    };
+  }
+
+  // End the provider side of a game session, which reveals its server seed; safe to repeat
+  async endSession(sessionToken: string): Promise<ProviderEndSessionResult> {
+    const data = await this.call({
+      operation: 'endSession',
+      method: 'POST',
+      path: '/sessions/end',
+      body: { casinoCode: this.casinoCode, sessionToken },
+      timeoutMs: 10000,
+      idempotent: true
+    });
+
+    if (!data?.serverSeed) {
+      throw this.badResponse('endSession', 'no serverSeed');
+    }
+
+    return {
+      providerSessionId: data.providerSessionId,
+      serverSeed: data.serverSeed,
+      serverSeedHash: data.serverSeedHash
+    };
+  }
+
+  // Play a scripted round; never retried, as each attempt places new bets
+  async simulate(call: ProviderSimulateCall): Promise<ProviderSimulateResult> {
+    const data = await this.call({
+      operation: 'simulate',
+      method: 'POST',
+      path: '/simulate',
+      body: { casinoCode: this.casinoCode, ...call },
+      timeoutMs: 30000,
+      idempotent: false
+    });
+
+    if (!data?.roundId || !Array.isArray(data.results)) {
+      throw this.badResponse('simulate', 'no roundId or results');
+    }
+
+    return { roundId: data.roundId, results: data.results, finalBalance: Number(data.finalBalance) };
+  }
+
+  async listGames(): Promise<ProviderCatalogGame[]> {
+    const data = await this.call({
+      operation: 'listGames',
+      method: 'GET',
+      path: '/games',
+      timeoutMs: 10000,
+      idempotent: true
+    });
+
+    if (!Array.isArray(data?.games)) {
+      throw this.badResponse('listGames', 'no games list');
+    }
+
+    return data.games;
+  }
+
+  // Unsigned probe of the health route, tried once so the monitor sees every failure
+  async checkHealth(timeoutMs: number): Promise<void> {
+    await this.call({
+      operation: 'health',
+      method: 'GET',
+      path: '/health',
+      timeoutMs,
+      idempotent: false,
+      signed: false
+    });
+  }
+
+  private async call(options: CallOptions): Promise<any> {
+    const attempts = options.idempotent ? this.maxRetries + 1 : 1;
+    let lastError: CasinoError | null = null;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) {
+        await this.sleep(getRetryDelayMs(attempt - 1, this.retryBaseDelayMs, this.random));
+      }
+
+      // Sign every attempt afresh: a retried nonce would be rejected as a replay
+      const request = await this.buildRequest(options);
+
+      try {
+        const response = await this.transport.send(request);
+        if (response.status >= 200 && response.status < 300) {
+          return response.data;
+        }
+
+        lastError = this.rejected(options.operation, response);
+        if (!isRetryableStatus(response.status)) break;
+      } catch (error: any) {
+        lastError = this.unreachable(options.operation, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async buildRequest(options: CallOptions): Promise<ProviderHttpRequest> {
+    const request: ProviderHttpRequest = {
+      method: options.method,
+      url: `${this.provider.api_endpoint}${options.path}`,
+      headers: {},
+      timeoutMs: options.timeoutMs
+    };
+
+    if (options.signed === false) return request;
+
+    const secret = await this.getSigningSecret();
+
+    if (options.body) {
+      const signed = signRequest(options.body, secret, this.provider.signature_mode);
+      request.headers = this.signatureHeaders(signed);
+      request.headers['Content-Type'] = 'application/json';
+      request.body = signed.payload;
+    } else {
+      request.headers = this.signatureHeaders(signEmptyRequest(secret));
+    }
+
+    return request;
+  }
+
+  private signatureHeaders(signed: { signature: string; timestamp: string; nonce: string }): Record<string, string> {
+    return {
+      'x-casino-code': this.casinoCode,
+      'x-casino-signature': signed.signature,
+      [SIGNATURE_TIMESTAMP_HEADER]: signed.timestamp,
+      [SIGNATURE_NONCE_HEADER]: signed.nonce
+    };
+  }
+
+  private rejected(operation: string, response: ProviderHttpResponse): CasinoError {
+    const providerError = response.data?.error || null;
+    const details = {
+      provider: this.provider.code,
+      operation,
+      status: response.status,
+      providerCode: response.data?.code || null,
+      providerError
+    };
+
+    if (response.status >= 500 || response.status === 429) {
+      return new CasinoError(
+        `${this.provider.code} ${operation} failed with HTTP ${response.status}`,
+        ErrorCodes.PROVIDER_UNAVAILABLE,
+        503,
+        details
+      );
+    }
+
+    return new CasinoError(
+      `${this.provider.code} rejected ${operation}${providerError ? `: ${providerError}` : ''}`,
+      ErrorCodes.PROVIDER_REJECTED,
+      502,
+      details
+    );
+  }
+
+  private unreachable(operation: string, error: Error): CasinoError {
+    const details = { provider: this.provider.code, operation, reason: error.message };
+
+    if (error instanceof ProviderTimeoutError) {
+      return new CasinoError(`${this.provider.code} ${operation} timed out`, ErrorCodes.PROVIDER_TIMEOUT, 504, details);
+    }
+
+    return new CasinoError(
+      `${this.provider.code} ${operation} failed: ${error.message}`,
+      ErrorCodes.PROVIDER_UNAVAILABLE,
+      503,
+      details
+    );
+  }
+
+  private badResponse(operation: string, problem: string): CasinoError {
+    return new CasinoError(
+      `${this.provider.code} returned an invalid ${operation} response (${problem})`,
+      ErrorCodes.PROVIDER_BAD_RESPONSE,
+      502,
+      { provider: this.provider.code, operation }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { planHealthTransition, getHealthCheckConfig } from './providerHealth';
+import { CasinoGameProvider } from './types';
+
+type HealthState = Pick<CasinoGameProvider, 'health_status' | 'consecutive_failures' | 'is_disabled' | 'disabled_reason'>;
+
+const healthy: HealthState = {
+  health_status: 'up',
+  consecutive_failures: 0,
+  is_disabled: false,
+  disabled_reason: null
+};
+
+const failed = { ok: false, error: 'connect ECONNREFUSED' };
+const succeeded = { ok: true, error: null };
+
+describe('Provider Health Module', () => {
+  describe('planHealthTransition', () => {
+    it('should count failures below the threshold without disabling', () => {
+      const plan = planHealthTransition(healthy, failed, 3);
+
+      expect(plan).toEqual({
+        healthStatus: 'up',
+        consecutiveFailures: 1,
+        disable: false,
+        enable: false,
+        events: []
+      });
+    });
+
+    it('should mark the provider down and disable it at the threshold', () => {
+      const plan = planHealthTransition({ ...healthy, consecutive_failures: 2 }, failed, 3);
+
+      expect(plan.healthStatus).toBe('down');
+      expect(plan.disable).toBe(true);
+      expect(plan.events.map((event) => event.type)).toEqual(['down', 'disabled']);
+      expect(plan.events[0].detail).toBe('connect ECONNREFUSED');
+    });
+
+    it('should not record further events while the provider stays down', () => {
+      const down: HealthState = { health_status: 'down', consecutive_failures: 3, is_disabled: true, disabled_reason: 'unhealthy' };
+
+      const plan = planHealthTransition(down, failed, 3);
+
+      expect(plan.consecutiveFailures).toBe(4);
+      expect(plan.disable).toBe(false);
+      expect(plan.events).toEqual([]);
+    });
+
+    it('should re-enable a provider it disabled once it recovers', () => {
+      const down: HealthState = { health_status: 'down', consecutive_failures: 7, is_disabled: true, disabled_reason: 'unhealthy' };
+
+      const plan = planHealthTransition(down, succeeded, 3);
+
+      expect(plan).toEqual({
+        healthStatus: 'up',
+        consecutiveFailures: 0,
+        disable: false,
+        enable: true,
+        events: [
+          { type: 'up', detail: 'Health check succeeded' },
+          { type: 'enabled', detail: 'Re-enabled after recovery' }
+        ]
+      });
+    });
+
+    it('should leave a manually disabled provider disabled', () => {
+      const manual: HealthState = { health_status: 'down', consecutive_failures: 5, is_disabled: true, disabled_reason: 'manual' };
+
+      const plan = planHealthTransition(manual, succeeded, 3);
+
+      expect(plan.enable).toBe(false);
+      expect(plan.events.map((event) => event.type)).toEqual(['up']);
+    });
+  });
+
+  describe('getHealthCheckConfig', () => {
+    const original = process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD;
+      } else {
+        process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD = original;
+      }
+    });
+
+    it('should fall back to defaults for missing or invalid values', () => {
+      process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD = '0';
+      expect(getHealthCheckConfig().failureThreshold).toBe(5);
+
+      process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD = '2';
+      expect(getHealthCheckConfig().failureThreshold).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { CasinoGameProvider, ProviderEventType, ProviderHealthStatus } from './types';
+
+// Provider availability. Each provider's health route is probed periodically; after
+// PROVIDER_HEALTH_FAILURE_THRESHOLD consecutive failures it is marked down and disabled
+// so players cannot launch its games. A provider disabled this way re-enables itself on
+// the next successful probe; one disabled by an operator stays disabled.
+
+export interface HealthCheckConfig {
+  intervalSeconds: number;
+  failureThreshold: number;
+  timeoutMs: number;
+}
+
+export interface HealthCheckResult {
+  ok: boolean;
+  error: string | null;
+}
+
+export interface HealthTransition {
+  healthStatus: ProviderHealthStatus;
+  consecutiveFailures: number;
+  disable: boolean;
+  enable: boolean;
+  events: { type: ProviderEventType; detail: string }[];
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getHealthCheckConfig(): HealthCheckConfig {
+  return {
+    intervalSeconds: readPositiveInt(process.env.PROVIDER_HEALTH_INTERVAL_SECONDS, 60),
+    failureThreshold: readPositiveInt(process.env.PROVIDER_HEALTH_FAILURE_THRESHOLD, 5),
+    timeoutMs: readPositiveInt(process.env.PROVIDER_HEALTH_TIMEOUT_MS, 5000)
+  };
+}
+
+// Work out a provider's new health state from the result of one probe
+export function planHealthTransition(
+  provider: Pick<CasinoGameProvider, 'health_status' | 'consecutive_failures' | 'is_disabled' | 'disabled_reason'>,
+  result: HealthCheckResult,
+  failureThreshold: number
+): HealthTransition {
+  if (result.ok) {
+    const enable = provider.is_disabled && provider.disabled_reason === 'unhealthy';
+    const events: HealthTransition['events'] = [];
+
+    if (provider.health_status === 'down') {
+      events.push({ type: 'up', detail: 'Health check succeeded' });
+    }
+    if (enable) {
+      events.push({ type: 'enabled', detail: 'Re-enabled after recovery' });
+    }
+
+    return { healthStatus: 'up', consecutiveFailures: 0, disable: false, enable, events };
+  }
+
+  const consecutiveFailures = Number(provider.consecutive_failures) + 1;
+  const isDown = consecutiveFailures >= failureThreshold;
+  const healthStatus = isDown ? 'down' : provider.health_status;
+  const disable = isDown && !provider.is_disabled;
+  const events: HealthTransition['events'] = [];
+
+  if (isDown && provider.health_status !== 'down') {
+    events.push({ type: 'down', detail: result.error || 'Health check failed' });
+  }
+  if (disable) {
+    events.push({ type: 'disabled', detail: `Disabled after ${consecutiveFailures} consecutive failed health checks` });
+  }
+
+  return { healthStatus, consecutiveFailures, disable, enable: false, events };
+}
@@ -0,0 +1,19 @@
+import { casinoService } from './service';
+import { getHealthCheckConfig } from './providerHealth';
+
+// Periodically probe every provider's health route, disabling and re-enabling them as needed
+export function startProviderHealthMonitor(
+  intervalSeconds: number = getHealthCheckConfig().intervalSeconds
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      await casinoService.checkAllProviderHealth();
+    } catch (error: any) {
+      console.error('Provider health monitor failed:', error.message);
+    }
+  }, intervalSeconds * 1000);
+
+  // Do not keep the process alive just for the monitor
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,141 @@
+import {
+  planLimitChange,
+  getEffectiveAmount,
+  findLimitBreach,
+  isSelfExcluded,
+  isValidLimit
+} from './responsibleGaming';
+import { CasinoPlayerLimit, CasinoUser } from './types';
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+function makeLimit(overrides: Partial<CasinoPlayerLimit>): CasinoPlayerLimit {
+  return {
+    id: 'limit-1',
+    user_id: 'user-1',
+    limit_type: 'wager',
+    period: 'daily',
+    currency_code: 'USD',
+    amount: 10000,
+    pending_amount: null,
+    pending_effective_at: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides
+  };
+}
+
+describe('Responsible Gaming Module', () => {
+  describe('planLimitChange', () => {
+    it('should apply a first limit immediately', () => {
+      expect(planLimitChange(null, 5000, now, 3600)).toEqual({
+        amount: 5000,
+        pending_amount: null,
+        pending_effective_at: null
+      });
+    });
+
+    it('should apply a decrease immediately', () => {
+      expect(planLimitChange(10000, 5000, now, 3600).amount).toBe(5000);
+    });
+
+    it('should delay an increase by the cooling-off period', () => {
+      expect(planLimitChange(5000, 10000, now, 3600)).toEqual({
+        amount: 5000,
+        pending_amount: 10000,
+        pending_effective_at: new Date('2024-01-01T13:00:00Z')
+      });
+    });
+
+    it('should treat removal as an increase', () => {
+      const plan = planLimitChange(5000, null, now, 3600);
+
+      expect(plan.amount).toBe(5000);
+      expect(plan.pending_amount).toBeNull();
+      expect(plan.pending_effective_at).toEqual(new Date('2024-01-01T13:00:00Z'));
+    });
+  });
+
+  describe('getEffectiveAmount', () => {
+    it('should keep the current amount while a change is cooling off', () => {
+      const limit = makeLimit({ pending_amount: 20000, pending_effective_at: new Date('2024-01-02T00:00:00Z') });
+
+      expect(getEffectiveAmount(limit, now)).toBe(10000);
+    });
+
+    it('should switch to the pending amount once cooling-off ends', () => {
+      const limit = makeLimit({ pending_amount: 20000, pending_effective_at: new Date('2024-01-01T00:00:00Z') });
+
+      expect(getEffectiveAmount(limit, now)).toBe(20000);
+    });
+  });
+
+  describe('findLimitBreach', () => {
+    const sessionStart = new Date('2024-01-01T11:30:00Z');
+
+    it('should allow a bet within the wager limit', () => {
+      const usage = { daily: { wagered: 9000, won: 0 } };
+
+      expect(findLimitBreach([makeLimit({})], usage, sessionStart, 1000, now)).toBeNull();
+    });
+
+    it('should reject a bet that takes wagers over the limit', () => {
+      const usage = { daily: { wagered: 9500, won: 0 } };
+
+      expect(findLimitBreach([makeLimit({})], usage, sessionStart, 1000, now)).toEqual({
+        limitType: 'wager',
+        period: 'daily',
+        limit: 10000
+      });
+    });
+
+    it('should count winnings against the loss limit', () => {
+      const limit = makeLimit({ limit_type: 'loss', period: 'weekly', amount: 5000 });
+
+      expect(findLimitBreach([limit], { weekly: { wagered: 20000, won: 16000 } }, sessionStart, 1000, now)).toBeNull();
+      expect(findLimitBreach([limit], { weekly: { wagered: 20000, won: 15000 } }, sessionStart, 1000, now)).not.toBeNull();
+    });
+
+    it('should stop bets once the session has run too long', () => {
+      const limit = makeLimit({ limit_type: 'session_duration', period: 'session', currency_code: null, amount: 1800 });
+
+      expect(findLimitBreach([limit], {}, sessionStart, 100, now)?.limitType).toBe('session_duration');
+      expect(findLimitBreach([limit], {}, new Date('2024-01-01T11:45:00Z'), 100, now)).toBeNull();
+    });
+
+    it('should ignore limits that have been removed', () => {
+      const limit = makeLimit({ amount: null });
+
+      expect(findLimitBreach([limit], { daily: { wagered: 1e9, won: 0 } }, sessionStart, 1000, now)).toBeNull();
+    });
+  });
+
+  describe('isSelfExcluded', () => {
+    const user: CasinoUser = {
+      id: 'user-1',
+      username: 'player',
+      email: 'player@example.com',
+      self_excluded_until: null,
+      is_locked: false,
+      locked_reason: null,
+      locked_by: null,
+      locked_at: null,
+      created_at: now
+    };
+
+    it('should exclude until the end date', () => {
+      expect(isSelfExcluded({ ...user, self_excluded_until: new Date('2024-02-01T00:00:00Z') }, now)).toBe(true);
+      expect(isSelfExcluded({ ...user, self_excluded_until: new Date('2023-12-01T00:00:00Z') }, now)).toBe(false);
+      expect(isSelfExcluded(user, now)).toBe(false);
+    });
+  });
+
+  describe('isValidLimit', () => {
+    it('should only allow known limit and period pairs', () => {
+      expect(isValidLimit('loss', 'monthly')).toBe(true);
+      expect(isValidLimit('session_duration', 'session')).toBe(true);
+      expect(isValidLimit('session_duration', 'daily')).toBe(false);
+      expect(isValidLimit('deposit', 'daily')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { CasinoPlayerLimit, CasinoUser, LimitPeriod, LimitType } from './types';
+
+// Responsible-gaming rules:
+//   wager            - total staked (rolled-back bets excluded) per rolling period
+//   loss             - staked minus won per rolling period
+//   session_duration - seconds a single game session may place bets for
+// Money limits are per wallet currency. Tightening a limit applies immediately;
+// raising or removing one only takes effect after the cooling-off delay.
+
+const PERIOD_SECONDS: Record<Exclude<LimitPeriod, 'session'>, number> = {
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+  monthly: 30 * 24 * 60 * 60
+};
+
+export interface LimitUsage {
+  wagered: number;
+  won: number;
+}
+
+export interface LimitBreach {
+  limitType: LimitType | 'self_exclusion';
+  period: LimitPeriod | null;
+  limit: number | null;
+}
+
+// Read the cooling-off delay for limit increases from RG_COOLING_OFF_SECONDS
+export function getCoolingOffSeconds(): number {
+  const value = parseInt(process.env.RG_COOLING_OFF_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 24 * 60 * 60;
+}
+
+export function getPeriodSeconds(period: LimitPeriod): number | null {
+  return period === 'session' ? null : PERIOD_SECONDS[period];
+}
+
+export function isValidLimit(limitType: string, period: string): boolean {
+  if (limitType === 'session_duration') return period === 'session';
+  if (limitType === 'wager' || limitType === 'loss') return period in PERIOD_SECONDS;
+  return false;
+}
+
+// The amount in force now, taking a pending change whose delay has passed
+export function getEffectiveAmount(limit: CasinoPlayerLimit, now: Date = new Date()): number | null {
+  if (limit.pending_effective_at && new Date(limit.pending_effective_at) <= now) {
+    return limit.pending_amount === null ? null : Number(limit.pending_amount);
+  }
+  return limit.amount === null ? null : Number(limit.amount);
+}
+
+// Work out how a requested limit is stored: stricter limits apply at once,
+// looser ones (or removal, null) are queued behind the cooling-off delay
+export function planLimitChange(
+  current: number | null,
+  requested: number | null,
+  now: Date = new Date(),
+  coolingOffSeconds: number = getCoolingOffSeconds()
+): Pick<CasinoPlayerLimit, 'amount' | 'pending_amount' | 'pending_effective_at'> {
+  const isStricter = requested !== null && (current === null || requested <= current);
+  if (isStricter) {
+    return { amount: requested, pending_amount: null, pending_effective_at: null };
+  }
+
+  return {
+    amount: current,
+    pending_amount: requested,
+    pending_effective_at: new Date(now.getTime() + coolingOffSeconds * 1000)
+  };
+}
+
+export function isSelfExcluded(user: CasinoUser, now: Date = new Date()): boolean {
+  return !!user.self_excluded_until && new Date(user.self_excluded_until) > now;
+}
+
+// Find the first limit a bet would break, given usage per period
+export function findLimitBreach(
+  limits: CasinoPlayerLimit[],
+  usage: Partial<Record<LimitPeriod, LimitUsage>>,
+  sessionStartedAt: Date,
+  betAmount: number,
+  now: Date = new Date()
+): LimitBreach | null {
+  for (const limit of limits) {
+    const amount = getEffectiveAmount(limit, now);
+    if (amount === null) continue;
+
+    if (limit.limit_type === 'session_duration') {
+      const elapsedSeconds = (now.getTime() - new Date(sessionStartedAt).getTime()) / 1000;
+      if (elapsedSeconds >= amount) {
+        return { limitType: limit.limit_type, period: limit.period, limit: amount };
+      }
+      continue;
+    }
+
+    const periodUsage = usage[limit.period] || { wagered: 0, won: 0 };
+    const projected = limit.limit_type === 'wager'
+      ? periodUsage.wagered + betAmount
+      : periodUsage.wagered - periodUsage.won + betAmount;
+
+    if (projected > amount) {
+      return { limitType: limit.limit_type, period: limit.period, limit: amount };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import casinoRoutes from './routes';
+
+// Requests here are turned away before any database access
+describe('Casino Routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    process.env.ADMIN_API_KEY = 'test_admin_key';
+    const app = express();
+    app.use(express.json());
+    app.use('/casino', casinoRoutes);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/casino`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  function send(method: string, path: string, headers: Record<string, string> = {}, body?: object) {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body ? JSON.stringify(body) : undefined
+    });
+  }
+
+  describe('player responsible-gaming routes', () => {
+    it('should refuse to read limits without the admin key', async () => {
+      const response = await send('GET', '/players/user-1/limits');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should refuse to change limits without the admin key', async () => {
+      const response = await send('PUT', '/players/user-1/limits', {}, {
+        limitType: 'wager',
+        period: 'daily',
+        currency: 'USD',
+        amount: 1
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should refuse to self-exclude a player without the admin key', async () => {
+      const response = await send('POST', '/players/user-1/self-exclusion', {}, { days: 30 });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('history and summary routes', () => {
+    it('should refuse wallet history without the admin key', async () => {
+      const response = await send('GET', '/wallets/wallet-1/transactions');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should refuse a session summary with the wrong admin key', async () => {
+      const response = await send('GET', '/sessions/session-1', { 'x-admin-key': 'wrong_key' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -1,8 +1,10 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { casinoService } from './service';
-import { verifyProviderSignature } from '../shared/middleware';
-import { signBody } from '../shared/security';
-import axios from 'axios';
+import { casinoService, casinoKeyring } from './service';
+import { verifyProviderSignature, requireAdmin } from '../shared/middleware';
+import { createKeyringRouter } from '../shared/keyringRoutes';
+import { toGameAmount } from './currencies';
+import { getEffectiveAmount } from './responsibleGaming';
+import { getPageSize } from './pagination';
 import {
   LaunchGameRequest,
   LaunchGameResponse,
@@ -14,19 +16,40 @@ import {
   CreditResponse,
   RollbackRequest,
   RollbackResponse,
+  EndSessionRequest,
+  EndSessionResponse,
+  RoundDetailsResponse,
+  LedgerIntegrityReport,
+  SetFxRateRequest,
+  SetPlayerLimitRequest,
+  SelfExclusionRequest,
+  PlayerLimitsResponse,
+  CasinoUser,
+  CasinoPlayerLimit,
   SimulateRoundRequest,
   SimulateRoundResponse,
-  CasinoError
+  ProviderSimulateAction,
+  TransactionHistoryRow,
+  TransactionHistoryItem,
+  TransactionHistoryResponse,
+  SessionSummaryResponse,
+  CasinoError,
+  ErrorCodes
 } from './types';
 import { generateTransactionId, generateRoundId } from '../shared/security';
 
 const router = Router();
 
+// Provider callbacks are verified against the calling provider's own secret
+const verifyProvider = verifyProviderSignature((code) => casinoService.getSigningProvider(code));
+
 /**
  * POST /casino/launchGame
  * Initiated by frontend/client application
  * Validates the player and wallet, creates a casino-side game session,
  * and calls the Provider to initialize the corresponding provider-side session
+ * Strict mode fails with PROVIDER_UNAVAILABLE if the provider cannot start the game;
+ * lenient mode returns providerStatus 'pending' and retries in the background
  */
 router.post('/launchGame', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -40,55 +63,59 @@ router.post('/launchGame', async (req: Request, res: Response, next: NextFunctio
     }
     
     // Launch game session on Casino side
-    const { session, wallet, game, provider } = await casinoService.launchGame(
+    const { session: created, wallet, fx } = await casinoService.launchGame(
       userId,
       gameId,
       currency
     );
     
-    // Call Provider to initialize provider-side session
-    const providerPayload = {
-      casinoCode: 'CASINO_MAIN',
-      playerId: userId,
-      gameId: game.provider_game_id,
+    // Call Provider to initialize provider-side session; PROVIDER_LAUNCH_MODE decides
+    // whether a failure fails the launch or leaves it pending for a background retry
+    const session = await casinoService.startProviderSession(created);
+    
+    const response: LaunchGameResponse = {
+      success: true,
+      sessionId: session.id,
       sessionToken: session.token,
-      currency: wallet.currency_code,
-      balance: Number(wallet.playable_balance)
+      balance: toGameAmount(Number(wallet.playable_balance), fx),
+      currency: fx.gameCurrency.code,
+      providerStatus: session.provider_launch_status,
+      providerSessionId: session.provider_session_id,
+      gameUrl: session.provider_game_url,
+      serverSeedHash: session.provider_seed_hash
     };
     
-    const signature = signBody(providerPayload, process.env.CASINO_SECRET || '');
-    
-    try {
-      const providerResponse = await axios.post(
-        `${provider.api_endpoint}/launch`,
-        providerPayload,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-casino-signature': signature
-          },
-          timeout: 10000
-        }
-      );
-      
-      if (providerResponse.data.success) {
-        // Update session with provider session ID
-        await casinoService.updateSessionProviderSessionId(
-          session.id,
-          providerResponse.data.providerSessionId
-        );
-      }
-    } catch (providerError: any) {
-      console.warn('Provider launch call failed:', providerError.message);
-      // Continue even if provider call fails - session is still valid on casino side
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /casino/endSession
+ * Initiated by frontend/client application when the player leaves the game
+ * Closes the casino-side game session so its token can no longer move funds,
+ * then asks the provider to end its side and reveal the session's server seed
+ */
+router.post('/endSession', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionToken } = req.body as EndSessionRequest;
+    
+    if (!sessionToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'sessionToken is required'
+      });
     }
     
-    const response: LaunchGameResponse = {
+    const session = await casinoService.endSession(sessionToken);
+    const serverSeed = await casinoService.revealProviderSeed(session);
+    
+    const response: EndSessionResponse = {
       success: true,
       sessionId: session.id,
-      sessionToken: session.token,
-      balance: Number(wallet.playable_balance),
-      currency: wallet.currency_code
+      endedAt: session.ended_at as Date,
+      serverSeed
     };
     
     res.json(response);
@@ -105,7 +132,7 @@ router.post('/launchGame', async (req: Request, res: Response, next: NextFunctio
  */
 router.post('/simulateRound', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { userId, gameId, bets, wins, rollbacks } = req.body as SimulateRoundRequest;
+    const { userId, gameId, currency = 'USD', bets, wins, rollbacks } = req.body as SimulateRoundRequest;
     
     if (!userId || !gameId || !bets || bets.length === 0) {
       return res.status(400).json({
@@ -114,15 +141,16 @@ router.post('/simulateRound', async (req: Request, res: Response, next: NextFunc
       });
     }
     
-    // First, launch the game
-    const { session, wallet, game, provider } = await casinoService.launchGame(
+    // First, launch the game; the simulation needs the provider session, so launch strictly
+    const { session: created, game, provider } = await casinoService.launchGame(
       userId,
       gameId,
-      'USD'
+      currency
     );
+    const session = await casinoService.startProviderSession(created, 'strict');
     
     // Build simulation actions for provider
-    const actions: any[] = [{ type: 'balance_check' }];
+    const actions: ProviderSimulateAction[] = [{ type: 'balance_check' }];
     
     // Add bets
     bets.forEach((bet, index) => {
@@ -154,36 +182,21 @@ router.post('/simulateRound', async (req: Request, res: Response, next: NextFunc
     }
     
     // Call Provider simulate endpoint
-    const providerPayload = {
-      casinoCode: 'CASINO_MAIN',
+    const simulated = await casinoService.getProviderClient(provider).simulate({
       sessionToken: session.token,
       gameId: game.provider_game_id,
       actions
-    };
-    
-    const signature = signBody(providerPayload, process.env.CASINO_SECRET || '');
-    
-    const providerResponse = await axios.post(
-      `${provider.api_endpoint}/simulate`,
-      providerPayload,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-casino-signature': signature
-        },
-        timeout: 30000
-      }
-    );
+    });
     
     // Get final balance
-    const { balance: finalBalance, currency } = await casinoService.getBalance(session.token);
+    const { balance: finalBalance, currency: finalCurrency } = await casinoService.getBalance(session.token);
     
     const response: SimulateRoundResponse = {
       success: true,
       sessionId: session.id,
-      roundId: providerResponse.data.roundId,
-      transactions: providerResponse.data.results
-        .filter((r: any) => r.transactionId)
+      roundId: simulated.roundId,
+      transactions: simulated.results
+        .filter((r: any) => r.success && r.transactionId)
         .map((r: any) => ({
           type: r.action,
           transactionId: r.transactionId,
@@ -191,18 +204,11 @@ router.post('/simulateRound', async (req: Request, res: Response, next: NextFunc
           balanceAfter: r.balanceAfter
         })),
       finalBalance,
-      currency
+      currency: finalCurrency
     };
     
     res.json(response);
-  } catch (error: any) {
-    if (error.response) {
-      return res.status(error.response.status || 500).json({
-        success: false,
-        error: error.response.data?.error || error.message,
-        details: error.response.data
-      });
-    }
+  } catch (error) {
     next(error);
   }
 });
@@ -212,7 +218,7 @@ router.post('/simulateRound', async (req: Request, res: Response, next: NextFunc
  * Provider callback to retrieve the authoritative player balance
  * This endpoint must not mutate the state
  */
-router.post('/getBalance', verifyProviderSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/getBalance', verifyProvider, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { sessionToken } = req.body as GetBalanceRequest;
     
@@ -223,11 +229,16 @@ router.post('/getBalance', verifyProviderSignature, async (req: Request, res: Re
       });
     }
     
-    const { balance, currency } = await casinoService.getBalance(sessionToken);
+    const { balance, cashBalance, bonusBalance, currency } = await casinoService.getBalance(
+      sessionToken,
+      res.locals.provider.id
+    );
     
     const response: GetBalanceResponse = {
       success: true,
       balance,
+      cashBalance,
+      bonusBalance,
       currency
     };
     
@@ -242,7 +253,7 @@ router.post('/getBalance', verifyProviderSignature, async (req: Request, res: Re
  * Provider callback to deduct funds for a bet
  * Must validate available balance, apply the debit atomically, and be strictly idempotent
  */
-router.post('/debit', verifyProviderSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/debit', verifyProvider, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { sessionToken, transactionId, roundId, amount, description } = req.body as DebitRequest;
     
@@ -257,9 +268,15 @@ router.post('/debit', verifyProviderSignature, async (req: Request, res: Respons
       sessionToken,
       transactionId,
       roundId,
-      amount
+      amount,
+      res.locals.provider.id
     );
     
+    // Replays return the stored response verbatim
+    if (result.isDuplicate) {
+      return res.json(result.cachedResponse);
+    }
+    
     const response: DebitResponse = {
       success: true,
       transactionId,
@@ -278,9 +295,9 @@ router.post('/debit', verifyProviderSignature, async (req: Request, res: Respons
  * Provider callback to credit funds for a payout
  * Must be atomic, linked to the corresponding round/bet, and idempotent
  */
-router.post('/credit', verifyProviderSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/credit', verifyProvider, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { sessionToken, transactionId, roundId, amount, relatedTransactionId, description } = req.body as CreditRequest;
+    const { sessionToken, transactionId, roundId, amount, relatedTransactionId, isRoundFinished, description } = req.body as CreditRequest;
     
     if (!sessionToken || !transactionId || !roundId || amount === undefined) {
       return res.status(400).json({
@@ -294,9 +311,16 @@ router.post('/credit', verifyProviderSignature, async (req: Request, res: Respon
       transactionId,
       roundId,
       amount,
-      relatedTransactionId
+      relatedTransactionId,
+      isRoundFinished === true,
+      res.locals.provider.id
     );
     
+    // Replays return the stored response verbatim
+    if (result.isDuplicate) {
+      return res.json(result.cachedResponse);
+    }
+    
     const response: CreditResponse = {
       success: true,
       transactionId,
@@ -315,7 +339,7 @@ router.post('/credit', verifyProviderSignature, async (req: Request, res: Respon
  * Provider callback to reverse a previously accepted bet
  * Must enforce rollback rules (bets only, no payouts, tombstones) and be idempotent
  */
-router.post('/rollback', verifyProviderSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/rollback', verifyProvider, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { sessionToken, transactionId, originalTransactionId, reason } = req.body as RollbackRequest;
     
@@ -330,9 +354,15 @@ router.post('/rollback', verifyProviderSignature, async (req: Request, res: Resp
       sessionToken,
       transactionId,
       originalTransactionId,
-      reason
+      reason,
+      res.locals.provider.id
     );
     
+    // Replays return the stored response verbatim
+    if (result.isDuplicate) {
+      return res.json(result.cachedResponse);
+    }
+    
     const response: RollbackResponse = {
       success: true,
       transactionId,
@@ -348,4 +378,318 @@ router.post('/rollback', verifyProviderSignature, async (req: Request, res: Resp
   }
 });
 
+/**
+ * GET /casino/admin/providers/:code/rounds/:roundId
+ * Support view of a provider round: state, totals and every linked transaction
+ */
+router.get('/admin/providers/:code/rounds/:roundId', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = await casinoService.getProviderByCode(req.params.code);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const { round, transactions } = await casinoService.getRoundDetails(provider.id, req.params.roundId);
+    
+    const response: RoundDetailsResponse = {
+      success: true,
+      roundId: round.external_round_id,
+      status: round.status,
+      totalWagered: Number(round.total_wagered),
+      totalWon: Number(round.total_won),
+      totalRolledBack: Number(round.total_rolled_back),
+      openedAt: round.created_at,
+      closedAt: round.closed_at,
+      transactions: transactions.map((txn) => ({
+        type: txn.transaction_type,
+        transactionId: txn.external_transaction_id,
+        amount: Number(txn.amount),
+        balanceAfter: Number(txn.balance_after),
+        rolledBack: txn.is_rollback,
+        createdAt: txn.created_at
+      }))
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /casino/currencies
+ * Registered currencies and their minor-unit precision
+ */
+router.get('/currencies', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const currencies = await casinoService.listCurrencies();
+    
+    res.json({
+      success: true,
+      currencies: currencies.map((currency) => ({
+        code: currency.code,
+        name: currency.name,
+        minorUnits: currency.minor_units
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /casino/admin/fx-rates/:base/:quote
+ * Set the rate used to convert 1 unit of base into quote
+ */
+router.put('/admin/fx-rates/:base/:quote', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { rate } = req.body as SetFxRateRequest;
+    
+    const fxRate = await casinoService.setFxRate(req.params.base, req.params.quote, Number(rate));
+    
+    res.json({
+      success: true,
+      base: fxRate.base_currency,
+      quote: fxRate.quote_currency,
+      rate: Number(fxRate.rate),
+      updatedAt: fxRate.updated_at
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Shape a player's limits for the player and admin limit routes
+function toPlayerLimitsResponse(user: CasinoUser, limits: CasinoPlayerLimit[]): PlayerLimitsResponse {
+  return {
+    success: true,
+    userId: user.id,
+    selfExcludedUntil: user.self_excluded_until,
+    limits: limits.map((limit) => {
+      // Changes whose cooling-off has passed are already reported as the amount
+      const isPending = !!limit.pending_effective_at && new Date(limit.pending_effective_at) > new Date();
+      
+      return {
+        limitType: limit.limit_type,
+        period: limit.period,
+        currency: limit.currency_code,
+        amount: getEffectiveAmount(limit),
+        pendingAmount: isPending && limit.pending_amount !== null ? Number(limit.pending_amount) : null,
+        pendingEffectiveAt: isPending ? limit.pending_effective_at : null
+      };
+    })
+  };
+}
+
+async function setPlayerLimit(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { limitType, period, currency, amount } = req.body as SetPlayerLimitRequest;
+    
+    if (!limitType || !period || amount === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'limitType, period and amount are required'
+      });
+    }
+    
+    await casinoService.setPlayerLimit(req.params.userId, limitType, period, currency || null, amount);
+    const { user, limits } = await casinoService.getPlayerLimits(req.params.userId);
+    
+    res.json(toPlayerLimitsResponse(user, limits));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /casino/players/:userId/limits
+ * A player's responsible-gaming limits, including changes still cooling off
+ * Called by the player-facing back office with the admin key on the player's behalf
+ */
+router.get('/players/:userId/limits', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { user, limits } = await casinoService.getPlayerLimits(req.params.userId);
+    
+    res.json(toPlayerLimitsResponse(user, limits));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /casino/players/:userId/limits
+ * Set a wager, loss or session-time limit; increases wait out the cooling-off delay
+ */
+router.put('/players/:userId/limits', requireAdmin, setPlayerLimit);
+
+/**
+ * POST /casino/players/:userId/self-exclusion
+ * Self-exclude the player until a date, or for a number of days
+ */
+router.post('/players/:userId/self-exclusion', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { until, days } = req.body as SelfExclusionRequest;
+    
+    if (!until && !days) {
+      return res.status(400).json({
+        success: false,
+        error: 'until or days is required'
+      });
+    }
+    
+    const excludedUntil = until
+      ? new Date(until)
+      : new Date(Date.now() + Number(days) * 24 * 60 * 60 * 1000);
+    
+    const user = await casinoService.selfExclude(req.params.userId, excludedUntil);
+    
+    res.json({
+      success: true,
+      userId: user.id,
+      selfExcludedUntil: user.self_excluded_until
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function toHistoryItem(txn: TransactionHistoryRow): TransactionHistoryItem {
+  return {
+    transactionId: txn.external_transaction_id,
+    type: txn.transaction_type,
+    amount: Number(txn.amount),
+    balanceAfter: Number(txn.balance_after),
+    cashAmount: Number(txn.cash_amount),
+    bonusAmount: Number(txn.bonus_amount),
+    gameCurrency: txn.game_currency,
+    gameAmount: txn.game_amount === null ? null : Number(txn.game_amount),
+    fxRate: txn.fx_rate === null ? null : Number(txn.fx_rate),
+    sessionId: txn.session_id,
+    roundId: txn.external_round_id,
+    relatedTransactionId: txn.related_external_transaction_id,
+    rolledBack: txn.transaction_type === 'debit' && txn.is_rollback,
+    needsReview: txn.needs_review,
+    reviewReason: txn.review_reason,
+    reason: txn.reason,
+    operatorId: txn.operator_id,
+    createdAt: txn.created_at
+  };
+}
+
+/**
+ * GET /casino/wallets/:walletId/transactions?type=&from=&to=&sessionId=&roundId=&externalId=&limit=&cursor=
+ * A wallet's transaction history, newest first; pass nextCursor back as cursor for the next page
+ * Requires the admin key, like the player routes above
+ */
+router.get('/wallets/:walletId/transactions', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { type, from, to, sessionId, roundId, externalId, limit, cursor } = req.query as Record<string, string | undefined>;
+    
+    const { wallet, transactions, nextCursor } = await casinoService.listWalletTransactions(
+      req.params.walletId,
+      { type, from, to, sessionId, roundId, externalId },
+      getPageSize(limit),
+      cursor
+    );
+    
+    const response: TransactionHistoryResponse = {
+      success: true,
+      walletId: wallet.id,
+      currency: wallet.currency_code,
+      transactions: transactions.map(toHistoryItem),
+      nextCursor
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /casino/sessions/:sessionId
+ * A game session with wagered, won, rolled-back and net totals
+ * Requires the admin key
+ */
+router.get('/sessions/:sessionId', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { session, wallet, summary } = await casinoService.getSessionSummary(req.params.sessionId);
+    
+    const response: SessionSummaryResponse = {
+      success: true,
+      sessionId: session.id,
+      userId: session.user_id,
+      walletId: wallet.id,
+      gameId: session.game_id,
+      currency: wallet.currency_code,
+      gameCurrency: session.currency_code,
+      isActive: session.is_active,
+      providerStatus: session.provider_launch_status,
+      providerSessionId: session.provider_session_id,
+      gameUrl: session.provider_game_url,
+      serverSeedHash: session.provider_seed_hash,
+      ...summary,
+      net: summary.won - summary.wagered + summary.rolledBack,
+      startedAt: session.created_at,
+      lastActivityAt: session.last_activity_at,
+      endedAt: session.ended_at
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /casino/admin/players/:userId/limits
+ * Operator-initiated limit change; the same cooling-off rules apply
+ */
+router.put('/admin/players/:userId/limits', requireAdmin, setPlayerLimit);
+
+/**
+ * DELETE /casino/admin/players/:userId/self-exclusion
+ * Lift a self-exclusion early (operator only)
+ */
+router.delete('/admin/players/:userId/self-exclusion', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await casinoService.liftSelfExclusion(req.params.userId);
+    
+    res.json({
+      success: true,
+      userId: user.id,
+      selfExcludedUntil: user.self_excluded_until
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /casino/admin/ledger/integrity
+ * Audit check that the double-entry journal balances and matches every wallet
+ */
+router.get('/admin/ledger/integrity', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report: LedgerIntegrityReport = await casinoService.checkLedgerIntegrity();
+    
+    res.status(report.consistent ? 200 : 409).json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * /casino/admin/providers/:code/keys
+ * Admin routes to stage, promote and retire a provider's signing keys
+ */
+router.use(
+  '/admin/providers/:code/keys',
+  requireAdmin,
+  createKeyringRouter(casinoKeyring, async (code) => {
+    const provider = await casinoService.getProviderByCode(code);
+    return provider ? provider.id : null;
+  })
+);
+
 export default router;
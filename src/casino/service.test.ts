@@ -0,0 +1,588 @@
+import { CasinoService } from './service';
+import { CasinoError, CasinoGameSession, CasinoTransaction, ErrorCodes } from './types';
+import { query, transaction } from '../database/connection';
+
+jest.mock('../database/connection', () => ({ query: jest.fn(), transaction: jest.fn() }));
+
+const mockedQuery = query as jest.Mock;
+
+function makeTransaction(overrides: Partial<CasinoTransaction> = {}): CasinoTransaction {
+  return {
+    id: 'txn-1',
+    wallet_id: 'wallet-1',
+    session_id: null,
+    round_id: null,
+    transaction_type: 'adjustment',
+    amount: 5000,
+    external_transaction_id: 'adj_1',
+    related_external_transaction_id: null,
+    balance_after: 15000,
+    cash_amount: 5000,
+    bonus_amount: 0,
+    game_currency: null,
+    game_amount: null,
+    fx_rate: null,
+    reason: 'Goodwill',
+    operator_id: 'ops-1',
+    needs_review: false,
+    review_reason: null,
+    response_cache: null,
+    is_rollback: false,
+    created_at: new Date(),
+    ...overrides
+  };
+}
+
+function makeSession(overrides: Partial<CasinoGameSession> = {}): CasinoGameSession {
+  return {
+    id: 'session-1',
+    token: 'token-1',
+    user_id: 'user-1',
+    wallet_id: 'wallet-1',
+    game_id: 'game-1',
+    currency_code: 'USD',
+    provider_session_id: 'ps-1',
+    provider_launch_status: 'ready',
+    provider_game_url: null,
+    provider_seed_hash: null,
+    provider_launch_attempts: 1,
+    provider_launch_error: null,
+    next_launch_attempt_at: null,
+    is_active: true,
+    created_at: new Date(),
+    last_activity_at: new Date(),
+    ended_at: null,
+    ...overrides
+  };
+}
+
+type Row = Record<string, any>;
+
+// In-memory stand-in for the casino tables, answering the statements the wallet flows issue.
+// Simple INSERTs and equality SELECTs are interpreted; everything else has an explicit handler,
+// and an unknown statement fails the test. Transactions are undone when their callback throws.
+class FakeDatabase {
+  tables: Record<string, Row[]> = {};
+  private sequence = 0;
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ||= []);
+  }
+
+  install() {
+    mockedQuery.mockImplementation((sql: string, params?: any[]) => this.query(sql, params));
+    (transaction as jest.Mock).mockImplementation(async (callback) => {
+      const snapshot = structuredClone(this.tables);
+      try {
+        return await callback({ query: (sql: string, params?: any[]) => this.query(sql, params) });
+      } catch (error) {
+        this.tables = snapshot;
+        throw error;
+      }
+    });
+  }
+
+  async query(rawSql: string, params: any[] = []): Promise<{ rows: Row[] }> {
+    const sql = rawSql.replace(/\s+/g, ' ').trim();
+    const find = (table: string, id: string) => this.rows(table).find((row) => row.id === id)!;
+
+    if (sql.startsWith('UPDATE casino_game_sessions SET last_activity_at')) {
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE casino_wallets SET playable_balance = playable_balance + $1')) {
+      const wallet = find('casino_wallets', params[2]);
+      wallet.playable_balance += params[0];
+      wallet.redeemable_balance += params[1];
+      return { rows: [{ ...wallet }] };
+    }
+    if (sql.startsWith('UPDATE casino_rounds SET total_wagered')) {
+      find('casino_rounds', params[1]).total_wagered += params[0];
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE casino_rounds SET total_won')) {
+      const round = find('casino_rounds', params[2]);
+      round.total_won += params[0];
+      if (params[1]) round.status = 'closed';
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE casino_rounds SET total_rolled_back')) {
+      find('casino_rounds', params[1]).total_rolled_back += params[0];
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE casino_transactions SET is_rollback = true')) {
+      find('casino_transactions', params[0]).is_rollback = true;
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE casino_users SET is_locked')) {
+      const user = this.rows('casino_users').find((row) => row.id === params[0]);
+      if (!user) return { rows: [] };
+      Object.assign(user, { is_locked: params[1], locked_reason: params[2], locked_by: params[3] });
+      return { rows: [{ ...user }] };
+    }
+    if (sql.startsWith('UPDATE casino_game_providers SET name')) {
+      const provider = find('casino_game_providers', params[0]);
+      const [name, api_endpoint, secret_key, signature_mode, supported_currencies] = params.slice(1);
+      Object.assign(provider, { name, api_endpoint, secret_key, signature_mode, supported_currencies });
+      return { rows: [{ ...provider }] };
+    }
+    if (sql.includes('FROM casino_player_limits')) {
+      return { rows: [] };
+    }
+    if (sql.includes('FROM casino_fx_rates')) {
+      const rate = this.rows('casino_fx_rates').find(
+        (row) => row.base_currency === params[0] && row.quote_currency === params[1]
+      );
+      return { rows: rate ? [rate] : [] };
+    }
+    if (sql.startsWith('SELECT t.*, r.external_round_id')) {
+      const rows = this.rows('casino_transactions')
+        .filter((txn) => txn.wallet_id === params[0] && (params[4] === null || txn.session_id === params[4]))
+        .map((txn) => ({
+          ...txn,
+          external_round_id: this.rows('casino_rounds').find((round) => round.id === txn.round_id)?.external_round_id ?? null,
+          cursor_created_at: txn.created_at.toISOString()
+        }))
+        .reverse();
+      return { rows: rows.slice(0, params[9]) };
+    }
+    if (sql.includes('AS round_count FROM casino_transactions WHERE session_id = $1')) {
+      const txns = this.rows('casino_transactions').filter((txn) => txn.session_id === params[0]);
+      const total = (type: string) =>
+        txns.filter((txn) => txn.transaction_type === type).reduce((sum, txn) => sum + txn.amount, 0);
+      return {
+        rows: [{
+          wagered: total('debit'),
+          won: total('credit'),
+          rolled_back: total('rollback'),
+          transaction_count: txns.length,
+          round_count: new Set(txns.map((txn) => txn.round_id).filter(Boolean)).size
+        }]
+      };
+    }
+
+    const insert = sql.match(/^INSERT INTO (\w+) \(([^)]+)\) VALUES \(([^)]+)\)(?: ON CONFLICT \(([^)]+)\) DO NOTHING)?$/);
+    if (insert) {
+      const [, table, columnList, valueList, conflict] = insert;
+      const values = valueList.split(',').map((value) => value.trim());
+      const row: Row = { ...this.defaults(table) };
+      columnList.split(',').forEach((column, index) => {
+        const value = values[index];
+        row[column.trim()] = value.startsWith('$')
+          ? params[Number(value.slice(1)) - 1]
+          : value.startsWith("'") ? value.slice(1, -1) : JSON.parse(value);
+      });
+      if (typeof row.response_cache === 'string') row.response_cache = JSON.parse(row.response_cache);
+
+      const conflictColumns = conflict ? conflict.split(',').map((column) => column.trim()) : [];
+      const clash = conflictColumns.length > 0 &&
+        this.rows(table).some((existing) => conflictColumns.every((column) => existing[column] === row[column]));
+      if (!clash) this.rows(table).push(row);
+      return { rows: [] };
+    }
+
+    const select = sql.match(/^SELECT (\*|\w+) FROM (\w+) WHERE (.+?)(?: FOR UPDATE)?$/);
+    if (select) {
+      const [, column, table, where] = select;
+      const conditions = where.split(' AND ').map((condition) => {
+        const match = condition.match(/^(\w+) = (\$\d+|true|false)$/);
+        if (!match) throw new Error(`Unexpected query: ${sql}`);
+        const expected = match[2].startsWith('$') ? params[Number(match[2].slice(1)) - 1] : match[2] === 'true';
+        return (row: Row) => row[match[1]] === expected;
+      });
+      const rows = this.rows(table).filter((row) => conditions.every((matches) => matches(row)));
+      return { rows: rows.map((row) => (column === '*' ? { ...row } : { [column]: row[column] })) };
+    }
+
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  // Column defaults of the tables rows are inserted into
+  private defaults(table: string): Row {
+    const created_at = new Date(Date.UTC(2024, 0, 1) + ++this.sequence * 1000);
+    switch (table) {
+      case 'casino_rounds':
+        return { status: 'open', total_wagered: 0, total_won: 0, total_rolled_back: 0, created_at, closed_at: null };
+      case 'casino_transactions':
+        return { round_id: null, is_rollback: false, needs_review: false, review_reason: null, created_at };
+      default:
+        return { created_at };
+    }
+  }
+}
+
+// A funded USD wallet with an active session on a game taking bets from 100 to 100000
+function seedWallet(db: FakeDatabase, balance: number = 200000) {
+  db.rows('casino_currencies').push(
+    { code: 'USD', name: 'US Dollar', minor_units: 2, is_active: true },
+    { code: 'JPY', name: 'Japanese Yen', minor_units: 0, is_active: true }
+  );
+  db.rows('casino_users').push({ id: 'user-1', is_locked: false, self_excluded_until: null });
+  db.rows('casino_wallets').push({
+    id: 'wallet-1',
+    user_id: 'user-1',
+    currency_code: 'USD',
+    playable_balance: balance,
+    redeemable_balance: balance
+  });
+  db.rows('casino_games').push({ id: 'game-1', provider_id: 'provider-1', min_bet: 100, max_bet: 100000 });
+  db.rows('casino_game_sessions').push(makeSession());
+}
+
+// Answer a credit's lookups: no earlier attempt, an ended session, and the rounds played on it
+function givenEndedSession(roundIds: string[]) {
+  const session = makeSession({ is_active: false, ended_at: new Date() });
+  mockedQuery.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM casino_transactions')) return { rows: [] };
+    if (sql.includes('AND is_active = true')) return { rows: [] };
+    if (sql.includes('FROM casino_game_sessions')) return { rows: [session] };
+    if (sql.includes('FROM casino_games')) return { rows: [{ id: 'game-1', provider_id: 'provider-1' }] };
+    if (sql.includes('FROM casino_rounds')) {
+      return { rows: roundIds.includes(params[1] as string) ? [{ id: 'round-1' }] : [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+}
+
+// Answer the rollback's own idempotency lookup, then the lookup of the transaction it targets
+function givenOriginal(original: CasinoTransaction) {
+  mockedQuery
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [original] });
+}
+
+// Answer a replayed transactionId: the stored transaction, then the session, round and provider it belongs to
+function givenReplayOf(original: CasinoTransaction, providerId: string) {
+  mockedQuery
+    .mockResolvedValueOnce({ rows: [original] })
+    .mockResolvedValueOnce({
+      rows: [{ session_token: 'original-token', external_round_id: 'round-1', provider_id: providerId }]
+    });
+}
+
+async function callError(promise: Promise<unknown>): Promise<CasinoError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as CasinoError;
+  }
+  throw new Error('Expected the call to fail');
+}
+
+describe('Casino Service Module', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('processDebit bet limits', () => {
+    let db: FakeDatabase;
+
+    beforeEach(() => {
+      db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+    });
+
+    const bet = (amount: number) =>
+      new CasinoService().processDebit('token-1', `bet_${amount}`, 'round-1', amount, 'provider-1');
+
+    it('should reject a stake below the game minimum without touching the ledger', async () => {
+      const error = await callError(bet(99));
+
+      expect(error.code).toBe(ErrorCodes.BET_LIMIT_EXCEEDED);
+      expect(error.statusCode).toBe(400);
+      expect(db.rows('casino_transactions')).toHaveLength(0);
+      expect(db.rows('casino_ledger_entries')).toHaveLength(0);
+      expect(db.rows('casino_wallets')[0].playable_balance).toBe(200000);
+    });
+
+    it('should reject a stake above the game maximum without touching the ledger', async () => {
+      const error = await callError(bet(100001));
+
+      expect(error.code).toBe(ErrorCodes.BET_LIMIT_EXCEEDED);
+      expect(db.rows('casino_transactions')).toHaveLength(0);
+      expect(db.rows('casino_ledger_entries')).toHaveLength(0);
+    });
+
+    it('should accept stakes exactly at the minimum and maximum', async () => {
+      const atMinimum = await bet(100);
+      const atMaximum = await bet(100000);
+
+      expect(atMinimum.balance).toBe(199900);
+      expect(atMaximum.balance).toBe(99900);
+      expect(db.rows('casino_transactions').map((txn) => txn.amount)).toEqual([100, 100000]);
+      expect(db.rows('casino_ledger_entries')).toHaveLength(4);
+    });
+  });
+
+  describe('processDebit currency conversion', () => {
+    it('should reject a stake that rounds to nothing in the wallet currency', async () => {
+      const db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+      db.rows('casino_game_sessions')[0].currency_code = 'JPY';
+      db.rows('casino_games')[0].min_bet = 1;
+      db.rows('casino_fx_rates').push({ base_currency: 'JPY', quote_currency: 'USD', rate: 0.004 });
+
+      const error = await callError(new CasinoService().processDebit('token-1', 'bet_1', 'round-1', 1, 'provider-1'));
+
+      expect(error.code).toBe(ErrorCodes.INVALID_AMOUNT);
+      expect(error.statusCode).toBe(400);
+      expect(db.rows('casino_transactions')).toHaveLength(0);
+      expect(db.rows('casino_ledger_entries')).toHaveLength(0);
+    });
+
+    it('should convert a stake worth at least one minor unit', async () => {
+      const db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+      db.rows('casino_game_sessions')[0].currency_code = 'JPY';
+      db.rows('casino_games')[0].min_bet = 1;
+      db.rows('casino_fx_rates').push({ base_currency: 'JPY', quote_currency: 'USD', rate: 0.004 });
+
+      await new CasinoService().processDebit('token-1', 'bet_1', 'round-1', 2, 'provider-1');
+
+      expect(db.rows('casino_transactions')[0]).toMatchObject({ amount: 1, game_amount: 2, game_currency: 'JPY' });
+    });
+  });
+
+  describe('rounds', () => {
+    let db: FakeDatabase;
+    const service = new CasinoService();
+
+    beforeEach(() => {
+      db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+    });
+
+    it('should open a round on its first bet', async () => {
+      await service.processDebit('token-1', 'bet_1', 'round-1', 1000, 'provider-1');
+
+      expect(db.rows('casino_rounds')).toEqual([
+        expect.objectContaining({
+          provider_id: 'provider-1',
+          external_round_id: 'round-1',
+          session_id: 'session-1',
+          wallet_id: 'wallet-1',
+          status: 'open',
+          total_wagered: 1000
+        })
+      ]);
+      expect(db.rows('casino_transactions')[0].round_id).toBe(db.rows('casino_rounds')[0].id);
+    });
+
+    it('should reuse the round for later bets and payouts, closing it on the final payout', async () => {
+      await service.processDebit('token-1', 'bet_1', 'round-1', 1000, 'provider-1');
+      await service.processDebit('token-1', 'bet_2', 'round-1', 500, 'provider-1');
+      await service.processCredit('token-1', 'win_1', 'round-1', 3000, 'bet_1', true, 'provider-1');
+
+      const [round] = db.rows('casino_rounds');
+      expect(db.rows('casino_rounds')).toHaveLength(1);
+      expect(round).toMatchObject({ status: 'closed', total_wagered: 1500, total_won: 3000 });
+      expect(db.rows('casino_transactions').map((txn) => txn.round_id)).toEqual([round.id, round.id, round.id]);
+    });
+
+    it('should reject a payout for a closed round', async () => {
+      await service.processDebit('token-1', 'bet_1', 'round-1', 1000, 'provider-1');
+      await service.processCredit('token-1', 'win_1', 'round-1', 3000, 'bet_1', true, 'provider-1');
+
+      const error = await callError(service.processCredit('token-1', 'win_2', 'round-1', 3000, 'bet_1', true, 'provider-1'));
+
+      expect(error.code).toBe(ErrorCodes.ROUND_CLOSED);
+      expect(error.statusCode).toBe(409);
+      expect(db.rows('casino_transactions')).toHaveLength(2);
+      expect(db.rows('casino_rounds')[0].total_won).toBe(3000);
+    });
+
+    it('should reject a payout for an unknown round and not open it', async () => {
+      await service.processDebit('token-1', 'bet_1', 'round-1', 1000, 'provider-1');
+
+      const error = await callError(service.processCredit('token-1', 'win_1', 'round-404', 3000, 'bet_1', true, 'provider-1'));
+
+      expect(error.code).toBe(ErrorCodes.RELATED_TRANSACTION_MISMATCH);
+      expect(db.rows('casino_rounds').map((round) => round.external_round_id)).toEqual(['round-1']);
+      expect(db.rows('casino_transactions')).toHaveLength(1);
+    });
+  });
+
+  describe('history and session summary', () => {
+    it('should attribute each row to its round and session after a bet, payout and rollback', async () => {
+      const db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+      const service = new CasinoService();
+
+      await service.processDebit('token-1', 'bet_1', 'round-1', 1000, 'provider-1');
+      await service.processCredit('token-1', 'win_1', 'round-1', 2500, 'bet_1', true, 'provider-1');
+      await service.processDebit('token-1', 'bet_2', 'round-2', 500, 'provider-1');
+      await service.processRollback('token-1', 'rb_1', 'bet_2', 'cancelled', 'provider-1');
+
+      const { transactions } = await service.listWalletTransactions('wallet-1', {}, 50);
+      expect(transactions.map((txn) => [txn.external_transaction_id, txn.transaction_type, txn.external_round_id, txn.session_id]))
+        .toEqual([
+          ['rb_1', 'rollback', 'round-2', 'session-1'],
+          ['bet_2', 'debit', 'round-2', 'session-1'],
+          ['win_1', 'credit', 'round-1', 'session-1'],
+          ['bet_1', 'debit', 'round-1', 'session-1']
+        ]);
+
+      const { summary } = await service.getSessionSummary('session-1');
+      expect(summary).toEqual({
+        wagered: 1500,
+        won: 2500,
+        rolledBack: 500,
+        transactionCount: 4,
+        roundCount: 2
+      });
+    });
+  });
+
+  describe('replays', () => {
+    const bet = makeTransaction({
+      transaction_type: 'debit',
+      session_id: 'session-1',
+      round_id: 'round-uuid-1',
+      amount: 1000,
+      game_amount: 1000,
+      external_transaction_id: 'bet_1',
+      response_cache: { success: true, transactionId: 'bet_1', balance: 9000, currency: 'USD' }
+    });
+
+    it('should return the stored response to the provider that made the bet', async () => {
+      givenReplayOf(bet, 'provider-1');
+
+      const result = await new CasinoService().processDebit('original-token', 'bet_1', 'round-1', 1000, 'provider-1');
+
+      expect(result.isDuplicate).toBe(true);
+      expect(result.balance).toBe(9000);
+    });
+
+    it('should refuse another provider replaying the transactionId without revealing it', async () => {
+      givenReplayOf(bet, 'provider-1');
+
+      const error = await callError(
+        new CasinoService().processDebit('original-token', 'bet_1', 'round-1', 1000, 'provider-2')
+      );
+
+      expect(error.code).toBe(ErrorCodes.DUPLICATE_TRANSACTION);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toBeUndefined();
+    });
+
+    it('should not echo session tokens in a conflict', async () => {
+      givenReplayOf(bet, 'provider-1');
+
+      const error = await callError(
+        new CasinoService().processDebit('other-token', 'bet_1', 'round-1', 2000, 'provider-1')
+      );
+
+      expect(error.code).toBe(ErrorCodes.IDEMPOTENCY_CONFLICT);
+      expect(error.details.mismatched).toEqual(['sessionToken', 'amount']);
+      expect(error.details.original).toEqual({ transactionType: 'debit', roundId: 'round-1', amount: 1000 });
+      expect(JSON.stringify(error.details)).not.toMatch(/original-token|other-token/);
+    });
+  });
+
+  describe('operator audit', () => {
+    let db: FakeDatabase;
+
+    beforeEach(() => {
+      db = new FakeDatabase();
+      db.install();
+      seedWallet(db);
+    });
+
+    it('should record who locked and unlocked a player', async () => {
+      const service = new CasinoService();
+
+      await service.setUserLock('user-1', true, 'op-1', 'Chargeback');
+      const user = await service.setUserLock('user-1', false, 'op-2', null);
+
+      expect(user.is_locked).toBe(false);
+      expect(user.locked_by).toBeNull();
+      expect(db.rows('casino_user_events')).toEqual([
+        expect.objectContaining({ user_id: 'user-1', event_type: 'locked', reason: 'Chargeback', operator_id: 'op-1' }),
+        expect.objectContaining({ user_id: 'user-1', event_type: 'unlocked', reason: null, operator_id: 'op-2' })
+      ]);
+    });
+
+    it('should record nothing when locking an unknown player', async () => {
+      const error = await callError(new CasinoService().setUserLock('user-2', true, 'op-1', 'Chargeback'));
+
+      expect(error.code).toBe(ErrorCodes.USER_NOT_FOUND);
+      expect(db.rows('casino_user_events')).toEqual([]);
+    });
+
+    it('should record a provider update by field name without the secret', async () => {
+      db.rows('casino_game_providers').push({
+        id: 'provider-1',
+        code: 'acme',
+        name: 'Acme',
+        api_endpoint: 'https://acme.example',
+        secret_key: 'old-secret',
+        signature_mode: 'raw',
+        supported_currencies: null
+      });
+
+      await new CasinoService().updateProvider('acme', { apiEndpoint: 'https://api.acme.example', secretKey: 'new-secret' }, 'op-1');
+
+      const events = db.rows('casino_provider_events');
+      expect(events).toEqual([
+        expect.objectContaining({
+          provider_id: 'provider-1',
+          event_type: 'updated',
+          source: 'operator',
+          detail: 'Changed apiEndpoint, secretKey',
+          operator_id: 'op-1'
+        })
+      ]);
+      expect(JSON.stringify(events)).not.toContain('new-secret');
+    });
+  });
+
+  describe('processCredit', () => {
+    it('should apply a credit resent from the outbox after the session ended', async () => {
+      givenEndedSession(['round-1']);
+      (transaction as jest.Mock).mockResolvedValue({ balance: 12500, currency: 'USD', isDuplicate: false });
+
+      const result = await new CasinoService().processCredit('token-1', 'win_1', 'round-1', 2500, 'bet_1', true, 'provider-1');
+
+      expect(result.balance).toBe(12500);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('last_activity_at'))).toBe(false);
+    });
+
+    it('should reject a credit on an ended session for a round never played on it', async () => {
+      givenEndedSession(['round-1']);
+
+      const error = await callError(
+        new CasinoService().processCredit('token-1', 'win_1', 'round-2', 2500, 'bet_1', true, 'provider-1')
+      );
+
+      expect(error.code).toBe(ErrorCodes.INVALID_SESSION);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processRollback', () => {
+    it('should refuse to roll back an operator adjustment', async () => {
+      givenOriginal(makeTransaction());
+
+      const error = await callError(new CasinoService().processRollback('token-1', 'rb_1', 'adj_1', 'test', 'provider-1'));
+
+      expect(error.code).toBe(ErrorCodes.ROLLBACK_NOT_ALLOWED);
+      expect(error.statusCode).toBe(400);
+      expect(mockedQuery).toHaveBeenCalledTimes(2);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to roll back a payout', async () => {
+      givenOriginal(makeTransaction({ transaction_type: 'credit', session_id: null }));
+
+      const error = await callError(new CasinoService().processRollback('token-1', 'rb_1', 'adj_1', 'test', 'provider-1'));
+
+      expect(error.code).toBe(ErrorCodes.CANNOT_ROLLBACK_PAYOUT);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+});
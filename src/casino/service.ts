@@ -5,14 +5,69 @@ import {
   CasinoGame,
   CasinoGameSession,
   CasinoTransaction,
+  CasinoRound,
   CasinoGameProvider,
   CasinoError,
   ErrorCodes,
-  TransactionType
+  TransactionType,
+  TRANSACTION_TYPES,
+  LedgerIntegrityReport,
+  CasinoCurrency,
+  CasinoFxRate,
+  FxQuote,
+  CasinoPlayerLimit,
+  LimitType,
+  LimitPeriod,
+  AdjustmentDirection,
+  FundsPool,
+  FundsSplit,
+  TransactionHistoryRow,
+  TransactionHistoryFilters,
+  SessionSummary,
+  GameSyncStatus,
+  ProviderCatalogGame,
+  CatalogSyncReport,
+  CreateGameRequest,
+  UpdateGameRequest,
+  CasinoProviderEvent,
+  RegisterProviderRequest,
+  UpdateProviderRequest,
+  ProviderLaunchResult
 } from './types';
-import { generateSessionToken } from '../shared/security';
+import { generateSessionToken, generateTransactionId } from '../shared/security';
+import { splitDebit, splitCredit, getPoolBalances } from './funds';
+import { getSessionTtlConfig, isSessionExpired, getLaunchMode, getNextLaunchAttempt, LaunchMode } from './sessions';
+import { getCreditValidationMode, findRelatedBetIssue } from './creditValidation';
+import { ReplayParams, diffReplayParams, describeReplayParams } from './idempotency';
+import { debitEntries, creditEntries, fundingEntries, reverseEntries, walletDelta, postEntries } from './ledger';
+import { getFxMode, toWalletAmount, toGameAmount, fxRateSnapshot } from './currencies';
+import { decodeCursor, encodeCursor, cursorTimestampSql } from './pagination';
+import { isValidBetRange, planCatalogSync } from './catalog';
+import { getHealthCheckConfig, planHealthTransition, HealthCheckResult } from './providerHealth';
+import { ProviderClient, ProviderClientOptions } from './providerClient';
+import {
+  LimitBreach,
+  LimitUsage,
+  isValidLimit,
+  getEffectiveAmount,
+  planLimitChange,
+  isSelfExcluded,
+  getPeriodSeconds,
+  findLimitBreach
+} from './responsibleGaming';
+import { KeyringService, getVerificationSecrets, getSigningSecret } from '../shared/keyring';
+import { SigningPartner } from '../shared/middleware';
 import { v4 as uuidv4 } from 'uuid';
 
+export const casinoKeyring = new KeyringService({
+  keysTable: 'casino_provider_keys',
+  auditTable: 'casino_key_audit_log',
+  getFallbackSecret: async (providerId) => {
+    const result = await query('SELECT secret_key FROM casino_game_providers WHERE id = $1', [providerId]);
+    return result.rows[0]?.secret_key || null;
+  }
+});
+
 export class CasinoService {
   
   /**
@@ -58,15 +113,157 @@ export class CasinoService {
     return result.rows[0] || null;
   }
   
+  /**
+   * Get game provider by code
+   */
+  async getProviderByCode(code: string): Promise<CasinoGameProvider | null> {
+    const result = await query('SELECT * FROM casino_game_providers WHERE code = $1', [code]);
+    return result.rows[0] || null;
+  }
+  
+  /**
+   * Resolve a provider by code with the secrets currently valid for its callbacks
+   * The registry secret_key verifies until an inbound key is promoted
+   */
+  async getSigningProvider(code: string): Promise<SigningPartner | null> {
+    const provider = await this.getProviderByCode(code);
+    if (!provider) {
+      return null;
+    }
+    
+    const keys = await casinoKeyring.getKeys(provider.id, 'inbound');
+    const secrets = getVerificationSecrets(keys, provider.secret_key);
+    
+    return { id: provider.id, secrets, signatureMode: provider.signature_mode };
+  }
+  
+  /**
+   * Get the secret used to sign calls to a provider (primary outbound key)
+   * The provider's registry secret_key signs until an outbound key is promoted
+   */
+  async getProviderSigningSecret(provider: CasinoGameProvider): Promise<string> {
+    const keys = await casinoKeyring.getKeys(provider.id, 'outbound');
+    const secret = getSigningSecret(keys, provider.secret_key);
+    if (!secret) {
+      throw new CasinoError('No active signing key for provider', ErrorCodes.SIGNING_KEY_UNAVAILABLE, 500);
+    }
+    
+    return secret;
+  }
+  
+  /**
+   * Client for calling a provider's API, signing with its outbound key
+   */
+  getProviderClient(provider: CasinoGameProvider, options: ProviderClientOptions = {}): ProviderClient {
+    return new ProviderClient(provider, () => this.getProviderSigningSecret(provider), options);
+  }
+  
   /**
    * Get session by token
+   * Expired sessions are closed and treated as missing. Reading a session does not
+   * count as activity; money-moving calls refresh it with touchSession.
    */
   async getSessionByToken(token: string): Promise<CasinoGameSession | null> {
     const result = await query(
       'SELECT * FROM casino_game_sessions WHERE token = $1 AND is_active = true',
       [token]
     );
-    return result.rows[0] || null;
+    const session: CasinoGameSession | undefined = result.rows[0];
+    if (!session) {
+      return null;
+    }
+    
+    if (isSessionExpired(session)) {
+      await this.closeSession(session.id);
+      return null;
+    }
+    
+    return session;
+  }
+  
+  /**
+   * Record activity on a session, pushing back its idle timeout
+   * Only bets and payouts count, so a game polling the balance cannot keep a session alive
+   */
+  async touchSession(session: CasinoGameSession): Promise<void> {
+    await query(
+      'UPDATE casino_game_sessions SET last_activity_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [session.id]
+    );
+  }
+  
+  /**
+   * Get an active session by token, optionally requiring that it belongs
+   * to the given provider (resolved through the session's game)
+   */
+  async getProviderSession(sessionToken: string, providerId?: string): Promise<CasinoGameSession> {
+    const session = await this.getSessionByToken(sessionToken);
+    if (!session) {
+      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
+    }
+    
+    await this.assertSessionProvider(session, providerId);
+    
+    return session;
+  }
+  
+  /**
+   * Get a session by token whatever its state, for settling play that already happened
+   * Payouts and rollbacks for bets placed on a session still land after it has expired or
+   * ended, so a late or resent call (e.g. from the provider's outbox) is not lost
+   */
+  async getSettlementSession(sessionToken: string, providerId?: string): Promise<CasinoGameSession> {
+    const result = await query('SELECT * FROM casino_game_sessions WHERE token = $1', [sessionToken]);
+    const session: CasinoGameSession | undefined = result.rows[0];
+    if (!session) {
+      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
+    }
+    
+    await this.assertSessionProvider(session, providerId);
+    
+    return session;
+  }
+  
+  /**
+   * Get the session a payout is for: an active session, or one that has expired or ended
+   * while the payout's round was in play on it
+   */
+  async getPayoutSession(sessionToken: string, roundId: string, providerId?: string): Promise<CasinoGameSession> {
+    const activeSession = await this.getSessionByToken(sessionToken);
+    if (activeSession) {
+      await this.assertSessionProvider(activeSession, providerId);
+      await this.touchSession(activeSession);
+      return activeSession;
+    }
+    
+    const session = await this.getSettlementSession(sessionToken, providerId);
+    const roundResult = await query(
+      'SELECT id FROM casino_rounds WHERE session_id = $1 AND external_round_id = $2',
+      [session.id, roundId]
+    );
+    if (!roundResult.rows[0]) {
+      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
+    }
+    
+    return session;
+  }
+  
+  /**
+   * Reject sessions whose game is served by a different provider
+   */
+  async assertSessionProvider(session: CasinoGameSession, providerId?: string): Promise<void> {
+    if (!providerId) {
+      return;
+    }
+    
+    const game = await this.getGameById(session.game_id);
+    if (!game || game.provider_id !== providerId) {
+      throw new CasinoError(
+        'Session does not belong to this provider',
+        ErrorCodes.INVALID_SESSION,
+        403
+      );
+    }
   }
   
   /**
@@ -88,6 +285,106 @@ export class CasinoService {
     return result.rows[0] || null;
   }
   
+  /**
+   * Get an active currency from the registry
+   */
+  async getCurrency(code: string): Promise<CasinoCurrency | null> {
+    const result = await query(
+      'SELECT * FROM casino_currencies WHERE code = $1 AND is_active = true',
+      [code]
+    );
+    return result.rows[0] || null;
+  }
+  
+  /**
+   * Get a currency, rejecting codes that are unknown or disabled
+   */
+  async requireCurrency(code: string): Promise<CasinoCurrency> {
+    const currency = await this.getCurrency(code);
+    if (!currency) {
+      throw new CasinoError(`Unsupported currency: ${code}`, ErrorCodes.UNSUPPORTED_CURRENCY, 400);
+    }
+    return currency;
+  }
+  
+  /**
+   * List active currencies
+   */
+  async listCurrencies(): Promise<CasinoCurrency[]> {
+    const result = await query('SELECT * FROM casino_currencies WHERE is_active = true ORDER BY code');
+    return result.rows;
+  }
+  
+  /**
+   * Current rate for 1 unit of base in quote, using the inverse pair when only that is stored
+   */
+  async getFxRate(base: string, quote: string): Promise<number | null> {
+    if (base === quote) {
+      return 1;
+    }
+    
+    const result = await query(
+      `SELECT base_currency, rate FROM casino_fx_rates
+       WHERE (base_currency = $1 AND quote_currency = $2)
+          OR (base_currency = $2 AND quote_currency = $1)
+       ORDER BY (base_currency = $1) DESC
+       LIMIT 1`,
+      [base, quote]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    
+    return row.base_currency === base ? Number(row.rate) : 1 / Number(row.rate);
+  }
+  
+  /**
+   * Store the rate for 1 unit of base in quote
+   */
+  async setFxRate(base: string, quote: string, rate: number): Promise<CasinoFxRate> {
+    await this.requireCurrency(base);
+    await this.requireCurrency(quote);
+    
+    if (base === quote || !Number.isFinite(rate) || rate <= 0) {
+      throw new CasinoError('Rate must be positive and between two different currencies', ErrorCodes.INVALID_FX_RATE, 400);
+    }
+    
+    const result = await query(
+      `INSERT INTO casino_fx_rates (base_currency, quote_currency, rate)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (base_currency, quote_currency)
+       DO UPDATE SET rate = EXCLUDED.rate, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [base, quote, rate]
+    );
+    return result.rows[0];
+  }
+  
+  /**
+   * Conversion between a session's game currency and its wallet currency,
+   * priced at the current rate
+   */
+  async getSessionFx(session: CasinoGameSession, walletCurrencyCode: string): Promise<FxQuote> {
+    const walletCurrency = await this.requireCurrency(walletCurrencyCode);
+    const gameCurrencyCode = session.currency_code || walletCurrencyCode;
+    if (gameCurrencyCode === walletCurrencyCode) {
+      return { gameCurrency: walletCurrency, walletCurrency, rate: 1 };
+    }
+    
+    const gameCurrency = await this.requireCurrency(gameCurrencyCode);
+    const rate = await this.getFxRate(gameCurrencyCode, walletCurrencyCode);
+    if (rate === null) {
+      throw new CasinoError(
+        `No exchange rate from ${gameCurrencyCode} to ${walletCurrencyCode}`,
+        ErrorCodes.FX_RATE_UNAVAILABLE,
+        503
+      );
+    }
+    
+    return { gameCurrency, walletCurrency, rate };
+  }
+  
   /**
    * Launch a game session
    */
@@ -96,6 +393,7 @@ export class CasinoService {
     wallet: CasinoWallet;
     game: CasinoGame;
     provider: CasinoGameProvider;
+    fx: FxQuote;
   }> {
     // Validate user exists
     const user = await this.getUserById(userId);
@@ -103,6 +401,14 @@ export class CasinoService {
       throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
     }
     
+    if (user.is_locked) {
+      throw new CasinoError('User account is locked', ErrorCodes.USER_LOCKED, 403);
+    }
+    
+    if (isSelfExcluded(user)) {
+      throw responsibleGamingError({ limitType: 'self_exclusion', period: null, limit: null });
+    }
+    
     // Validate game exists
     const game = await this.getGameById(gameId);
     if (!game || !game.is_active) {
@@ -111,35 +417,57 @@ export class CasinoService {
     
     // Get provider
     const provider = await this.getProviderById(game.provider_id);
-    if (!provider || provider.is_disabled) {
-      throw new CasinoError('Game provider not available', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    if (!provider) {
+      throw new CasinoError('Game provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
     }
     
-    // Get or create wallet
-    let wallet = await this.getWallet(userId, currency);
-    if (!wallet) {
-      // Create wallet with zero balance
-      const walletId = uuidv4();
-      await query(
-        `INSERT INTO casino_wallets (id, user_id, currency_code, playable_balance, redeemable_balance)
-         VALUES ($1, $2, $3, 0, 0)`,
-        [walletId, userId, currency]
+    // Disabled by an operator or after failing health checks
+    if (provider.is_disabled) {
+      throw new CasinoError('Game provider is currently unavailable', ErrorCodes.PROVIDER_UNAVAILABLE, 503);
+    }
+    
+    // Wallets can only be held in registered currencies
+    await this.requireCurrency(currency);
+    
+    // Games with a fixed currency run in it; the rest run in the wallet currency
+    const gameCurrency = game.currency_code || currency;
+    if (provider.supported_currencies && !provider.supported_currencies.includes(gameCurrency)) {
+      throw new CasinoError(
+        `Provider does not support ${gameCurrency}`,
+        ErrorCodes.CURRENCY_NOT_SUPPORTED,
+        400
       );
-      wallet = await this.getWalletById(walletId);
     }
     
-    if (!wallet) {
-      throw new CasinoError('Failed to get wallet', 'WALLET_ERROR', 500);
+    if (gameCurrency !== currency) {
+      if (getFxMode() !== 'enabled') {
+        throw new CasinoError(
+          `Game runs in ${gameCurrency} and cannot be played from a ${currency} wallet`,
+          ErrorCodes.CURRENCY_MISMATCH,
+          400
+        );
+      }
+      
+      if (await this.getFxRate(gameCurrency, currency) === null) {
+        throw new CasinoError(
+          `No exchange rate from ${gameCurrency} to ${currency}`,
+          ErrorCodes.FX_RATE_UNAVAILABLE,
+          400
+        );
+      }
     }
     
+    // Get or create wallet
+    const wallet = await this.getOrCreateWallet(userId, currency);
+    
     // Create game session
     const sessionId = uuidv4();
     const sessionToken = generateSessionToken();
     
     await query(
-      `INSERT INTO casino_game_sessions (id, token, user_id, wallet_id, game_id)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [sessionId, sessionToken, userId, wallet.id, gameId]
+      `INSERT INTO casino_game_sessions (id, token, user_id, wallet_id, game_id, currency_code)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [sessionId, sessionToken, userId, wallet.id, gameId, gameCurrency]
     );
     
     const session = await this.getSessionById(sessionId);
@@ -147,30 +475,56 @@ export class CasinoService {
       throw new CasinoError('Failed to create session', 'SESSION_ERROR', 500);
     }
     
-    return { session, wallet, game, provider };
+    const fx = await this.getSessionFx(session, wallet.currency_code);
+    
+    return { session, wallet, game, provider, fx };
+  }
+  
+  /**
+   * Get a user's wallet in a currency, opening it with a zero balance if needed
+   */
+  async getOrCreateWallet(userId: string, currency: string): Promise<CasinoWallet> {
+    await query(
+      `INSERT INTO casino_wallets (id, user_id, currency_code, playable_balance, redeemable_balance)
+       VALUES ($1, $2, $3, 0, 0)
+       ON CONFLICT (user_id, currency_code) DO NOTHING`,
+      [uuidv4(), userId, currency]
+    );
+    
+    const wallet = await this.getWallet(userId, currency);
+    if (!wallet) {
+      throw new CasinoError('Failed to get wallet', 'WALLET_ERROR', 500);
+    }
+    
+    return wallet;
   }
   
   /**
    * Get balance for a session
    */
-  async getBalance(sessionToken: string): Promise<{
+  async getBalance(sessionToken: string, providerId?: string): Promise<{
     balance: number;
+    cashBalance: number;
+    bonusBalance: number;
     currency: string;
     session: CasinoGameSession;
   }> {
-    const session = await this.getSessionByToken(sessionToken);
-    if (!session) {
-      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
-    }
+    const session = await this.getProviderSession(sessionToken, providerId);
     
     const wallet = await this.getWalletById(session.wallet_id);
     if (!wallet) {
       throw new CasinoError('Wallet not found', 'WALLET_ERROR', 500);
     }
     
+    // Balances are reported in the currency the game runs in
+    const fx = await this.getSessionFx(session, wallet.currency_code);
+    const pools = getPoolBalances(wallet);
+    
     return {
-      balance: Number(wallet.playable_balance),
-      currency: wallet.currency_code,
+      balance: toGameAmount(Number(wallet.playable_balance), fx),
+      cashBalance: toGameAmount(pools.cash, fx),
+      bonusBalance: toGameAmount(pools.bonus, fx),
+      currency: fx.gameCurrency.code,
       session
     };
   }
@@ -183,36 +537,56 @@ export class CasinoService {
     sessionToken: string,
     transactionId: string,
     roundId: string,
-    amount: number
+    amount: number,
+    providerId?: string
   ): Promise<{
     transaction: CasinoTransaction;
     balance: number;
     currency: string;
     isDuplicate: boolean;
+    cachedResponse?: any;
   }> {
     // Check for duplicate transaction (idempotency)
     const existing = await this.getTransactionByExternalId(transactionId);
     if (existing) {
-      const wallet = await this.getWalletById(existing.wallet_id);
+      const cachedResponse = await this.replayTransaction(existing, {
+        transactionType: 'debit',
+        sessionToken,
+        roundId,
+        amount
+      }, providerId);
       return {
         transaction: existing,
-        balance: Number(wallet?.playable_balance || existing.balance_after),
-        currency: wallet?.currency_code || 'USD',
-        isDuplicate: true
+        balance: Number(cachedResponse.balance),
+        currency: cachedResponse.currency,
+        isDuplicate: true,
+        cachedResponse
       };
     }
     
     // Validate session
-    const session = await this.getSessionByToken(sessionToken);
-    if (!session) {
-      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
-    }
+    const session = await this.getProviderSession(sessionToken, providerId);
+    await this.touchSession(session);
     
     // Validate amount
     if (amount <= 0) {
       throw new CasinoError('Amount must be positive', ErrorCodes.INVALID_AMOUNT, 400);
     }
     
+    // Validate bet against the limits of the session's game
+    const game = await this.getGameById(session.game_id);
+    if (!game) {
+      throw new CasinoError('Game not found', ErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    
+    if (amount < Number(game.min_bet) || amount > Number(game.max_bet)) {
+      throw new CasinoError(
+        `Bet amount must be between ${game.min_bet} and ${game.max_bet}`,
+        ErrorCodes.BET_LIMIT_EXCEEDED,
+        400
+      );
+    }
+    
     // Process atomically with transaction
     return await transaction(async (client) => {
       // Lock wallet row for update
@@ -226,8 +600,25 @@ export class CasinoService {
         throw new CasinoError('Wallet not found', 'WALLET_ERROR', 500);
       }
       
+      // Attach the bet to its round, opening the round on the first bet
+      const round = await this.openRound(client, session, game.provider_id, roundId);
+      if (round.status !== 'open') {
+        throw new CasinoError('Round is already closed', ErrorCodes.ROUND_CLOSED, 409);
+      }
+      
+      // The bet is placed in the game currency; convert it at the current rate
+      const fx = await this.getSessionFx(session, wallet.currency_code);
+      const walletAmount = toWalletAmount(amount, fx);
+      if (walletAmount <= 0) {
+        throw new CasinoError(
+          `Bet of ${amount} ${fx.gameCurrency.code} is worth nothing in ${fx.walletCurrency.code}`,
+          ErrorCodes.INVALID_AMOUNT,
+          400
+        );
+      }
+      
       // Check sufficient funds
-      if (Number(wallet.playable_balance) < amount) {
+      if (Number(wallet.playable_balance) < walletAmount) {
         throw new CasinoError(
           'Insufficient funds',
           ErrorCodes.INSUFFICIENT_FUNDS,
@@ -235,31 +626,36 @@ export class CasinoService {
         );
       }
       
-      // Calculate new balance
-      const newBalance = Number(wallet.playable_balance) - amount;
+      // Enforce account locks, self-exclusion and the player's wager, loss and session-time limits
+      await this.assertPlayerCanBet(client, session, wallet, walletAmount);
       
-      // Update wallet balance
-      await client.query(
-        `UPDATE casino_wallets 
-         SET playable_balance = $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE id = $2`,
-        [newBalance, wallet.id]
-      );
+      // Split the bet between cash and bonus funds, then calculate the new balance
+      const split = splitDebit(wallet, walletAmount);
+      const entries = debitEntries(split);
+      const newBalance = Number(wallet.playable_balance) + walletDelta(entries).playable;
       
       // Create transaction record
       const txnId = uuidv4();
       const responseCache = {
         success: true,
         transactionId,
-        balance: newBalance,
-        currency: wallet.currency_code
+        balance: toGameAmount(newBalance, fx),
+        currency: fx.gameCurrency.code
       };
       
       await client.query(
         `INSERT INTO casino_transactions 
-         (id, wallet_id, session_id, transaction_type, amount, external_transaction_id, balance_after, response_cache)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [txnId, wallet.id, session.id, 'debit', amount, transactionId, newBalance, JSON.stringify(responseCache)]
+         (id, wallet_id, session_id, round_id, transaction_type, amount, external_transaction_id, balance_after, cash_amount, bonus_amount, game_currency, game_amount, fx_rate, response_cache)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [txnId, wallet.id, session.id, round.id, 'debit', walletAmount, transactionId, newBalance, split.cash, split.bonus, fx.gameCurrency.code, amount, fxRateSnapshot(fx), JSON.stringify(responseCache)]
+      );
+      
+      // Post the bet to the ledger, which moves the wallet balance
+      await postEntries(client, wallet, entries, { transactionId: txnId, description: 'bet' });
+      
+      await client.query(
+        'UPDATE casino_rounds SET total_wagered = total_wagered + $1 WHERE id = $2',
+        [walletAmount, round.id]
       );
       
       const txnResult = await client.query(
@@ -269,8 +665,8 @@ export class CasinoService {
       
       return {
         transaction: txnResult.rows[0],
-        balance: newBalance,
-        currency: wallet.currency_code,
+        balance: responseCache.balance,
+        currency: responseCache.currency,
         isDuplicate: false
       };
     });
@@ -285,36 +681,48 @@ export class CasinoService {
     transactionId: string,
     roundId: string,
     amount: number,
-    relatedTransactionId?: string
+    relatedTransactionId?: string,
+    isRoundFinished: boolean = false,
+    providerId?: string
   ): Promise<{
     transaction: CasinoTransaction;
     balance: number;
     currency: string;
     isDuplicate: boolean;
+    cachedResponse?: any;
   }> {
     // Check for duplicate transaction (idempotency)
     const existing = await this.getTransactionByExternalId(transactionId);
     if (existing) {
-      const wallet = await this.getWalletById(existing.wallet_id);
+      const cachedResponse = await this.replayTransaction(existing, {
+        transactionType: 'credit',
+        sessionToken,
+        roundId,
+        amount,
+        relatedTransactionId: relatedTransactionId || null
+      }, providerId);
       return {
         transaction: existing,
-        balance: Number(wallet?.playable_balance || existing.balance_after),
-        currency: wallet?.currency_code || 'USD',
-        isDuplicate: true
+        balance: Number(cachedResponse.balance),
+        currency: cachedResponse.currency,
+        isDuplicate: true,
+        cachedResponse
       };
     }
     
-    // Validate session
-    const session = await this.getSessionByToken(sessionToken);
-    if (!session) {
-      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
-    }
+    // Validate session; a payout for a round begun on it lands even once it has expired
+    const session = await this.getPayoutSession(sessionToken, roundId, providerId);
     
     // Validate amount
     if (amount < 0) {
       throw new CasinoError('Amount cannot be negative', ErrorCodes.INVALID_AMOUNT, 400);
     }
     
+    const game = await this.getGameById(session.game_id);
+    if (!game) {
+      throw new CasinoError('Game not found', ErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    
     // Process atomically with transaction
     return await transaction(async (client) => {
       // Lock wallet row for update
@@ -328,33 +736,83 @@ export class CasinoService {
         throw new CasinoError('Wallet not found', 'WALLET_ERROR', 500);
       }
       
-      // Calculate new balance
-      const newBalance = Number(wallet.playable_balance) + amount;
+      // Attach the payout to its round
+      const round = await this.openRound(client, session, game.provider_id, roundId);
+      if (round.status !== 'open') {
+        throw new CasinoError('Round is already closed', ErrorCodes.ROUND_CLOSED, 409);
+      }
+      
+      // Validate the bet this payout refers to: rejected in strict mode,
+      // accepted and flagged for review in lenient mode
+      let relatedDebit: CasinoTransaction | undefined;
+      let reviewReason: string | null = null;
+      if (relatedTransactionId) {
+        const relatedResult = await client.query(
+          'SELECT * FROM casino_transactions WHERE external_transaction_id = $1',
+          [relatedTransactionId]
+        );
+        const issue = findRelatedBetIssue(relatedResult.rows[0], wallet.id, round.id);
+        
+        if (issue && getCreditValidationMode() === 'strict') {
+          throw new CasinoError(issue.message, issue.code, 409);
+        }
+        
+        if (issue) {
+          reviewReason = issue.code;
+        } else {
+          relatedDebit = relatedResult.rows[0];
+        }
+      }
       
-      // Update wallet balance
-      await client.query(
-        `UPDATE casino_wallets 
-         SET playable_balance = $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE id = $2`,
-        [newBalance, wallet.id]
+      // Winnings are paid in the game currency; convert them at the current rate
+      const fx = await this.getSessionFx(session, wallet.currency_code);
+      const walletAmount = toWalletAmount(amount, fx);
+      
+      // Winnings land in the pools the related bet was funded from
+      const split = splitCredit(
+        walletAmount,
+        relatedDebit
+          ? { cash: Number(relatedDebit.cash_amount), bonus: Number(relatedDebit.bonus_amount) }
+          : null
       );
       
+      // Calculate the new balance
+      const entries = creditEntries(split);
+      const newBalance = Number(wallet.playable_balance) + walletDelta(entries).playable;
+      
       // Create transaction record
       const txnId = uuidv4();
       const responseCache = {
         success: true,
         transactionId,
-        balance: newBalance,
-        currency: wallet.currency_code
+        balance: toGameAmount(newBalance, fx),
+        currency: fx.gameCurrency.code
       };
       
       await client.query(
         `INSERT INTO casino_transactions 
-         (id, wallet_id, session_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, response_cache)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [txnId, wallet.id, session.id, 'credit', amount, transactionId, relatedTransactionId || null, newBalance, JSON.stringify(responseCache)]
+         (id, wallet_id, session_id, round_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, cash_amount, bonus_amount, game_currency, game_amount, fx_rate, needs_review, review_reason, response_cache)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+        [txnId, wallet.id, session.id, round.id, 'credit', walletAmount, transactionId, relatedTransactionId || null, newBalance, split.cash, split.bonus, fx.gameCurrency.code, amount, fxRateSnapshot(fx), reviewReason !== null, reviewReason, JSON.stringify(responseCache)]
+      );
+      
+      // Post the payout to the ledger, which moves the wallet balance
+      await postEntries(client, wallet, entries, { transactionId: txnId, description: 'payout' });
+      
+      // Record the win and finalize the round when the provider says it is over
+      await client.query(
+        `UPDATE casino_rounds 
+         SET total_won = total_won + $1,
+             status = CASE WHEN $2 THEN 'closed' ELSE status END,
+             closed_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP ELSE closed_at END
+         WHERE id = $3`,
+        [walletAmount, isRoundFinished, round.id]
       );
       
+      if (reviewReason) {
+        console.warn(`Credit ${transactionId} flagged for review: ${reviewReason}`);
+      }
+      
       const txnResult = await client.query(
         'SELECT * FROM casino_transactions WHERE id = $1',
         [txnId]
@@ -362,8 +820,8 @@ export class CasinoService {
       
       return {
         transaction: txnResult.rows[0],
-        balance: newBalance,
-        currency: wallet.currency_code,
+        balance: responseCache.balance,
+        currency: responseCache.currency,
         isDuplicate: false
       };
     });
@@ -378,24 +836,32 @@ export class CasinoService {
     sessionToken: string,
     transactionId: string,
     originalTransactionId: string,
-    reason?: string
+    reason?: string,
+    providerId?: string
   ): Promise<{
     transaction: CasinoTransaction | null;
     balance: number;
     currency: string;
     rolledBack: boolean;
     message: string;
+    isDuplicate: boolean;
+    cachedResponse?: any;
   }> {
     // Check if rollback was already processed (idempotency with tombstone)
     const existingRollback = await this.getTransactionByExternalId(transactionId);
     if (existingRollback) {
-      const wallet = await this.getWalletById(existingRollback.wallet_id);
+      const cachedResponse = await this.replayTransaction(existingRollback, {
+        transactionType: 'rollback',
+        relatedTransactionId: originalTransactionId
+      }, providerId);
       return {
         transaction: existingRollback,
-        balance: Number(wallet?.playable_balance || existingRollback.balance_after),
-        currency: wallet?.currency_code || 'USD',
-        rolledBack: true,
-        message: 'Rollback already processed (idempotent response)'
+        balance: Number(cachedResponse.balance),
+        currency: cachedResponse.currency,
+        rolledBack: cachedResponse.rolledBack,
+        message: cachedResponse.message,
+        isDuplicate: true,
+        cachedResponse
       };
     }
     
@@ -404,11 +870,8 @@ export class CasinoService {
     
     // Tombstone rule: if original transaction not found, record rollback marker and return success
     if (!originalTxn) {
-      // Validate session to get wallet info
-      const session = await this.getSessionByToken(sessionToken);
-      if (!session) {
-        throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
-      }
+      // Validate session to get wallet info; the session may have expired since the bet
+      const session = await this.getSettlementSession(sessionToken, providerId);
       
       const wallet = await this.getWalletById(session.wallet_id);
       if (!wallet) {
@@ -417,34 +880,73 @@ export class CasinoService {
       
       // Create tombstone record (rollback marker for non-existent transaction)
       const txnId = uuidv4();
+      const message = 'Tombstone recorded - original transaction not found, no balance change';
+      const reported = await this.reportBalance(session, wallet);
+      const responseCache = {
+        success: true,
+        transactionId,
+        rolledBack: true,
+        balance: reported.balance,
+        currency: reported.currency,
+        message,
+        tombstone: true
+      };
+      
       await query(
         `INSERT INTO casino_transactions 
          (id, wallet_id, session_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, is_rollback, response_cache)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [txnId, wallet.id, session.id, 'rollback', 0, transactionId, originalTransactionId, wallet.playable_balance, true, JSON.stringify({ tombstone: true, reason: 'Original transaction not found' })]
+        [txnId, wallet.id, session.id, 'rollback', 0, transactionId, originalTransactionId, wallet.playable_balance, true, JSON.stringify(responseCache)]
       );
       
       return {
         transaction: null,
-        balance: Number(wallet.playable_balance),
-        currency: wallet.currency_code,
+        balance: reported.balance,
+        currency: reported.currency,
         rolledBack: true,
-        message: 'Tombstone recorded - original transaction not found, no balance change'
+        message,
+        isDuplicate: false
       };
     }
     
+    // The original bet must have been placed through the calling provider
+    const originalSession = originalTxn.session_id
+      ? await this.getSessionById(originalTxn.session_id)
+      : null;
+    if (originalSession) {
+      await this.assertSessionProvider(originalSession, providerId);
+    }
+    
     // Check if original was already rolled back
     if (originalTxn.is_rollback) {
-      const wallet = await this.getWalletById(originalTxn.wallet_id);
+      const reported = await this.reportBalance(originalSession, await this.getWalletById(originalTxn.wallet_id));
       return {
         transaction: null,
-        balance: Number(wallet?.playable_balance || 0),
-        currency: wallet?.currency_code || 'USD',
+        balance: reported.balance,
+        currency: reported.currency,
         rolledBack: false,
-        message: 'Cannot rollback a rollback transaction'
+        message: 'Cannot rollback a rollback transaction',
+        isDuplicate: false
       };
     }
     
+    // Only bets (debits) can be rolled back, not payouts (credits) or operator adjustments
+    if (originalTxn.transaction_type === 'credit') {
+      throw new CasinoError(
+        'Payouts/credits cannot be rolled back',
+        ErrorCodes.CANNOT_ROLLBACK_PAYOUT,
+        400
+      );
+    }
+    if (originalTxn.transaction_type !== 'debit') {
+      throw new CasinoError(
+        'Only bets can be rolled back',
+        ErrorCodes.ROLLBACK_NOT_ALLOWED,
+        400,
+        { transactionType: originalTxn.transaction_type }
+      );
+    }
+    
     // Check if original transaction was already rolled back by another rollback
     const existingRollbackForOriginal = await query(
       'SELECT * FROM casino_transactions WHERE related_external_transaction_id = $1 AND transaction_type = $2',
@@ -456,31 +958,35 @@ export class CasinoService {
       
       // Create idempotency record
       const txnId = uuidv4();
+      const message = 'Transaction was already rolled back';
+      const reported = await this.reportBalance(originalSession, wallet);
+      const responseCache = {
+        success: true,
+        transactionId,
+        rolledBack: true,
+        balance: reported.balance,
+        currency: reported.currency,
+        message,
+        alreadyRolledBack: true
+      };
+      
       await query(
         `INSERT INTO casino_transactions 
          (id, wallet_id, session_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, is_rollback, response_cache)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [txnId, originalTxn.wallet_id, originalTxn.session_id, 'rollback', 0, transactionId, originalTransactionId, wallet?.playable_balance || 0, true, JSON.stringify({ alreadyRolledBack: true })]
+        [txnId, originalTxn.wallet_id, originalTxn.session_id, 'rollback', 0, transactionId, originalTransactionId, wallet?.playable_balance || 0, true, JSON.stringify(responseCache)]
       );
       
       return {
         transaction: null,
-        balance: Number(wallet?.playable_balance || 0),
-        currency: wallet?.currency_code || 'USD',
+        balance: reported.balance,
+        currency: reported.currency,
         rolledBack: true,
-        message: 'Transaction was already rolled back'
+        message,
+        isDuplicate: false
       };
     }
     
-    // Only bets (debits) can be rolled back, not payouts (credits)
-    if (originalTxn.transaction_type === 'credit') {
-      throw new CasinoError(
-        'Payouts/credits cannot be rolled back',
-        ErrorCodes.CANNOT_ROLLBACK_PAYOUT,
-        400
-      );
-    }
-    
     // Process rollback atomically
     return await transaction(async (client) => {
       // Lock wallet row
@@ -494,16 +1000,11 @@ export class CasinoService {
         throw new CasinoError('Wallet not found', 'WALLET_ERROR', 500);
       }
       
-      // Reverse the debit (add amount back)
-      const newBalance = Number(wallet.playable_balance) + Number(originalTxn.amount);
-      
-      // Update wallet
-      await client.query(
-        `UPDATE casino_wallets 
-         SET playable_balance = $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE id = $2`,
-        [newBalance, wallet.id]
+      // Reverse the bet's ledger entries, restoring exactly the pools it drew from
+      const entries = reverseEntries(
+        debitEntries({ cash: Number(originalTxn.cash_amount), bonus: Number(originalTxn.bonus_amount) })
       );
+      const newBalance = Number(wallet.playable_balance) + walletDelta(entries).playable;
       
       // Mark original as rolled back
       await client.query(
@@ -513,58 +1014,1367 @@ export class CasinoService {
       
       // Create rollback transaction record
       const txnId = uuidv4();
+      const message = 'Transaction successfully rolled back';
+      const reported = await this.reportBalance(originalSession, wallet, newBalance);
       const responseCache = {
         success: true,
         transactionId,
-        originalTransactionId,
-        balance: newBalance,
-        currency: wallet.currency_code,
-        reason
+        rolledBack: true,
+        balance: reported.balance,
+        currency: reported.currency,
+        message
       };
       
+      // The refund reuses the bet's rate snapshot so the wallet gets back exactly what it paid
       await client.query(
         `INSERT INTO casino_transactions 
-         (id, wallet_id, session_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, is_rollback, response_cache)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [txnId, wallet.id, originalTxn.session_id, 'rollback', originalTxn.amount, transactionId, originalTransactionId, newBalance, true, JSON.stringify(responseCache)]
+         (id, wallet_id, session_id, round_id, transaction_type, amount, external_transaction_id, related_external_transaction_id, balance_after, cash_amount, bonus_amount, game_currency, game_amount, fx_rate, is_rollback, response_cache)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+        [txnId, wallet.id, originalTxn.session_id, originalTxn.round_id, 'rollback', originalTxn.amount, transactionId, originalTransactionId, newBalance, originalTxn.cash_amount, originalTxn.bonus_amount, originalTxn.game_currency, originalTxn.game_amount, originalTxn.fx_rate, true, JSON.stringify(responseCache)]
       );
       
-      const txnResult = await client.query(
-        'SELECT * FROM casino_transactions WHERE id = $1',
-        [txnId]
+      await postEntries(client, wallet, entries, { transactionId: txnId, description: 'rollback' });
+      
+      if (originalTxn.round_id) {
+        await client.query(
+          'UPDATE casino_rounds SET total_rolled_back = total_rolled_back + $1 WHERE id = $2',
+          [originalTxn.amount, originalTxn.round_id]
+        );
+      }
+      
+      const txnResult = await client.query(
+        'SELECT * FROM casino_transactions WHERE id = $1',
+        [txnId]
       );
       
       return {
         transaction: txnResult.rows[0],
-        balance: newBalance,
-        currency: wallet.currency_code,
+        balance: reported.balance,
+        currency: reported.currency,
         rolledBack: true,
-        message: 'Transaction successfully rolled back'
+        message,
+        isDuplicate: false
       };
     });
   }
   
   /**
-   * Update session with provider session ID
+   * Create a player account (admin)
    */
-  async updateSessionProviderSessionId(sessionId: string, providerSessionId: string): Promise<void> {
-    await query(
-      'UPDATE casino_game_sessions SET provider_session_id = $1 WHERE id = $2',
-      [providerSessionId, sessionId]
+  async createUser(username: string, email: string): Promise<CasinoUser> {
+    const result = await query(
+      `INSERT INTO casino_users (username, email)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [username, email]
+    );
+    if (result.rows.length === 0) {
+      throw new CasinoError('Username or email already in use', ErrorCodes.USER_EXISTS, 409);
+    }
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Lock or unlock a player account (admin)
+   * Locked players cannot launch games or place bets; payouts still land
+   */
+  async setUserLock(userId: string, locked: boolean, operatorId: string, reason: string | null): Promise<CasinoUser> {
+    return transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE casino_users
+         SET is_locked = $2,
+             locked_reason = $3,
+             locked_by = $4,
+             locked_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP ELSE NULL END
+         WHERE id = $1
+         RETURNING *`,
+        [userId, locked, locked ? reason : null, locked ? operatorId : null]
+      );
+      if (result.rows.length === 0) {
+        throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+      }
+      
+      await client.query(
+        `INSERT INTO casino_user_events (user_id, event_type, reason, operator_id)
+         VALUES ($1, $2, $3, $4)`,
+        [userId, locked ? 'locked' : 'unlocked', reason, operatorId]
+      );
+      
+      return result.rows[0];
+    });
+  }
+  
+  /**
+   * List wallets, optionally filtered by user and currency (admin)
+   */
+  async listWallets(filters: { userId?: string; currency?: string } = {}): Promise<CasinoWallet[]> {
+    const result = await query(
+      `SELECT * FROM casino_wallets
+       WHERE ($1::uuid IS NULL OR user_id = $1)
+         AND ($2::varchar IS NULL OR currency_code = $2)
+       ORDER BY user_id, currency_code`,
+      [filters.userId || null, filters.currency || null]
+    );
+    return result.rows;
+  }
+  
+  /**
+   * Open a wallet for a user in a registered currency (admin)
+   */
+  async openWallet(userId: string, currency: string): Promise<CasinoWallet> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+    }
+    
+    await this.requireCurrency(currency);
+    
+    return await this.getOrCreateWallet(userId, currency);
+  }
+  
+  /**
+   * Manually credit or debit one pool of a wallet (admin)
+   * Recorded as an 'adjustment' transaction with the operator and reason, and
+   * posted to the ledger against house funding (cash) or house bonus (bonus)
+   */
+  async adjustWallet(
+    walletId: string,
+    direction: AdjustmentDirection,
+    amount: number,
+    pool: FundsPool,
+    reason: string,
+    operatorId: string
+  ): Promise<{ transaction: CasinoTransaction; wallet: CasinoWallet }> {
+    if (direction !== 'credit' && direction !== 'debit') {
+      throw new CasinoError("direction must be 'credit' or 'debit'", ErrorCodes.INVALID_ADJUSTMENT, 400);
+    }
+    
+    if (pool !== 'cash' && pool !== 'bonus') {
+      throw new CasinoError("pool must be 'cash' or 'bonus'", ErrorCodes.INVALID_ADJUSTMENT, 400);
+    }
+    
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new CasinoError('Amount must be a positive integer', ErrorCodes.INVALID_AMOUNT, 400);
+    }
+    
+    if (!reason || !reason.trim()) {
+      throw new CasinoError('A reason is required for adjustments', ErrorCodes.INVALID_ADJUSTMENT, 400);
+    }
+    
+    return await transaction(async (client) => {
+      const walletResult = await client.query(
+        'SELECT * FROM casino_wallets WHERE id = $1 FOR UPDATE',
+        [walletId]
+      );
+      const wallet = walletResult.rows[0] as CasinoWallet;
+      
+      if (!wallet) {
+        throw new CasinoError('Wallet not found', ErrorCodes.WALLET_NOT_FOUND, 404);
+      }
+      
+      if (direction === 'debit' && getPoolBalances(wallet)[pool] < amount) {
+        throw new CasinoError(
+          `Insufficient ${pool} funds`,
+          ErrorCodes.INSUFFICIENT_FUNDS,
+          400
+        );
+      }
+      
+      const signedAmount = direction === 'credit' ? amount : -amount;
+      const split: FundsSplit = { cash: 0, bonus: 0 };
+      split[pool] = signedAmount;
+      const entries = fundingEntries(split);
+      const newBalance = Number(wallet.playable_balance) + walletDelta(entries).playable;
+      
+      // The signed amount keeps adjustments summable alongside the other transaction types
+      const txnId = uuidv4();
+      await client.query(
+        `INSERT INTO casino_transactions 
+         (id, wallet_id, transaction_type, amount, external_transaction_id, balance_after, cash_amount, bonus_amount, reason, operator_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [txnId, wallet.id, 'adjustment', signedAmount, generateTransactionId('adj'), newBalance, split.cash, split.bonus, reason.trim(), operatorId]
+      );
+      
+      const updatedWallet = await postEntries(client, wallet, entries, { transactionId: txnId, description: 'adjustment' });
+      
+      const txnResult = await client.query(
+        'SELECT * FROM casino_transactions WHERE id = $1',
+        [txnId]
+      );
+      
+      return { transaction: txnResult.rows[0], wallet: updatedWallet };
+    });
+  }
+  
+  /**
+   * List registered providers (admin)
+   */
+  async listProviders(): Promise<CasinoGameProvider[]> {
+    const result = await query('SELECT * FROM casino_game_providers ORDER BY code');
+    return result.rows;
+  }
+  
+  /**
+   * Register a game provider with its API endpoint and shared secret (admin)
+   */
+  async registerProvider(input: RegisterProviderRequest, operatorId: string): Promise<CasinoGameProvider> {
+    const signatureMode = input.signatureMode || 'raw';
+    await this.validateProviderConfig(input.apiEndpoint, signatureMode, input.supportedCurrencies);
+    
+    return transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO casino_game_providers (code, name, api_endpoint, secret_key, signature_mode, supported_currencies)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (code) DO NOTHING
+         RETURNING *`,
+        [input.code, input.name, input.apiEndpoint, input.secretKey, signatureMode, input.supportedCurrencies || null]
+      );
+      if (result.rows.length === 0) {
+        throw new CasinoError('Provider code already registered', ErrorCodes.PROVIDER_EXISTS, 409);
+      }
+      const provider: CasinoGameProvider = result.rows[0];
+      
+      await client.query(
+        `INSERT INTO casino_provider_events (provider_id, event_type, source, detail, operator_id)
+         VALUES ($1, 'registered', 'operator', $2, $3)`,
+        [provider.id, provider.api_endpoint, operatorId]
+      );
+      
+      return provider;
+    });
+  }
+  
+  /**
+   * Change a provider's name, endpoint, secret, signature mode or currencies (admin)
+   */
+  async updateProvider(code: string, changes: UpdateProviderRequest, operatorId: string): Promise<CasinoGameProvider> {
+    const provider = await this.getProviderByCode(code);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const updated = {
+      name: changes.name ?? provider.name,
+      apiEndpoint: changes.apiEndpoint ?? provider.api_endpoint,
+      secretKey: changes.secretKey ?? provider.secret_key,
+      signatureMode: changes.signatureMode ?? provider.signature_mode,
+      supportedCurrencies: changes.supportedCurrencies !== undefined
+        ? changes.supportedCurrencies
+        : provider.supported_currencies
+    };
+    await this.validateProviderConfig(updated.apiEndpoint, updated.signatureMode, updated.supportedCurrencies);
+    
+    // Field names only: the secret itself must never land in the audit trail
+    const fields: (keyof UpdateProviderRequest)[] = ['name', 'apiEndpoint', 'secretKey', 'signatureMode', 'supportedCurrencies'];
+    const changedFields = fields.filter((field) => changes[field] !== undefined);
+    
+    return transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE casino_game_providers
+         SET name = $2,
+             api_endpoint = $3,
+             secret_key = $4,
+             signature_mode = $5,
+             supported_currencies = $6,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [provider.id, updated.name, updated.apiEndpoint, updated.secretKey, updated.signatureMode, updated.supportedCurrencies]
+      );
+      
+      await client.query(
+        `INSERT INTO casino_provider_events (provider_id, event_type, source, detail, operator_id)
+         VALUES ($1, 'updated', 'operator', $2, $3)`,
+        [provider.id, `Changed ${changedFields.join(', ') || 'nothing'}`, operatorId]
+      );
+      
+      return result.rows[0];
+    });
+  }
+  
+  /**
+   * Disable or re-enable a provider by hand (admin)
+   * A manual disable is never lifted by health checks
+   */
+  async setProviderDisabled(
+    code: string,
+    disabled: boolean,
+    operatorId: string,
+    reason: string | null
+  ): Promise<CasinoGameProvider> {
+    return await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE casino_game_providers
+         SET is_disabled = $2,
+             disabled_reason = CASE WHEN $2 THEN 'manual' ELSE NULL END,
+             disabled_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP ELSE NULL END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE code = $1
+         RETURNING *`,
+        [code, disabled]
+      );
+      const provider = result.rows[0] as CasinoGameProvider;
+      if (!provider) {
+        throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+      }
+      
+      await client.query(
+        `INSERT INTO casino_provider_events (provider_id, event_type, source, detail, operator_id)
+         VALUES ($1, $2, 'operator', $3, $4)`,
+        [provider.id, disabled ? 'disabled' : 'enabled', reason, operatorId]
+      );
+      
+      return provider;
+    });
+  }
+  
+  /**
+   * A provider's availability and operator history, newest first (admin)
+   */
+  async listProviderEvents(providerId: string, limit: number): Promise<CasinoProviderEvent[]> {
+    const result = await query(
+      `SELECT * FROM casino_provider_events
+       WHERE provider_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      [providerId, limit]
+    );
+    return result.rows;
+  }
+  
+  /**
+   * Probe a provider's health route and record the outcome
+   * Disables the provider once failures reach the threshold, and re-enables it on
+   * recovery if it was disabled that way
+   */
+  async checkProviderHealth(provider: CasinoGameProvider): Promise<CasinoGameProvider> {
+    const config = getHealthCheckConfig();
+    const probe = await this.probeProvider(provider, config.timeoutMs);
+    
+    return await transaction(async (client) => {
+      // Re-read under lock so overlapping checks apply one after the other
+      const lockResult = await client.query(
+        'SELECT * FROM casino_game_providers WHERE id = $1 FOR UPDATE',
+        [provider.id]
+      );
+      const current = lockResult.rows[0] as CasinoGameProvider;
+      if (!current) {
+        throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+      }
+      
+      const plan = planHealthTransition(current, probe, config.failureThreshold);
+      
+      const result = await client.query(
+        `UPDATE casino_game_providers
+         SET health_status = $2,
+             consecutive_failures = $3,
+             last_checked_at = CURRENT_TIMESTAMP,
+             last_error = $4,
+             is_disabled = CASE WHEN $5 THEN true WHEN $6 THEN false ELSE is_disabled END,
+             disabled_reason = CASE WHEN $5 THEN 'unhealthy' WHEN $6 THEN NULL ELSE disabled_reason END,
+             disabled_at = CASE WHEN $5 THEN CURRENT_TIMESTAMP WHEN $6 THEN NULL ELSE disabled_at END
+         WHERE id = $1
+         RETURNING *`,
+        [current.id, plan.healthStatus, plan.consecutiveFailures, probe.error, plan.disable, plan.enable]
+      );
+      
+      for (const event of plan.events) {
+        await client.query(
+          `INSERT INTO casino_provider_events (provider_id, event_type, source, detail)
+           VALUES ($1, $2, 'health_check', $3)`,
+          [current.id, event.type, event.detail]
+        );
+        console.log(`Provider ${current.code} ${event.type}: ${event.detail}`);
+      }
+      
+      return result.rows[0];
+    });
+  }
+  
+  /**
+   * Health-check every registered provider, including disabled ones so they can recover
+   */
+  async checkAllProviderHealth(): Promise<CasinoGameProvider[]> {
+    const providers = await this.listProviders();
+    const checked: CasinoGameProvider[] = [];
+    
+    for (const provider of providers) {
+      try {
+        checked.push(await this.checkProviderHealth(provider));
+      } catch (error: any) {
+        console.error(`Health check failed to run for ${provider.code}:`, error.message);
+      }
+    }
+    
+    return checked;
+  }
+  
+  private async validateProviderConfig(
+    apiEndpoint: string,
+    signatureMode: string,
+    supportedCurrencies?: string[] | null
+  ): Promise<void> {
+    if (!/^https?:\/\/[^\s]+$/.test(apiEndpoint)) {
+      throw new CasinoError('apiEndpoint must be an http(s) URL', ErrorCodes.INVALID_PROVIDER_CONFIG, 400);
+    }
+    
+    if (signatureMode !== 'raw' && signatureMode !== 'canonical') {
+      throw new CasinoError('signatureMode must be raw or canonical', ErrorCodes.INVALID_PROVIDER_CONFIG, 400);
+    }
+    
+    for (const currency of supportedCurrencies || []) {
+      await this.requireCurrency(currency);
+    }
+  }
+  
+  /**
+   * GET {api_endpoint}/health; any 2xx response within the timeout counts as healthy
+   */
+  private async probeProvider(provider: CasinoGameProvider, timeoutMs: number): Promise<HealthCheckResult> {
+    try {
+      await this.getProviderClient(provider).checkHealth(timeoutMs);
+      return { ok: true, error: null };
+    } catch (error: any) {
+      return { ok: false, error: String(error.message).slice(0, 500) };
+    }
+  }
+  
+  /**
+   * List games, optionally filtered by provider and sync status (admin)
+   */
+  async listGames(filters: { providerId?: string; syncStatus?: GameSyncStatus } = {}): Promise<CasinoGame[]> {
+    const result = await query(
+      `SELECT * FROM casino_games
+       WHERE ($1::uuid IS NULL OR provider_id = $1)
+         AND ($2::varchar IS NULL OR sync_status = $2)
+       ORDER BY provider_id, provider_game_id`,
+      [filters.providerId || null, filters.syncStatus || null]
+    );
+    return result.rows;
+  }
+  
+  /**
+   * Add a game to the catalog, mapped to the provider's game ID (admin)
+   */
+  async createGame(input: CreateGameRequest): Promise<CasinoGame> {
+    const provider = await this.getProviderByCode(input.providerCode);
+    if (!provider) {
+      throw new CasinoError('Provider not found', ErrorCodes.PROVIDER_NOT_FOUND, 404);
+    }
+    
+    const minBet = input.minBet ?? 100;
+    const maxBet = input.maxBet ?? 100000;
+    await this.validateGameConfig(minBet, maxBet, input.currency);
+    
+    const result = await query(
+      `INSERT INTO casino_games (provider_id, provider_game_id, name, currency_code, min_bet, max_bet, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (provider_id, provider_game_id) DO NOTHING
+       RETURNING *`,
+      [provider.id, input.providerGameId, input.name, input.currency || null, minBet, maxBet, input.isActive ?? true]
+    );
+    if (result.rows.length === 0) {
+      throw new CasinoError('Game already exists for this provider', ErrorCodes.GAME_EXISTS, 409);
+    }
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Change a game's mapping, limits or availability (admin)
+   * An operator edit counts as reviewing the game, so its sync flag is cleared;
+   * the next sync flags it again if it still differs from the provider
+   */
+  async updateGame(gameId: string, changes: UpdateGameRequest): Promise<CasinoGame> {
+    const game = await this.getGameById(gameId);
+    if (!game) {
+      throw new CasinoError('Game not found', ErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    
+    const updated = {
+      providerGameId: changes.providerGameId ?? game.provider_game_id,
+      name: changes.name ?? game.name,
+      currency: changes.currency !== undefined ? changes.currency : game.currency_code,
+      minBet: changes.minBet ?? Number(game.min_bet),
+      maxBet: changes.maxBet ?? Number(game.max_bet),
+      isActive: changes.isActive ?? game.is_active
+    };
+    await this.validateGameConfig(updated.minBet, updated.maxBet, updated.currency);
+    
+    if (updated.providerGameId !== game.provider_game_id) {
+      const taken = await query(
+        'SELECT id FROM casino_games WHERE provider_id = $1 AND provider_game_id = $2',
+        [game.provider_id, updated.providerGameId]
+      );
+      if (taken.rows.length > 0) {
+        throw new CasinoError('Game already exists for this provider', ErrorCodes.GAME_EXISTS, 409);
+      }
+    }
+    
+    const result = await query(
+      `UPDATE casino_games
+       SET provider_game_id = $2,
+           name = $3,
+           currency_code = $4,
+           min_bet = $5,
+           max_bet = $6,
+           is_active = $7,
+           sync_status = 'synced',
+           sync_changes = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [gameId, updated.providerGameId, updated.name, updated.currency || null, updated.minBet, updated.maxBet, updated.isActive]
+    );
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Remove a game that has never been played (admin)
+   * Played games keep their sessions and rounds; disable them instead
+   */
+  async deleteGame(gameId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM casino_games
+       WHERE id = $1
+         AND NOT EXISTS (SELECT 1 FROM casino_game_sessions WHERE game_id = $1)
+         AND NOT EXISTS (SELECT 1 FROM casino_rounds WHERE game_id = $1)
+       RETURNING id`,
+      [gameId]
+    );
+    if (result.rows.length > 0) return;
+    
+    if (!await this.getGameById(gameId)) {
+      throw new CasinoError('Game not found', ErrorCodes.GAME_NOT_FOUND, 404);
+    }
+    throw new CasinoError('Game has been played; disable it instead', ErrorCodes.GAME_IN_USE, 409);
+  }
+  
+  /**
+   * Pull a provider's catalog and reconcile our games with it
+   * New games are added inactive for an operator to review, games the provider
+   * dropped are deactivated, and games whose name or limits drifted are flagged
+   */
+  async syncGameCatalog(provider: CasinoGameProvider): Promise<CatalogSyncReport> {
+    let catalog: ProviderCatalogGame[];
+    try {
+      catalog = await this.getProviderClient(provider).listGames();
+    } catch (error: any) {
+      throw new CasinoError(
+        `Could not fetch the ${provider.code} game catalog: ${error.message}`,
+        ErrorCodes.CATALOG_SYNC_FAILED,
+        502,
+        error.details
+      );
+    }
+    
+    return await transaction(async (client) => {
+      const gamesResult = await client.query(
+        'SELECT * FROM casino_games WHERE provider_id = $1 FOR UPDATE',
+        [provider.id]
+      );
+      const plan = planCatalogSync(gamesResult.rows as CasinoGame[], catalog);
+      
+      for (const listed of plan.added) {
+        await client.query(
+          `INSERT INTO casino_games (provider_id, provider_game_id, name, min_bet, max_bet, is_active, sync_status, synced_at)
+           VALUES ($1, $2, $3, $4, $5, false, 'added', CURRENT_TIMESTAMP)
+           ON CONFLICT (provider_id, provider_game_id) DO NOTHING`,
+          [provider.id, listed.gameId, listed.name, listed.minBet, listed.maxBet]
+        );
+      }
+      
+      // Relisted games stay inactive until an operator turns them back on
+      await client.query(
+        `UPDATE casino_games
+         SET sync_status = 'added', sync_changes = NULL, synced_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1)`,
+        [plan.relisted.map((game) => game.id)]
+      );
+      
+      await client.query(
+        `UPDATE casino_games
+         SET is_active = false, sync_status = 'removed', sync_changes = NULL,
+             synced_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1)`,
+        [plan.removed.map((game) => game.id)]
+      );
+      
+      for (const { game, changes } of plan.changed) {
+        await client.query(
+          `UPDATE casino_games
+           SET sync_status = 'changed', sync_changes = $2, synced_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [game.id, JSON.stringify(changes)]
+        );
+      }
+      
+      // Games still awaiting review keep their 'added' flag
+      await client.query(
+        `UPDATE casino_games
+         SET sync_status = CASE WHEN sync_status = 'added' THEN 'added' ELSE 'synced' END,
+             sync_changes = NULL,
+             synced_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1)`,
+        [plan.unchanged.map((game) => game.id)]
+      );
+      
+      return {
+        providerCode: provider.code,
+        added: [...plan.added.map((listed) => listed.gameId), ...plan.relisted.map((game) => game.provider_game_id)],
+        removed: plan.removed.map((game) => game.provider_game_id),
+        changed: plan.changed.map(({ game, changes }) => ({ providerGameId: game.provider_game_id, changes })),
+        unchanged: plan.unchanged.length,
+        syncedAt: new Date()
+      };
+    });
+  }
+  
+  /**
+   * Sync the catalog of every enabled provider
+   * A provider that cannot be reached is logged and skipped
+   */
+  async syncAllGameCatalogs(): Promise<CatalogSyncReport[]> {
+    const providers = await query('SELECT * FROM casino_game_providers WHERE is_disabled = false ORDER BY code');
+    const reports: CatalogSyncReport[] = [];
+    
+    for (const provider of providers.rows as CasinoGameProvider[]) {
+      try {
+        reports.push(await this.syncGameCatalog(provider));
+      } catch (error: any) {
+        console.error(`Game catalog sync failed for ${provider.code}:`, error.message);
+      }
+    }
+    
+    return reports;
+  }
+  
+  private async validateGameConfig(minBet: number, maxBet: number, currency?: string | null): Promise<void> {
+    if (!isValidBetRange(minBet, maxBet)) {
+      throw new CasinoError(
+        'minBet and maxBet must be whole amounts with 0 < minBet <= maxBet',
+        ErrorCodes.INVALID_GAME_CONFIG,
+        400
+      );
+    }
+    
+    if (currency) {
+      await this.requireCurrency(currency);
+    }
+  }
+  
+  /**
+   * Get a player's responsible-gaming limits and self-exclusion
+   */
+  async getPlayerLimits(userId: string): Promise<{ user: CasinoUser; limits: CasinoPlayerLimit[] }> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+    }
+    
+    const result = await query(
+      `SELECT * FROM casino_player_limits
+       WHERE user_id = $1
+       ORDER BY limit_type, period, currency_code`,
+      [userId]
+    );
+    
+    return { user, limits: result.rows };
+  }
+  
+  /**
+   * Set, raise, lower or remove (amount null) a responsible-gaming limit
+   * Lowering applies immediately; raising or removing waits out the cooling-off delay
+   */
+  async setPlayerLimit(
+    userId: string,
+    limitType: LimitType,
+    period: LimitPeriod,
+    currency: string | null,
+    amount: number | null
+  ): Promise<CasinoPlayerLimit> {
+    if (!isValidLimit(limitType, period)) {
+      throw new CasinoError(`Invalid limit: ${limitType} ${period}`, ErrorCodes.INVALID_LIMIT, 400);
+    }
+    
+    if (amount !== null && (!Number.isInteger(amount) || amount <= 0)) {
+      throw new CasinoError('Limit amount must be a positive integer or null', ErrorCodes.INVALID_LIMIT, 400);
+    }
+    
+    // Money limits are per currency; session time limits apply across all wallets
+    let currencyCode: string | null = null;
+    if (limitType !== 'session_duration') {
+      if (!currency) {
+        throw new CasinoError('currency is required for wager and loss limits', ErrorCodes.INVALID_LIMIT, 400);
+      }
+      currencyCode = (await this.requireCurrency(currency)).code;
+    }
+    
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+    }
+    
+    return await transaction(async (client) => {
+      const existingResult = await client.query(
+        `SELECT * FROM casino_player_limits
+         WHERE user_id = $1 AND limit_type = $2 AND period = $3 AND currency_code IS NOT DISTINCT FROM $4
+         FOR UPDATE`,
+        [userId, limitType, period, currencyCode]
+      );
+      const existing: CasinoPlayerLimit | undefined = existingResult.rows[0];
+      
+      const plan = planLimitChange(existing ? getEffectiveAmount(existing) : null, amount);
+      
+      if (existing) {
+        const result = await client.query(
+          `UPDATE casino_player_limits
+           SET amount = $1, pending_amount = $2, pending_effective_at = $3, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $4
+           RETURNING *`,
+          [plan.amount, plan.pending_amount, plan.pending_effective_at, existing.id]
+        );
+        return result.rows[0];
+      }
+      
+      const result = await client.query(
+        `INSERT INTO casino_player_limits
+         (user_id, limit_type, period, currency_code, amount, pending_amount, pending_effective_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [userId, limitType, period, currencyCode, plan.amount, plan.pending_amount, plan.pending_effective_at]
+      );
+      return result.rows[0];
+    });
+  }
+  
+  /**
+   * Self-exclude a player until the given time
+   * An exclusion can be extended but never shortened this way
+   */
+  async selfExclude(userId: string, until: Date): Promise<CasinoUser> {
+    if (Number.isNaN(until.getTime()) || until <= new Date()) {
+      throw new CasinoError('Self-exclusion must end in the future', ErrorCodes.INVALID_LIMIT, 400);
+    }
+    
+    const result = await query(
+      `UPDATE casino_users
+       SET self_excluded_until = GREATEST(COALESCE(self_excluded_until, $2), $2)
+       WHERE id = $1
+       RETURNING *`,
+      [userId, until]
+    );
+    if (result.rows.length === 0) {
+      throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+    }
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Lift a player's self-exclusion (admin only)
+   */
+  async liftSelfExclusion(userId: string): Promise<CasinoUser> {
+    const result = await query(
+      'UPDATE casino_users SET self_excluded_until = NULL WHERE id = $1 RETURNING *',
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new CasinoError('User not found', ErrorCodes.USER_NOT_FOUND, 404);
+    }
+    
+    return result.rows[0];
+  }
+  
+  /**
+   * Reject a bet from a locked or self-excluded player, or one that would breach their limits
+   * Runs under the wallet lock so concurrent bets cannot both slip under a limit
+   */
+  private async assertPlayerCanBet(
+    client: any,
+    session: CasinoGameSession,
+    wallet: CasinoWallet,
+    amount: number
+  ): Promise<void> {
+    const userResult = await client.query('SELECT * FROM casino_users WHERE id = $1', [session.user_id]);
+    const user: CasinoUser | undefined = userResult.rows[0];
+    if (user?.is_locked) {
+      throw new CasinoError('User account is locked', ErrorCodes.USER_LOCKED, 403);
+    }
+    
+    if (user && isSelfExcluded(user)) {
+      throw responsibleGamingError({ limitType: 'self_exclusion', period: null, limit: null });
+    }
+    
+    const limitsResult = await client.query(
+      `SELECT * FROM casino_player_limits
+       WHERE user_id = $1 AND (currency_code = $2 OR currency_code IS NULL)`,
+      [session.user_id, wallet.currency_code]
+    );
+    const limits: CasinoPlayerLimit[] = limitsResult.rows;
+    if (limits.length === 0) {
+      return;
+    }
+    
+    // Wagered and won on this wallet over each rolling period a limit uses
+    const usage: Partial<Record<LimitPeriod, LimitUsage>> = {};
+    for (const period of new Set(limits.map((limit) => limit.period))) {
+      const seconds = getPeriodSeconds(period);
+      if (seconds === null) continue;
+      
+      const usageResult = await client.query(
+        `SELECT
+           COALESCE(SUM(amount) FILTER (WHERE transaction_type = 'debit' AND NOT is_rollback), 0) AS wagered,
+           COALESCE(SUM(amount) FILTER (WHERE transaction_type = 'credit'), 0) AS won
+         FROM casino_transactions
+         WHERE wallet_id = $1 AND created_at > NOW() - make_interval(secs => $2)`,
+        [wallet.id, seconds]
+      );
+      usage[period] = {
+        wagered: Number(usageResult.rows[0].wagered),
+        won: Number(usageResult.rows[0].won)
+      };
+    }
+    
+    const breach = findLimitBreach(limits, usage, session.created_at, amount);
+    if (breach) {
+      throw responsibleGamingError(breach);
+    }
+  }
+  
+  /**
+   * Prove the journal is consistent: every posting balances, house and player
+   * accounts net to zero per currency, and every wallet matches its ledger accounts
+   */
+  async checkLedgerIntegrity(): Promise<LedgerIntegrityReport> {
+    const accountsResult = await query(
+      `SELECT account, currency_code, SUM(amount) AS balance
+       FROM casino_ledger_entries
+       GROUP BY account, currency_code
+       ORDER BY currency_code, account`
+    );
+    
+    const unbalancedResult = await query(
+      `SELECT posting_id, SUM(amount) AS total
+       FROM casino_ledger_entries
+       GROUP BY posting_id
+       HAVING SUM(amount) <> 0`
+    );
+    
+    const mismatchResult = await query(
+      `SELECT w.id, w.currency_code, w.playable_balance, w.redeemable_balance,
+              COALESCE(SUM(e.amount) FILTER (WHERE e.account IN ('player_cash', 'player_bonus')), 0) AS ledger_playable,
+              COALESCE(SUM(e.amount) FILTER (WHERE e.account = 'player_cash'), 0) AS ledger_redeemable
+       FROM casino_wallets w
+       LEFT JOIN casino_ledger_entries e ON e.wallet_id = w.id
+       GROUP BY w.id
+       HAVING w.playable_balance <> COALESCE(SUM(e.amount) FILTER (WHERE e.account IN ('player_cash', 'player_bonus')), 0)
+           OR w.redeemable_balance <> COALESCE(SUM(e.amount) FILTER (WHERE e.account = 'player_cash'), 0)`
+    );
+    
+    const accounts = accountsResult.rows.map((row) => ({
+      account: row.account,
+      currency: row.currency_code,
+      balance: Number(row.balance)
+    }));
+    
+    // Each currency's accounts must net to zero, or money appeared from nowhere
+    const currencyTotals = new Map<string, number>();
+    for (const entry of accounts) {
+      currencyTotals.set(entry.currency, (currencyTotals.get(entry.currency) || 0) + entry.balance);
+    }
+    const currenciesBalanced = [...currencyTotals.values()].every((total) => total === 0);
+    
+    return {
+      success: true,
+      consistent: currenciesBalanced && unbalancedResult.rows.length === 0 && mismatchResult.rows.length === 0,
+      checkedAt: new Date(),
+      accounts,
+      unbalancedPostings: unbalancedResult.rows.map((row) => ({
+        postingId: row.posting_id,
+        total: Number(row.total)
+      })),
+      walletMismatches: mismatchResult.rows.map((row) => ({
+        walletId: row.id,
+        currency: row.currency_code,
+        playableBalance: Number(row.playable_balance),
+        ledgerPlayable: Number(row.ledger_playable),
+        redeemableBalance: Number(row.redeemable_balance),
+        ledgerRedeemable: Number(row.ledger_redeemable)
+      }))
+    };
+  }
+  
+  /**
+   * A wallet balance as reported to the provider: in the session's game currency
+   * when there is a session, otherwise in the wallet currency
+   */
+  private async reportBalance(
+    session: CasinoGameSession | null,
+    wallet: CasinoWallet | null,
+    balance: number = Number(wallet?.playable_balance || 0)
+  ): Promise<{ balance: number; currency: string }> {
+    if (!wallet) {
+      return { balance: 0, currency: 'USD' };
+    }
+    
+    if (!session) {
+      return { balance, currency: wallet.currency_code };
+    }
+    
+    const fx = await this.getSessionFx(session, wallet.currency_code);
+    return { balance: toGameAmount(balance, fx), currency: fx.gameCurrency.code };
+  }
+  
+  /**
+   * Resolve a replayed transactionId to the response stored for the original request
+   * Replays whose parameters differ from the original are rejected, and so are transactionIds
+   * used by another provider, without revealing anything about the original
+   */
+  private async replayTransaction(existing: CasinoTransaction, received: ReplayParams, providerId?: string): Promise<any> {
+    const contextResult = await query(
+      `SELECT s.token AS session_token, r.external_round_id,
+              COALESCE(r.provider_id, g.provider_id) AS provider_id
+       FROM casino_transactions t
+       LEFT JOIN casino_game_sessions s ON s.id = t.session_id
+       LEFT JOIN casino_games g ON g.id = s.game_id
+       LEFT JOIN casino_rounds r ON r.id = t.round_id
+       WHERE t.id = $1`,
+      [existing.id]
+    );
+    const context = contextResult.rows[0] || {};
+    
+    if (providerId && context.provider_id !== providerId) {
+      throw new CasinoError(
+        `transactionId ${existing.external_transaction_id} is already in use`,
+        ErrorCodes.DUPLICATE_TRANSACTION,
+        409
+      );
+    }
+    
+    const original: ReplayParams = {
+      transactionType: existing.transaction_type,
+      sessionToken: context.session_token ?? null,
+      roundId: context.external_round_id ?? null,
+      amount: Number(existing.game_amount ?? existing.amount),
+      relatedTransactionId: existing.related_external_transaction_id
+    };
+    
+    const mismatched = diffReplayParams(original, received);
+    if (mismatched.length > 0) {
+      const compared = Object.keys(received) as (keyof ReplayParams)[];
+      throw new CasinoError(
+        `transactionId ${existing.external_transaction_id} was already used with different parameters`,
+        ErrorCodes.IDEMPOTENCY_CONFLICT,
+        409,
+        {
+          mismatched,
+          original: describeReplayParams(original, compared),
+          received: describeReplayParams(received, compared)
+        }
+      );
+    }
+    
+    return existing.response_cache;
+  }
+  
+  /**
+   * Get or open the casino-side round for a provider round ID and lock it
+   * Round IDs are scoped to the provider; a round belongs to a single wallet
+   */
+  private async openRound(
+    client: any,
+    session: CasinoGameSession,
+    providerId: string,
+    externalRoundId: string
+  ): Promise<CasinoRound> {
+    await client.query(
+      `INSERT INTO casino_rounds (id, provider_id, external_round_id, session_id, wallet_id, game_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (provider_id, external_round_id) DO NOTHING`,
+      [uuidv4(), providerId, externalRoundId, session.id, session.wallet_id, session.game_id]
+    );
+    
+    const roundResult = await client.query(
+      'SELECT * FROM casino_rounds WHERE provider_id = $1 AND external_round_id = $2 FOR UPDATE',
+      [providerId, externalRoundId]
+    );
+    const round = roundResult.rows[0] as CasinoRound;
+    
+    if (round.wallet_id !== session.wallet_id) {
+      throw new CasinoError('Round belongs to a different player', ErrorCodes.ROUND_MISMATCH, 409);
+    }
+    
+    return round;
+  }
+  
+  /**
+   * Get a provider round with every transaction linked to it
+   */
+  async getRoundDetails(providerId: string, externalRoundId: string): Promise<{
+    round: CasinoRound;
+    transactions: CasinoTransaction[];
+  }> {
+    const roundResult = await query(
+      'SELECT * FROM casino_rounds WHERE provider_id = $1 AND external_round_id = $2',
+      [providerId, externalRoundId]
+    );
+    const round = roundResult.rows[0];
+    if (!round) {
+      throw new CasinoError('Round not found', ErrorCodes.ROUND_NOT_FOUND, 404);
+    }
+    
+    const txnResult = await query(
+      'SELECT * FROM casino_transactions WHERE round_id = $1 ORDER BY created_at ASC',
+      [round.id]
+    );
+    
+    return { round, transactions: txnResult.rows };
+  }
+  
+  /**
+   * One page of a wallet's transactions, newest first
+   * Pages are keyed on (created_at, id) rather than offsets, so rows inserted
+   * while a client pages through never shift or repeat later pages
+   */
+  async listWalletTransactions(
+    walletId: string,
+    filters: TransactionHistoryFilters,
+    limit: number,
+    cursor?: string
+  ): Promise<{ wallet: CasinoWallet; transactions: TransactionHistoryRow[]; nextCursor: string | null }> {
+    const wallet = await this.getWalletById(walletId);
+    if (!wallet) {
+      throw new CasinoError('Wallet not found', ErrorCodes.WALLET_NOT_FOUND, 404);
+    }
+    
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      throw new CasinoError('Invalid cursor', ErrorCodes.INVALID_CURSOR, 400);
+    }
+    
+    if (filters.type && !TRANSACTION_TYPES.includes(filters.type as TransactionType)) {
+      throw new CasinoError(
+        `type must be one of: ${TRANSACTION_TYPES.join(', ')}`,
+        ErrorCodes.INVALID_FILTER,
+        400
+      );
+    }
+    
+    for (const bound of ['from', 'to'] as const) {
+      const value = filters[bound];
+      if (value && isNaN(new Date(value).getTime())) {
+        throw new CasinoError(`${bound} must be a date`, ErrorCodes.INVALID_FILTER, 400);
+      }
+    }
+    
+    // Fetch one extra row to learn whether another page follows
+    const result = await query(
+      `SELECT t.*, r.external_round_id, ${cursorTimestampSql('t.created_at')} AS cursor_created_at
+       FROM casino_transactions t
+       LEFT JOIN casino_rounds r ON r.id = t.round_id
+       WHERE t.wallet_id = $1
+         AND ($2::varchar IS NULL OR t.transaction_type = $2)
+         AND ($3::timestamptz IS NULL OR t.created_at >= $3)
+         AND ($4::timestamptz IS NULL OR t.created_at < $4)
+         AND ($5::uuid IS NULL OR t.session_id = $5)
+         AND ($6::varchar IS NULL OR r.external_round_id = $6)
+         AND ($7::varchar IS NULL OR t.external_transaction_id = $7)
+         AND ($8::timestamptz IS NULL OR (t.created_at, t.id) < ($8, $9::uuid))
+       ORDER BY t.created_at DESC, t.id DESC
+       LIMIT $10`,
+      [
+        wallet.id,
+        filters.type || null,
+        filters.from || null,
+        filters.to || null,
+        filters.sessionId || null,
+        filters.roundId || null,
+        filters.externalId || null,
+        after ? after.createdAt : null,
+        after ? after.id : null,
+        limit + 1
+      ]
+    );
+    
+    const transactions = result.rows.slice(0, limit) as TransactionHistoryRow[];
+    const last = transactions[transactions.length - 1];
+    const nextCursor = result.rows.length > limit && last
+      ? encodeCursor({ createdAt: last.cursor_created_at, id: last.id })
+      : null;
+    
+    return { wallet, transactions, nextCursor };
+  }
+  
+  /**
+   * A game session with its money totals, in the wallet currency
+   * Rolled-back bets stay in the wagered total and are also counted as rolled back
+   */
+  async getSessionSummary(sessionId: string): Promise<{
+    session: CasinoGameSession;
+    wallet: CasinoWallet;
+    summary: SessionSummary;
+  }> {
+    const session = await this.getSessionById(sessionId);
+    if (!session) {
+      throw new CasinoError('Session not found', ErrorCodes.SESSION_NOT_FOUND, 404);
+    }
+    
+    const wallet = await this.getWalletById(session.wallet_id);
+    if (!wallet) {
+      throw new CasinoError('Wallet not found', ErrorCodes.WALLET_NOT_FOUND, 404);
+    }
+    
+    const result = await query(
+      `SELECT
+         COALESCE(SUM(amount) FILTER (WHERE transaction_type = 'debit'), 0) AS wagered,
+         COALESCE(SUM(amount) FILTER (WHERE transaction_type = 'credit'), 0) AS won,
+         COALESCE(SUM(amount) FILTER (WHERE transaction_type = 'rollback'), 0) AS rolled_back,
+         COUNT(*) AS transaction_count,
+         COUNT(DISTINCT round_id) AS round_count
+       FROM casino_transactions
+       WHERE session_id = $1`,
+      [session.id]
+    );
+    const totals = result.rows[0];
+    
+    return {
+      session,
+      wallet,
+      summary: {
+        wagered: Number(totals.wagered),
+        won: Number(totals.won),
+        rolledBack: Number(totals.rolled_back),
+        transactionCount: Number(totals.transaction_count),
+        roundCount: Number(totals.round_count)
+      }
+    };
+  }
+  
+  /**
+   * Ask the provider to start its side of a game session
+   * In strict mode a failure removes the casino session and fails the launch; in
+   * lenient mode the session is kept with its provider launch pending and retried later
+   */
+  async startProviderSession(session: CasinoGameSession, mode: LaunchMode = getLaunchMode()): Promise<CasinoGameSession> {
+    try {
+      const launched = await this.requestProviderLaunch(session);
+      return await this.recordProviderLaunch(session, launched);
+    } catch (error: any) {
+      const reason = String(error.message).slice(0, 500);
+      
+      if (mode === 'strict') {
+        // Nothing can have been played on the session yet
+        await query('DELETE FROM casino_game_sessions WHERE id = $1', [session.id]);
+        throw new CasinoError('Game provider could not start the game', ErrorCodes.PROVIDER_UNAVAILABLE, 503, {
+          reason,
+          ...error.details
+        });
+      }
+      
+      console.warn(`Provider launch for session ${session.id} failed, will retry: ${reason}`);
+      return await this.recordLaunchFailure(session, reason);
+    }
+  }
+  
+  /**
+   * Retry provider launches that are due, returning how many succeeded
+   * Due sessions are claimed for a minute first so concurrent workers do not retry the same one
+   */
+  async retryPendingLaunches(batchSize: number = 50): Promise<number> {
+    const claimed = await query(
+      `UPDATE casino_game_sessions
+       SET next_launch_attempt_at = CURRENT_TIMESTAMP + INTERVAL '60 seconds'
+       WHERE id IN (
+         SELECT id FROM casino_game_sessions
+         WHERE provider_launch_status = 'pending'
+           AND is_active = true
+           AND next_launch_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_launch_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [batchSize]
+    );
+    
+    let launched = 0;
+    for (const session of claimed.rows as CasinoGameSession[]) {
+      try {
+        await this.recordProviderLaunch(session, await this.requestProviderLaunch(session));
+        launched++;
+      } catch (error: any) {
+        await this.recordLaunchFailure(session, String(error.message).slice(0, 500));
+      }
+    }
+    
+    return launched;
+  }
+  
+  /**
+   * Call the provider's /launch for a session with the player's current balance
+   */
+  private async requestProviderLaunch(session: CasinoGameSession): Promise<ProviderLaunchResult> {
+    const game = await this.getGameById(session.game_id);
+    const provider = game ? await this.getProviderById(game.provider_id) : null;
+    const wallet = await this.getWalletById(session.wallet_id);
+    if (!game || !provider || !wallet) {
+      throw new CasinoError('Session game, provider or wallet not found', 'SESSION_ERROR', 500);
+    }
+    
+    // The provider works in the game currency
+    const fx = await this.getSessionFx(session, wallet.currency_code);
+    
+    return await this.getProviderClient(provider).launch({
+      playerId: session.user_id,
+      gameId: game.provider_game_id,
+      sessionToken: session.token,
+      currency: fx.gameCurrency.code,
+      balance: toGameAmount(Number(wallet.playable_balance), fx)
+    });
+  }
+  
+  private async recordProviderLaunch(
+    session: CasinoGameSession,
+    launched: ProviderLaunchResult
+  ): Promise<CasinoGameSession> {
+    const result = await query(
+      `UPDATE casino_game_sessions
+       SET provider_session_id = $2,
+           provider_game_url = $3,
+           provider_seed_hash = $4,
+           provider_launch_status = 'ready',
+           provider_launch_attempts = provider_launch_attempts + 1,
+           provider_launch_error = NULL,
+           next_launch_attempt_at = NULL
+       WHERE id = $1
+       RETURNING *`,
+      [session.id, launched.providerSessionId, launched.gameUrl, launched.serverSeedHash]
     );
+    return result.rows[0];
+  }
+  
+  /**
+   * Tell the provider an ended session is over so it reveals the session's server seed
+   * Best effort: the session is already closed here, and the provider reveals the seed
+   * on its own once its session expires. Returns null when there is nothing to reveal.
+   */
+  async revealProviderSeed(session: CasinoGameSession): Promise<string | null> {
+    if (session.provider_launch_status !== 'ready') {
+      return null;
+    }
+    
+    try {
+      const game = await this.getGameById(session.game_id);
+      const provider = game ? await this.getProviderById(game.provider_id) : null;
+      if (!provider) {
+        return null;
+      }
+      
+      const ended = await this.getProviderClient(provider).endSession(session.token);
+      if (session.provider_seed_hash && ended.serverSeedHash !== session.provider_seed_hash) {
+        console.warn(`Provider revealed a seed for session ${session.id} that does not match its launch commitment`);
+      }
+      return ended.serverSeed;
+    } catch (error: any) {
+      console.warn(`Could not end provider session for session ${session.id}: ${error.message}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Schedule the next launch attempt, or give up and close the session once retries run out
+   */
+  private async recordLaunchFailure(session: CasinoGameSession, reason: string): Promise<CasinoGameSession> {
+    const attempts = Number(session.provider_launch_attempts) + 1;
+    const nextAttemptAt = getNextLaunchAttempt(attempts);
+    
+    if (!nextAttemptAt) {
+      console.warn(`Giving up on provider launch for session ${session.id} after ${attempts} attempts`);
+    }
+    
+    const result = await query(
+      `UPDATE casino_game_sessions
+       SET provider_launch_status = $2,
+           provider_launch_attempts = $3,
+           provider_launch_error = $4,
+           next_launch_attempt_at = $5,
+           is_active = CASE WHEN $2 = 'failed' THEN false ELSE is_active END,
+           ended_at = CASE WHEN $2 = 'failed' THEN COALESCE(ended_at, CURRENT_TIMESTAMP) ELSE ended_at END
+       WHERE id = $1
+       RETURNING *`,
+      [session.id, nextAttemptAt ? 'pending' : 'failed', attempts, reason, nextAttemptAt]
+    );
+    return result.rows[0];
   }
   
   /**
    * End a game session
    */
-  async endSession(sessionToken: string): Promise<void> {
-    await query(
+  async endSession(sessionToken: string): Promise<CasinoGameSession> {
+    const result = await query(
       `UPDATE casino_game_sessions 
        SET is_active = false, ended_at = CURRENT_TIMESTAMP 
-       WHERE token = $1`,
+       WHERE token = $1 AND is_active = true
+       RETURNING *`,
       [sessionToken]
     );
+    
+    if (!result.rows[0]) {
+      throw new CasinoError('Invalid or expired session', ErrorCodes.INVALID_SESSION, 401);
+    }
+    
+    return result.rows[0];
   }
+  
+  /**
+   * Close a session by ID
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    await query(
+      `UPDATE casino_game_sessions 
+       SET is_active = false, ended_at = CURRENT_TIMESTAMP 
+       WHERE id = $1 AND is_active = true`,
+      [sessionId]
+    );
+  }
+  
+  /**
+   * Close every active session past its absolute TTL or idle timeout
+   * Returns the number of sessions closed
+   */
+  async closeStaleSessions(): Promise<number> {
+    const { absoluteTtlSeconds, idleTimeoutSeconds } = getSessionTtlConfig();
+    const result = await query(
+      `UPDATE casino_game_sessions 
+       SET is_active = false, ended_at = CURRENT_TIMESTAMP 
+       WHERE is_active = true
+         AND (created_at < CURRENT_TIMESTAMP - make_interval(secs => $1)
+           OR COALESCE(last_activity_at, created_at) < CURRENT_TIMESTAMP - make_interval(secs => $2))`,
+      [absoluteTtlSeconds, idleTimeoutSeconds]
+    );
+    return result.rowCount || 0;
+  }
+}
+
+// Breaches share one error code providers can act on; details say which limit
+function responsibleGamingError(breach: LimitBreach): CasinoError {
+  const descriptions: Record<LimitBreach['limitType'], string> = {
+    self_exclusion: 'player is self-excluded',
+    session_duration: 'session time limit reached',
+    wager: `${breach.period} wager limit reached`,
+    loss: `${breach.period} loss limit reached`
+  };
+  
+  return new CasinoError(
+    `Responsible gaming: ${descriptions[breach.limitType]}`,
+    ErrorCodes.RESPONSIBLE_GAMING_LIMIT,
+    403,
+    breach
+  );
 }
 
 export const casinoService = new CasinoService();
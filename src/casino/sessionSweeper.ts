@@ -0,0 +1,21 @@
+import { casinoService } from './service';
+
+// Periodically close game sessions past their absolute TTL or idle timeout
+export function startSessionSweeper(
+  intervalSeconds: number = parseInt(process.env.SESSION_SWEEP_INTERVAL_SECONDS || '60')
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const closed = await casinoService.closeStaleSessions();
+      if (closed > 0) {
+        console.log(`Session sweeper closed ${closed} stale session(s)`);
+      }
+    } catch (error: any) {
+      console.error('Session sweeper failed:', error.message);
+    }
+  }, intervalSeconds * 1000);
+
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,65 @@
+import { isSessionExpired, getNextLaunchAttempt } from './sessions';
+import { CasinoGameSession } from './types';
+
+const config = { absoluteTtlSeconds: 3600, idleTimeoutSeconds: 600 };
+
+function makeSession(createdAt: Date, lastActivityAt: Date): CasinoGameSession {
+  return {
+    id: 'session-1',
+    token: 'token',
+    user_id: 'user-1',
+    wallet_id: 'wallet-1',
+    game_id: 'game-1',
+    currency_code: 'USD',
+    provider_session_id: null,
+    provider_launch_status: 'ready',
+    provider_game_url: null,
+    provider_seed_hash: null,
+    provider_launch_attempts: 1,
+    provider_launch_error: null,
+    next_launch_attempt_at: null,
+    is_active: true,
+    created_at: createdAt,
+    last_activity_at: lastActivityAt,
+    ended_at: null
+  };
+}
+
+describe('Sessions Module', () => {
+  describe('isSessionExpired', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    it('should keep a recently active session alive', () => {
+      const session = makeSession(new Date('2024-01-01T11:30:00Z'), new Date('2024-01-01T11:55:00Z'));
+
+      expect(isSessionExpired(session, now, config)).toBe(false);
+    });
+
+    it('should expire a session idle for longer than the idle timeout', () => {
+      const session = makeSession(new Date('2024-01-01T11:30:00Z'), new Date('2024-01-01T11:40:00Z'));
+
+      expect(isSessionExpired(session, now, config)).toBe(true);
+    });
+
+    it('should expire a session older than the absolute TTL even when active', () => {
+      const session = makeSession(new Date('2024-01-01T10:00:00Z'), new Date('2024-01-01T11:59:00Z'));
+
+      expect(isSessionExpired(session, now, config)).toBe(true);
+    });
+  });
+
+  describe('getNextLaunchAttempt', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+    const retry = { maxAttempts: 4, baseDelaySeconds: 5, maxDelaySeconds: 12 };
+
+    it('should back off exponentially up to the maximum delay', () => {
+      expect(getNextLaunchAttempt(1, now, retry)).toEqual(new Date('2024-01-01T12:00:05Z'));
+      expect(getNextLaunchAttempt(2, now, retry)).toEqual(new Date('2024-01-01T12:00:10Z'));
+      expect(getNextLaunchAttempt(3, now, retry)).toEqual(new Date('2024-01-01T12:00:12Z'));
+    });
+
+    it('should give up once the attempts are used up', () => {
+      expect(getNextLaunchAttempt(4, now, retry)).toBeNull();
+    });
+  });
+});
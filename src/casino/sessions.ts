@@ -0,0 +1,67 @@
+import { CasinoGameSession } from './types';
+
+// What launchGame does when the provider cannot start its side of the session:
+//   strict  - remove the casino session and fail the launch
+//   lenient - keep the session with its provider launch pending and retry in the background
+export type LaunchMode = 'strict' | 'lenient';
+
+export interface SessionTtlConfig {
+  absoluteTtlSeconds: number;
+  idleTimeoutSeconds: number;
+}
+
+// Read session lifetimes from SESSION_TTL_SECONDS and SESSION_IDLE_TIMEOUT_SECONDS
+export function getSessionTtlConfig(): SessionTtlConfig {
+  return {
+    absoluteTtlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || '86400'),
+    idleTimeoutSeconds: parseInt(process.env.SESSION_IDLE_TIMEOUT_SECONDS || '1800'),
+  };
+}
+
+export interface LaunchRetryConfig {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+// Read the launch mode from PROVIDER_LAUNCH_MODE
+export function getLaunchMode(): LaunchMode {
+  return process.env.PROVIDER_LAUNCH_MODE === 'lenient' ? 'lenient' : 'strict';
+}
+
+// Read the background launch retry policy from PROVIDER_LAUNCH_MAX_ATTEMPTS and PROVIDER_LAUNCH_RETRY_SECONDS
+export function getLaunchRetryConfig(): LaunchRetryConfig {
+  return {
+    maxAttempts: parseInt(process.env.PROVIDER_LAUNCH_MAX_ATTEMPTS || '5'),
+    baseDelaySeconds: parseInt(process.env.PROVIDER_LAUNCH_RETRY_SECONDS || '5'),
+    maxDelaySeconds: 300,
+  };
+}
+
+// When to try a pending provider launch again after `attempts` failures, doubling the
+// delay each time; null once the attempts are used up and the launch has failed
+export function getNextLaunchAttempt(
+  attempts: number,
+  now: Date = new Date(),
+  config: LaunchRetryConfig = getLaunchRetryConfig()
+): Date | null {
+  if (attempts >= config.maxAttempts) return null;
+
+  const delaySeconds = Math.min(config.baseDelaySeconds * 2 ** (attempts - 1), config.maxDelaySeconds);
+  return new Date(now.getTime() + delaySeconds * 1000);
+}
+
+// A session expires a fixed time after creation, or after a period without activity
+export function isSessionExpired(
+  session: CasinoGameSession,
+  now: Date = new Date(),
+  config: SessionTtlConfig = getSessionTtlConfig()
+): boolean {
+  const createdAt = new Date(session.created_at).getTime();
+  const lastActivityAt = new Date(session.last_activity_at || session.created_at).getTime();
+
+  return (
+    now.getTime() - createdAt > config.absoluteTtlSeconds * 1000 ||
+    now.getTime() - lastActivityAt > config.idleTimeoutSeconds * 1000
+  );
+}
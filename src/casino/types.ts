@@ -1,12 +1,59 @@
 // Casino Domain Types
 
+import { SignatureMode } from '../shared/security';
+
 export interface CasinoUser {
   id: string;
   username: string;
   email: string;
+  self_excluded_until: Date | null;
+  is_locked: boolean;
+  locked_reason: string | null;
+  locked_by: string | null;
+  locked_at: Date | null;
   created_at: Date;
 }
 
+export type LimitType = 'wager' | 'loss' | 'session_duration';
+
+export type LimitPeriod = 'daily' | 'weekly' | 'monthly' | 'session';
+
+// Responsible-gaming limit; money limits are in the currency's minor units,
+// session_duration in seconds
+export interface CasinoPlayerLimit {
+  id: string;
+  user_id: string;
+  limit_type: LimitType;
+  period: LimitPeriod;
+  currency_code: string | null;
+  amount: number | null;
+  pending_amount: number | null;
+  pending_effective_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CasinoCurrency {
+  code: string;
+  name: string;
+  minor_units: number;
+  is_active: boolean;
+}
+
+export interface CasinoFxRate {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  updated_at: Date;
+}
+
+// Conversion between the currency a game runs in and the wallet it plays against
+export interface FxQuote {
+  gameCurrency: CasinoCurrency;
+  walletCurrency: CasinoCurrency;
+  rate: number;
+}
+
 export interface CasinoWallet {
   id: string;
   user_id: string;
@@ -22,19 +69,70 @@ export interface CasinoGameProvider {
   name: string;
   api_endpoint: string;
   secret_key: string;
+  signature_mode: SignatureMode;
+  supported_currencies: string[] | null;
   is_disabled: boolean;
+  disabled_reason: ProviderDisabledReason | null;
+  disabled_at: Date | null;
+  health_status: ProviderHealthStatus;
+  consecutive_failures: number;
+  last_checked_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ProviderHealthStatus = 'unknown' | 'up' | 'down';
+
+export type ProviderDisabledReason = 'manual' | 'unhealthy';
+
+export interface CasinoProviderEvent {
+  id: string;
+  provider_id: string;
+  event_type: ProviderEventType;
+  source: 'health_check' | 'operator';
+  detail: string | null;
+  operator_id: string | null;
   created_at: Date;
 }
 
+export type ProviderEventType = 'up' | 'down' | 'enabled' | 'disabled' | 'registered' | 'updated';
+
 export interface CasinoGame {
   id: string;
   provider_id: string;
   provider_game_id: string;
   name: string;
+  currency_code: string | null;
   is_active: boolean;
   min_bet: number;
   max_bet: number;
+  sync_status: GameSyncStatus;
+  sync_changes: GameSyncChange[] | null;
+  synced_at: Date | null;
   created_at: Date;
+  updated_at: Date;
+}
+
+// How a game compared with the provider's catalog at the last sync:
+//   synced  - listed by the provider and consistent with it
+//   added   - new (or listed again) at the provider; inactive until an operator reviews it
+//   changed - the provider's name or bet limits no longer match ours
+//   removed - no longer listed by the provider; deactivated
+export type GameSyncStatus = 'synced' | 'added' | 'changed' | 'removed';
+
+export interface GameSyncChange {
+  field: 'name' | 'min_bet' | 'max_bet';
+  casino: string | number;
+  provider: string | number;
+}
+
+// A game as listed by GET /provider/games
+export interface ProviderCatalogGame {
+  gameId: string;
+  name: string;
+  minBet: number;
+  maxBet: number;
 }
 
 export interface CasinoGameSession {
@@ -43,27 +141,120 @@ export interface CasinoGameSession {
   user_id: string;
   wallet_id: string;
   game_id: string;
+  currency_code: string | null;
   provider_session_id: string | null;
+  provider_launch_status: ProviderLaunchStatus;
+  provider_game_url: string | null;
+  // Hash of the provider's server seed, committed at launch and checked against the revealed seed
+  provider_seed_hash: string | null;
+  provider_launch_attempts: number;
+  provider_launch_error: string | null;
+  next_launch_attempt_at: Date | null;
   is_active: boolean;
   created_at: Date;
+  last_activity_at: Date;
   ended_at: Date | null;
 }
 
+// Whether the provider has started its side of a game session
+export type ProviderLaunchStatus = 'pending' | 'ready' | 'failed';
+
+export interface CasinoRound {
+  id: string;
+  provider_id: string;
+  external_round_id: string;
+  session_id: string | null;
+  wallet_id: string;
+  game_id: string;
+  status: CasinoRoundStatus;
+  total_wagered: number;
+  total_won: number;
+  total_rolled_back: number;
+  created_at: Date;
+  closed_at: Date | null;
+}
+
+export type CasinoRoundStatus = 'open' | 'closed';
+
 export interface CasinoTransaction {
   id: string;
   wallet_id: string;
   session_id: string | null;
+  round_id: string | null;
   transaction_type: TransactionType;
   amount: number;
   external_transaction_id: string;
   related_external_transaction_id: string | null;
   balance_after: number;
+  cash_amount: number;
+  bonus_amount: number;
+  game_currency: string | null;
+  game_amount: number | null;
+  fx_rate: number | null;
+  reason: string | null;
+  operator_id: string | null;
+  needs_review: boolean;
+  review_reason: string | null;
   response_cache: any;
   is_rollback: boolean;
   created_at: Date;
 }
 
-export type TransactionType = 'debit' | 'credit' | 'rollback';
+export type TransactionType = 'debit' | 'credit' | 'rollback' | 'adjustment';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['debit', 'credit', 'rollback', 'adjustment'];
+
+export type AdjustmentDirection = 'credit' | 'debit';
+
+export type FundsPool = 'cash' | 'bonus';
+
+export interface FundsSplit {
+  cash: number;
+  bonus: number;
+}
+
+// Double-entry journal accounts. Player accounts are per wallet, house accounts per currency.
+export type LedgerAccount =
+  | 'player_cash'
+  | 'player_bonus'
+  | 'house_wagering'
+  | 'house_payout'
+  | 'house_bonus'
+  | 'house_funding';
+
+// One line of a posting; a positive amount moves money into the account
+export interface LedgerEntryLine {
+  account: LedgerAccount;
+  amount: number;
+}
+
+export interface CasinoLedgerEntry {
+  id: string;
+  posting_id: string;
+  transaction_id: string | null;
+  wallet_id: string;
+  account: LedgerAccount;
+  currency_code: string;
+  amount: number;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface LedgerIntegrityReport {
+  success: boolean;
+  consistent: boolean;
+  checkedAt: Date;
+  accounts: { account: LedgerAccount; currency: string; balance: number }[];
+  unbalancedPostings: { postingId: string; total: number }[];
+  walletMismatches: {
+    walletId: string;
+    currency: string;
+    playableBalance: number;
+    ledgerPlayable: number;
+    redeemableBalance: number;
+    ledgerRedeemable: number;
+  }[];
+}
 
 // API Request/Response Types
 
@@ -79,7 +270,10 @@ export interface LaunchGameResponse {
   sessionToken: string;
   balance: number;
   currency: string;
-  gameUrl?: string;
+  providerStatus: ProviderLaunchStatus;
+  providerSessionId: string | null;
+  gameUrl: string | null;
+  serverSeedHash: string | null;
 }
 
 export interface GetBalanceRequest {
@@ -89,6 +283,8 @@ export interface GetBalanceRequest {
 export interface GetBalanceResponse {
   success: boolean;
   balance: number;
+  cashBalance: number;
+  bonusBalance: number;
   currency: string;
 }
 
@@ -113,6 +309,7 @@ export interface CreditRequest {
   roundId: string;
   amount: number;
   relatedTransactionId?: string;
+  isRoundFinished?: boolean;
   description?: string;
 }
 
@@ -139,9 +336,227 @@ export interface RollbackResponse {
   message?: string;
 }
 
+export interface SetPlayerLimitRequest {
+  limitType: LimitType;
+  period: LimitPeriod;
+  currency?: string;
+  amount: number | null;
+}
+
+export interface SelfExclusionRequest {
+  until?: string;
+  days?: number;
+}
+
+export interface PlayerLimitsResponse {
+  success: boolean;
+  userId: string;
+  selfExcludedUntil: Date | null;
+  limits: {
+    limitType: LimitType;
+    period: LimitPeriod;
+    currency: string | null;
+    amount: number | null;
+    pendingAmount: number | null;
+    pendingEffectiveAt: Date | null;
+  }[];
+}
+
+export interface CreateUserRequest {
+  username: string;
+  email: string;
+}
+
+export interface LockUserRequest {
+  reason: string;
+}
+
+export interface OpenWalletRequest {
+  currency: string;
+}
+
+export interface AdjustmentRequest {
+  direction: AdjustmentDirection;
+  amount: number;
+  pool?: FundsPool;
+  reason: string;
+}
+
+export interface AdjustmentResponse {
+  success: boolean;
+  transactionId: string;
+  walletId: string;
+  direction: AdjustmentDirection;
+  amount: number;
+  pool: FundsPool;
+  balance: number;
+  cashBalance: number;
+  bonusBalance: number;
+  currency: string;
+}
+
+export interface SetFxRateRequest {
+  rate: number;
+}
+
+export interface EndSessionRequest {
+  sessionToken: string;
+}
+
+export interface EndSessionResponse {
+  success: boolean;
+  sessionId: string;
+  endedAt: Date;
+  // Revealed by the provider when the session ends; null if it could not be reached
+  serverSeed: string | null;
+}
+
+export interface RoundDetailsResponse {
+  success: boolean;
+  roundId: string;
+  status: CasinoRoundStatus;
+  totalWagered: number;
+  totalWon: number;
+  totalRolledBack: number;
+  openedAt: Date;
+  closedAt: Date | null;
+  transactions: {
+    type: TransactionType;
+    transactionId: string;
+    amount: number;
+    balanceAfter: number;
+    rolledBack: boolean;
+    createdAt: Date;
+  }[];
+}
+
+export interface RegisterProviderRequest {
+  code: string;
+  name: string;
+  apiEndpoint: string;
+  secretKey: string;
+  signatureMode?: SignatureMode;
+  supportedCurrencies?: string[] | null;
+}
+
+export interface UpdateProviderRequest {
+  name?: string;
+  apiEndpoint?: string;
+  secretKey?: string;
+  signatureMode?: SignatureMode;
+  supportedCurrencies?: string[] | null;
+}
+
+export interface DisableProviderRequest {
+  reason: string;
+}
+
+export interface CreateGameRequest {
+  providerCode: string;
+  providerGameId: string;
+  name: string;
+  currency?: string | null;
+  minBet?: number;
+  maxBet?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateGameRequest {
+  providerGameId?: string;
+  name?: string;
+  currency?: string | null;
+  minBet?: number;
+  maxBet?: number;
+  isActive?: boolean;
+}
+
+export interface CatalogSyncReport {
+  providerCode: string;
+  added: string[];
+  removed: string[];
+  changed: {
+    providerGameId: string;
+    changes: GameSyncChange[];
+  }[];
+  unchanged: number;
+  syncedAt: Date;
+}
+
+// History rows carry the provider round ID and a cursor-ready timestamp
+export interface TransactionHistoryRow extends CasinoTransaction {
+  external_round_id: string | null;
+  cursor_created_at: string;
+}
+
+export interface TransactionHistoryFilters {
+  type?: string;
+  from?: string;
+  to?: string;
+  sessionId?: string;
+  roundId?: string;
+  externalId?: string;
+}
+
+export interface TransactionHistoryItem {
+  transactionId: string;
+  type: TransactionType;
+  amount: number;
+  balanceAfter: number;
+  cashAmount: number;
+  bonusAmount: number;
+  gameCurrency: string | null;
+  gameAmount: number | null;
+  fxRate: number | null;
+  sessionId: string | null;
+  roundId: string | null;
+  relatedTransactionId: string | null;
+  rolledBack: boolean;
+  needsReview: boolean;
+  reviewReason: string | null;
+  reason: string | null;
+  operatorId: string | null;
+  createdAt: Date;
+}
+
+export interface TransactionHistoryResponse {
+  success: boolean;
+  walletId: string;
+  currency: string;
+  transactions: TransactionHistoryItem[];
+  nextCursor: string | null;
+}
+
+export interface SessionSummary {
+  wagered: number;
+  won: number;
+  rolledBack: number;
+  transactionCount: number;
+  roundCount: number;
+}
+
+export interface SessionSummaryResponse extends SessionSummary {
+  success: boolean;
+  sessionId: string;
+  userId: string;
+  walletId: string;
+  gameId: string;
+  currency: string;
+  gameCurrency: string | null;
+  isActive: boolean;
+  providerStatus: ProviderLaunchStatus;
+  providerSessionId: string | null;
+  gameUrl: string | null;
+  serverSeedHash: string | null;
+  net: number;
+  startedAt: Date;
+  lastActivityAt: Date;
+  endedAt: Date | null;
+}
+
 export interface SimulateRoundRequest {
   userId: string;
   gameId: string;
+  currency?: string;
   bets: {
     amount: number;
     type?: string;
@@ -169,13 +584,63 @@ export interface SimulateRoundResponse {
   currency: string;
 }
 
+// Casino -> Provider API (see providerClient.ts)
+
+export interface ProviderLaunchCall {
+  playerId: string;
+  gameId: string;
+  sessionToken: string;
+  currency: string;
+  balance: number;
+}
+
+export interface ProviderLaunchResult {
+  providerSessionId: string;
+  gameUrl: string | null;
+  playerId: string | null;
+  serverSeedHash: string | null;
+}
+
+export interface ProviderEndSessionResult {
+  providerSessionId: string;
+  serverSeed: string;
+  serverSeedHash: string;
+}
+
+export interface ProviderSimulateAction {
+  type: 'balance_check' | 'bet' | 'payout' | 'rollback';
+  amount?: number;
+  betIndex?: number;
+}
+
+export interface ProviderSimulateCall {
+  sessionToken: string;
+  gameId: string;
+  actions: ProviderSimulateAction[];
+}
+
+export interface ProviderSimulateResult {
+  roundId: string;
+  results: {
+    action: string;
+    transactionId?: string;
+    amount?: number;
+    balanceAfter?: number;
+    success: boolean;
+    error?: string;
+    code?: string;
+  }[];
+  finalBalance: number;
+}
+
 // Error Types
 
 export class CasinoError extends Error {
   constructor(
     message: string,
     public code: string,
-    public statusCode: number = 400
+    public statusCode: number = 400,
+    public details?: any
   ) {
     super(message);
     this.name = 'CasinoError';
@@ -195,4 +660,37 @@ export const ErrorCodes = {
   ROLLBACK_NOT_ALLOWED: 'ROLLBACK_NOT_ALLOWED',
   ALREADY_ROLLED_BACK: 'ALREADY_ROLLED_BACK',
   CANNOT_ROLLBACK_PAYOUT: 'CANNOT_ROLLBACK_PAYOUT',
+  BET_LIMIT_EXCEEDED: 'BET_LIMIT_EXCEEDED',
+  SIGNING_KEY_UNAVAILABLE: 'SIGNING_KEY_UNAVAILABLE',
+  ROUND_NOT_FOUND: 'ROUND_NOT_FOUND',
+  ROUND_CLOSED: 'ROUND_CLOSED',
+  ROUND_MISMATCH: 'ROUND_MISMATCH',
+  RELATED_TRANSACTION_NOT_FOUND: 'RELATED_TRANSACTION_NOT_FOUND',
+  RELATED_TRANSACTION_MISMATCH: 'RELATED_TRANSACTION_MISMATCH',
+  RELATED_TRANSACTION_ROLLED_BACK: 'RELATED_TRANSACTION_ROLLED_BACK',
+  IDEMPOTENCY_CONFLICT: 'IDEMPOTENCY_CONFLICT',
+  UNSUPPORTED_CURRENCY: 'UNSUPPORTED_CURRENCY',
+  CURRENCY_NOT_SUPPORTED: 'CURRENCY_NOT_SUPPORTED',
+  CURRENCY_MISMATCH: 'CURRENCY_MISMATCH',
+  FX_RATE_UNAVAILABLE: 'FX_RATE_UNAVAILABLE',
+  INVALID_FX_RATE: 'INVALID_FX_RATE',
+  RESPONSIBLE_GAMING_LIMIT: 'RESPONSIBLE_GAMING_LIMIT',
+  INVALID_LIMIT: 'INVALID_LIMIT',
+  USER_EXISTS: 'USER_EXISTS',
+  USER_LOCKED: 'USER_LOCKED',
+  WALLET_NOT_FOUND: 'WALLET_NOT_FOUND',
+  INVALID_ADJUSTMENT: 'INVALID_ADJUSTMENT',
+  SESSION_NOT_FOUND: 'SESSION_NOT_FOUND',
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  INVALID_FILTER: 'INVALID_FILTER',
+  GAME_EXISTS: 'GAME_EXISTS',
+  GAME_IN_USE: 'GAME_IN_USE',
+  INVALID_GAME_CONFIG: 'INVALID_GAME_CONFIG',
+  CATALOG_SYNC_FAILED: 'CATALOG_SYNC_FAILED',
+  PROVIDER_EXISTS: 'PROVIDER_EXISTS',
+  PROVIDER_UNAVAILABLE: 'PROVIDER_UNAVAILABLE',
+  INVALID_PROVIDER_CONFIG: 'INVALID_PROVIDER_CONFIG',
+  PROVIDER_TIMEOUT: 'PROVIDER_TIMEOUT',
+  PROVIDER_REJECTED: 'PROVIDER_REJECTED',
+  PROVIDER_BAD_RESPONSE: 'PROVIDER_BAD_RESPONSE',
 } as const;
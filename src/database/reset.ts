@@ -6,16 +6,29 @@ async function reset() {
   try {
     // Drop all tables in reverse order of dependencies
     await pool.query(`
+      DROP TABLE IF EXISTS provider_outbox CASCADE;
       DROP TABLE IF EXISTS provider_bets CASCADE;
       DROP TABLE IF EXISTS provider_game_rounds CASCADE;
+      DROP TABLE IF EXISTS provider_sessions CASCADE;
       DROP TABLE IF EXISTS provider_casino_users CASCADE;
+      DROP TABLE IF EXISTS provider_key_audit_log CASCADE;
+      DROP TABLE IF EXISTS provider_casino_keys CASCADE;
       DROP TABLE IF EXISTS provider_casinos CASCADE;
       DROP TABLE IF EXISTS provider_games CASCADE;
+      DROP TABLE IF EXISTS casino_ledger_entries CASCADE;
       DROP TABLE IF EXISTS casino_transactions CASCADE;
+      DROP TABLE IF EXISTS casino_rounds CASCADE;
       DROP TABLE IF EXISTS casino_game_sessions CASCADE;
       DROP TABLE IF EXISTS casino_games CASCADE;
+      DROP TABLE IF EXISTS casino_key_audit_log CASCADE;
+      DROP TABLE IF EXISTS casino_provider_keys CASCADE;
+      DROP TABLE IF EXISTS casino_provider_events CASCADE;
       DROP TABLE IF EXISTS casino_game_providers CASCADE;
       DROP TABLE IF EXISTS casino_wallets CASCADE;
+      DROP TABLE IF EXISTS casino_fx_rates CASCADE;
+      DROP TABLE IF EXISTS casino_currencies CASCADE;
+      DROP TABLE IF EXISTS casino_player_limits CASCADE;
+      DROP TABLE IF EXISTS casino_user_events CASCADE;
       DROP TABLE IF EXISTS casino_users CASCADE;
     `);
     
@@ -2,6 +2,10 @@
 -- CASINO & GAME PROVIDER INTEGRATION - DATABASE SCHEMA
 -- =====================================================
 
+-- Tables are created in their current shape. The ALTER statements following a table
+-- bring databases created by earlier versions up to date, so every statement here is
+-- idempotent and the file can be re-run by db:migrate at any time.
+
 -- ===================
 -- CASINO DOMAIN (CASINO_*)
 -- ===================
@@ -11,22 +15,107 @@ CREATE TABLE IF NOT EXISTS casino_users (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
     username VARCHAR(255) NOT NULL UNIQUE,
     email VARCHAR(255) NOT NULL UNIQUE,
+    self_excluded_until TIMESTAMP WITH TIME ZONE,
+    is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+    locked_reason VARCHAR(500),
+    locked_by VARCHAR(255),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE casino_users
+    ADD COLUMN IF NOT EXISTS self_excluded_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS locked_reason VARCHAR(500),
+    ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+
+-- Operator actions on player accounts (lock/unlock)
+CREATE TABLE IF NOT EXISTS casino_user_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    user_id UUID NOT NULL REFERENCES casino_users (id) ON DELETE CASCADE,
+    event_type VARCHAR(20) NOT NULL,
+    reason VARCHAR(500),
+    operator_id VARCHAR(255) NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Currency registry; amounts are stored in each currency's minor units
+CREATE TABLE IF NOT EXISTS casino_currencies (
+    code VARCHAR(10) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    minor_units SMALLINT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    CONSTRAINT valid_minor_units CHECK (minor_units BETWEEN 0 AND 18)
+);
+
+INSERT INTO casino_currencies (code, name, minor_units)
+VALUES
+    ('USD', 'US Dollar', 2),
+    ('EUR', 'Euro', 2),
+    ('GBP', 'Pound Sterling', 2),
+    ('JPY', 'Japanese Yen', 0),
+    ('BTC', 'Bitcoin', 8)
+ON CONFLICT (code) DO NOTHING;
+
+-- Exchange rates: 1 unit of base_currency is worth rate units of quote_currency
+CREATE TABLE IF NOT EXISTS casino_fx_rates (
+    base_currency VARCHAR(10) NOT NULL REFERENCES casino_currencies (code),
+    quote_currency VARCHAR(10) NOT NULL REFERENCES casino_currencies (code),
+    rate NUMERIC(30, 12) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (base_currency, quote_currency),
+    CONSTRAINT positive_fx_rate CHECK (rate > 0)
+);
+
+-- Responsible-gaming limits; a pending change takes effect at pending_effective_at
+CREATE TABLE IF NOT EXISTS casino_player_limits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    user_id UUID NOT NULL REFERENCES casino_users (id) ON DELETE CASCADE,
+    limit_type VARCHAR(30) NOT NULL,
+    period VARCHAR(20) NOT NULL,
+    currency_code VARCHAR(10) REFERENCES casino_currencies (code),
+    amount BIGINT,
+    pending_amount BIGINT,
+    pending_effective_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_limit CHECK (
+        (limit_type IN ('wager', 'loss') AND period IN ('daily', 'weekly', 'monthly') AND currency_code IS NOT NULL)
+        OR (limit_type = 'session_duration' AND period = 'session' AND currency_code IS NULL)
+    ),
+    CONSTRAINT positive_limit CHECK (amount > 0 AND pending_amount > 0)
+);
+
 -- Authoritative balances per user and currency
 CREATE TABLE IF NOT EXISTS casino_wallets (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
     user_id UUID NOT NULL REFERENCES casino_users (id) ON DELETE CASCADE,
-    currency_code VARCHAR(10) NOT NULL DEFAULT 'USD',
+    currency_code VARCHAR(10) NOT NULL DEFAULT 'USD' REFERENCES casino_currencies (code),
     playable_balance BIGINT NOT NULL DEFAULT 0,
     redeemable_balance BIGINT NOT NULL DEFAULT 0,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE (user_id, currency_code),
     CONSTRAINT positive_playable_balance CHECK (playable_balance >= 0),
-    CONSTRAINT positive_redeemable_balance CHECK (redeemable_balance >= 0)
+    CONSTRAINT positive_redeemable_balance CHECK (redeemable_balance >= 0),
+    CONSTRAINT redeemable_within_playable CHECK (redeemable_balance <= playable_balance)
 );
 
+-- ADD CONSTRAINT has no IF NOT EXISTS; an existing constraint raises duplicate_object
+DO $$
+BEGIN
+    ALTER TABLE casino_wallets
+        ADD CONSTRAINT redeemable_within_playable CHECK (redeemable_balance <= playable_balance);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+    ALTER TABLE casino_wallets
+        ADD CONSTRAINT casino_wallets_currency_code_fkey FOREIGN KEY (currency_code) REFERENCES casino_currencies (code);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
 -- Provider registry and credentials
 CREATE TABLE IF NOT EXISTS casino_game_providers (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
@@ -34,7 +123,64 @@ CREATE TABLE IF NOT EXISTS casino_game_providers (
     name VARCHAR(255) NOT NULL,
     api_endpoint VARCHAR(500) NOT NULL,
     secret_key VARCHAR(255) NOT NULL,
+    signature_mode VARCHAR(20) NOT NULL DEFAULT 'raw',
+    supported_currencies VARCHAR(10)[],
     is_disabled BOOLEAN NOT NULL DEFAULT FALSE,
+    -- 'manual' (operator) or 'unhealthy' (health checks); only the latter re-enables itself
+    disabled_reason VARCHAR(20),
+    disabled_at TIMESTAMP WITH TIME ZONE,
+    health_status VARCHAR(20) NOT NULL DEFAULT 'unknown',
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    last_error VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE casino_game_providers
+    ADD COLUMN IF NOT EXISTS signature_mode VARCHAR(20) NOT NULL DEFAULT 'raw',
+    ADD COLUMN IF NOT EXISTS supported_currencies VARCHAR(10)[],
+    ADD COLUMN IF NOT EXISTS disabled_reason VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS health_status VARCHAR(20) NOT NULL DEFAULT 'unknown',
+    ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_error VARCHAR(500),
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Availability history per provider: health transitions and enable/disable actions
+CREATE TABLE IF NOT EXISTS casino_provider_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    provider_id UUID NOT NULL REFERENCES casino_game_providers (id) ON DELETE CASCADE,
+    event_type VARCHAR(20) NOT NULL,
+    source VARCHAR(20) NOT NULL,
+    detail VARCHAR(500),
+    operator_id VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Rotating signing keys per provider (inbound verifies callbacks, outbound signs calls)
+CREATE TABLE IF NOT EXISTS casino_provider_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    partner_id UUID NOT NULL REFERENCES casino_game_providers (id) ON DELETE CASCADE,
+    direction VARCHAR(20) NOT NULL,
+    slot VARCHAR(20) NOT NULL,
+    secret_key VARCHAR(255) NOT NULL,
+    activates_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT casino_provider_keys_slot UNIQUE (partner_id, direction, slot) DEFERRABLE INITIALLY DEFERRED
+);
+
+-- Audit trail of provider key rotation events
+CREATE TABLE IF NOT EXISTS casino_key_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    partner_id UUID NOT NULL REFERENCES casino_game_providers (id) ON DELETE CASCADE,
+    direction VARCHAR(20) NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    key_fingerprint VARCHAR(64) NOT NULL,
+    operator VARCHAR(255) NOT NULL,
+    details JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -44,13 +190,34 @@ CREATE TABLE IF NOT EXISTS casino_games (
     provider_id UUID NOT NULL REFERENCES casino_game_providers (id) ON DELETE CASCADE,
     provider_game_id VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
+    currency_code VARCHAR(10) REFERENCES casino_currencies (code),
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
     min_bet BIGINT NOT NULL DEFAULT 100,
     max_bet BIGINT NOT NULL DEFAULT 100000,
+    -- Result of the last comparison with the provider's catalog
+    sync_status VARCHAR(20) NOT NULL DEFAULT 'synced',
+    sync_changes JSONB,
+    synced_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE (provider_id, provider_game_id)
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (provider_id, provider_game_id),
+    CONSTRAINT valid_bet_range CHECK (min_bet > 0 AND max_bet >= min_bet)
 );
 
+ALTER TABLE casino_games
+    ADD COLUMN IF NOT EXISTS currency_code VARCHAR(10) REFERENCES casino_currencies (code),
+    ADD COLUMN IF NOT EXISTS sync_status VARCHAR(20) NOT NULL DEFAULT 'synced',
+    ADD COLUMN IF NOT EXISTS sync_changes JSONB,
+    ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+DO $$
+BEGIN
+    ALTER TABLE casino_games
+        ADD CONSTRAINT valid_bet_range CHECK (min_bet > 0 AND max_bet >= min_bet);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
 -- Session linking user, wallet, game, and provider session
 CREATE TABLE IF NOT EXISTS casino_game_sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
@@ -58,28 +225,127 @@ CREATE TABLE IF NOT EXISTS casino_game_sessions (
     user_id UUID NOT NULL REFERENCES casino_users (id) ON DELETE CASCADE,
     wallet_id UUID NOT NULL REFERENCES casino_wallets (id) ON DELETE CASCADE,
     game_id UUID NOT NULL REFERENCES casino_games (id) ON DELETE CASCADE,
+    currency_code VARCHAR(10) REFERENCES casino_currencies (code),
     provider_session_id VARCHAR(255),
+    -- pending until the provider starts its side; failed once launch retries run out
+    provider_launch_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    provider_game_url VARCHAR(1000),
+    provider_seed_hash VARCHAR(64),
+    provider_launch_attempts INTEGER NOT NULL DEFAULT 0,
+    provider_launch_error VARCHAR(500),
+    next_launch_attempt_at TIMESTAMP WITH TIME ZONE,
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     ended_at TIMESTAMP WITH TIME ZONE
 );
 
--- Ledger of bets, payouts, rollbacks and idempotency cache
+ALTER TABLE casino_game_sessions
+    ADD COLUMN IF NOT EXISTS currency_code VARCHAR(10) REFERENCES casino_currencies (code),
+    ADD COLUMN IF NOT EXISTS provider_launch_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    ADD COLUMN IF NOT EXISTS provider_game_url VARCHAR(1000),
+    ADD COLUMN IF NOT EXISTS provider_seed_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS provider_launch_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS provider_launch_error VARCHAR(500),
+    ADD COLUMN IF NOT EXISTS next_launch_attempt_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Sessions launched before launch tracking already have their provider session
+UPDATE casino_game_sessions
+SET provider_launch_status = 'ready'
+WHERE provider_launch_status = 'pending' AND provider_session_id IS NOT NULL;
+
+-- Provider game rounds as seen by the casino, keyed by the provider's round ID
+CREATE TABLE IF NOT EXISTS casino_rounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    provider_id UUID NOT NULL REFERENCES casino_game_providers (id) ON DELETE CASCADE,
+    external_round_id VARCHAR(255) NOT NULL,
+    session_id UUID REFERENCES casino_game_sessions (id) ON DELETE SET NULL,
+    wallet_id UUID NOT NULL REFERENCES casino_wallets (id) ON DELETE CASCADE,
+    game_id UUID NOT NULL REFERENCES casino_games (id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'open',
+    total_wagered BIGINT NOT NULL DEFAULT 0,
+    total_won BIGINT NOT NULL DEFAULT 0,
+    total_rolled_back BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (provider_id, external_round_id)
+);
+
+-- Ledger of bets, payouts, rollbacks, manual adjustments and idempotency cache
 CREATE TABLE IF NOT EXISTS casino_transactions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
     wallet_id UUID NOT NULL REFERENCES casino_wallets (id) ON DELETE CASCADE,
     session_id UUID REFERENCES casino_game_sessions (id) ON DELETE SET NULL,
+    round_id UUID REFERENCES casino_rounds (id) ON DELETE SET NULL,
     transaction_type VARCHAR(50) NOT NULL,
     amount BIGINT NOT NULL,
     external_transaction_id VARCHAR(255) NOT NULL,
     related_external_transaction_id VARCHAR(255),
     balance_after BIGINT NOT NULL,
+    cash_amount BIGINT NOT NULL DEFAULT 0,
+    bonus_amount BIGINT NOT NULL DEFAULT 0,
+    game_currency VARCHAR(10),
+    game_amount BIGINT,
+    fx_rate NUMERIC(30, 12),
+    reason VARCHAR(500),
+    operator_id VARCHAR(255),
+    needs_review BOOLEAN NOT NULL DEFAULT FALSE,
+    review_reason VARCHAR(100),
     response_cache JSONB,
     is_rollback BOOLEAN NOT NULL DEFAULT FALSE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE (external_transaction_id)
 );
 
+ALTER TABLE casino_transactions
+    ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES casino_rounds (id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS cash_amount BIGINT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS bonus_amount BIGINT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS game_currency VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS game_amount BIGINT,
+    ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(30, 12),
+    ADD COLUMN IF NOT EXISTS reason VARCHAR(500),
+    ADD COLUMN IF NOT EXISTS operator_id VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS review_reason VARCHAR(100);
+
+-- Double-entry journal; the entries of each posting sum to zero
+CREATE TABLE IF NOT EXISTS casino_ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    posting_id UUID NOT NULL,
+    transaction_id UUID REFERENCES casino_transactions (id) ON DELETE CASCADE,
+    wallet_id UUID NOT NULL REFERENCES casino_wallets (id) ON DELETE CASCADE,
+    account VARCHAR(50) NOT NULL,
+    currency_code VARCHAR(10) NOT NULL,
+    amount BIGINT NOT NULL,
+    description VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_ledger_account CHECK (
+        account IN ('player_cash', 'player_bonus', 'house_wagering', 'house_payout', 'house_bonus', 'house_funding')
+    )
+);
+
+-- Opening balances for wallets that predate the journal
+WITH opening AS (
+    SELECT
+        id AS wallet_id,
+        currency_code,
+        redeemable_balance AS cash,
+        playable_balance - redeemable_balance AS bonus,
+        gen_random_uuid () AS posting_id
+    FROM casino_wallets w
+    WHERE playable_balance > 0
+      AND NOT EXISTS (SELECT 1 FROM casino_ledger_entries e WHERE e.wallet_id = w.id)
+)
+INSERT INTO casino_ledger_entries (posting_id, wallet_id, account, currency_code, amount, description)
+SELECT posting_id, wallet_id, line.account, currency_code, line.amount, 'opening balance'
+FROM opening
+CROSS JOIN LATERAL (
+    VALUES ('house_funding', -cash), ('player_cash', cash), ('house_bonus', -bonus), ('player_bonus', bonus)
+) AS line (account, amount)
+WHERE line.amount <> 0;
+
 -- Index for faster lookups
 CREATE INDEX IF NOT EXISTS idx_casino_transactions_external_id ON casino_transactions (external_transaction_id);
 
@@ -87,10 +353,37 @@ CREATE INDEX IF NOT EXISTS idx_casino_transactions_session ON casino_transaction
 
 CREATE INDEX IF NOT EXISTS idx_casino_transactions_wallet ON casino_transactions (wallet_id);
 
+CREATE INDEX IF NOT EXISTS idx_casino_transactions_round ON casino_transactions (round_id);
+
+CREATE INDEX IF NOT EXISTS idx_casino_transactions_review ON casino_transactions (needs_review) WHERE needs_review;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_casino_player_limits_unique ON casino_player_limits (user_id, limit_type, period, COALESCE(currency_code, ''));
+
+-- Keyset order for wallet history pages
+CREATE INDEX IF NOT EXISTS idx_casino_transactions_wallet_history ON casino_transactions (wallet_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_casino_ledger_entries_wallet ON casino_ledger_entries (wallet_id, account);
+
+CREATE INDEX IF NOT EXISTS idx_casino_ledger_entries_transaction ON casino_ledger_entries (transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_casino_ledger_entries_posting ON casino_ledger_entries (posting_id);
+
+CREATE INDEX IF NOT EXISTS idx_casino_rounds_session ON casino_rounds (session_id);
+
+CREATE INDEX IF NOT EXISTS idx_casino_game_sessions_launch_retry ON casino_game_sessions (next_launch_attempt_at) WHERE provider_launch_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_casino_provider_events_provider ON casino_provider_events (provider_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_casino_user_events_user ON casino_user_events (user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_casino_games_sync_status ON casino_games (sync_status) WHERE sync_status <> 'synced';
+
 CREATE INDEX IF NOT EXISTS idx_casino_game_sessions_token ON casino_game_sessions (token);
 
 CREATE INDEX IF NOT EXISTS idx_casino_game_sessions_user ON casino_game_sessions (user_id);
 
+CREATE INDEX IF NOT EXISTS idx_casino_game_sessions_active ON casino_game_sessions (is_active, last_activity_at);
+
 -- ===================
 -- PROVIDER DOMAIN (PROVIDER_*)
 -- ===================
@@ -103,19 +396,54 @@ CREATE TABLE IF NOT EXISTS provider_games (
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
     min_bet BIGINT NOT NULL DEFAULT 100,
     max_bet BIGINT NOT NULL DEFAULT 100000,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    engine VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+ALTER TABLE provider_games
+    ADD COLUMN IF NOT EXISTS engine VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
 -- Mapping of casino partners
 CREATE TABLE IF NOT EXISTS provider_casinos (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
     casino_code VARCHAR(50) NOT NULL UNIQUE,
     casino_api_endpoint VARCHAR(500) NOT NULL,
     secret_key VARCHAR(255) NOT NULL,
+    signature_mode VARCHAR(20) NOT NULL DEFAULT 'raw',
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+ALTER TABLE provider_casinos
+    ADD COLUMN IF NOT EXISTS signature_mode VARCHAR(20) NOT NULL DEFAULT 'raw';
+
+-- Rotating signing keys per casino partner (inbound verifies requests, outbound signs callbacks)
+CREATE TABLE IF NOT EXISTS provider_casino_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    partner_id UUID NOT NULL REFERENCES provider_casinos (id) ON DELETE CASCADE,
+    direction VARCHAR(20) NOT NULL,
+    slot VARCHAR(20) NOT NULL,
+    secret_key VARCHAR(255) NOT NULL,
+    activates_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT provider_casino_keys_slot UNIQUE (partner_id, direction, slot) DEFERRABLE INITIALLY DEFERRED
+);
+
+-- Audit trail of casino partner key rotation events
+CREATE TABLE IF NOT EXISTS provider_key_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    partner_id UUID NOT NULL REFERENCES provider_casinos (id) ON DELETE CASCADE,
+    direction VARCHAR(20) NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    key_fingerprint VARCHAR(64) NOT NULL,
+    operator VARCHAR(255) NOT NULL,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Mapping of casino players to provider customers
 CREATE TABLE IF NOT EXISTS provider_casino_users (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
@@ -126,21 +454,125 @@ CREATE TABLE IF NOT EXISTS provider_casino_users (
     UNIQUE (casino_code, external_user_id)
 );
 
+-- Game sessions issued on casino launches, keyed by the casino's session token
+CREATE TABLE IF NOT EXISTS provider_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    provider_session_id VARCHAR(255) NOT NULL UNIQUE,
+    casino_id UUID NOT NULL REFERENCES provider_casinos (id) ON DELETE CASCADE,
+    session_token VARCHAR(255) NOT NULL,
+    player_id UUID NOT NULL REFERENCES provider_casino_users (id) ON DELETE CASCADE,
+    game_id UUID NOT NULL REFERENCES provider_games (id) ON DELETE CASCADE,
+    currency VARCHAR(10) NOT NULL,
+    server_seed VARCHAR(64) NOT NULL,
+    server_seed_hash VARCHAR(64) NOT NULL,
+    next_nonce INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (casino_id, session_token)
+);
+
+ALTER TABLE provider_sessions
+    ADD COLUMN IF NOT EXISTS server_seed VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS server_seed_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS next_nonce INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+-- Sessions from before expiry are treated as expired; sessions from before seeds get
+-- a fresh one, which only matters for display as none of their rounds used it
+UPDATE provider_sessions SET expires_at = CURRENT_TIMESTAMP WHERE expires_at IS NULL;
+
+UPDATE provider_sessions
+SET server_seed = replace(gen_random_uuid ()::text || gen_random_uuid ()::text, '-', '')
+WHERE server_seed IS NULL;
+
+UPDATE provider_sessions
+SET server_seed_hash = encode(sha256(convert_to(server_seed, 'UTF8')), 'hex')
+WHERE server_seed_hash IS NULL;
+
+ALTER TABLE provider_sessions
+    ALTER COLUMN server_seed SET NOT NULL,
+    ALTER COLUMN server_seed_hash SET NOT NULL,
+    ALTER COLUMN expires_at SET NOT NULL;
+
 -- Grouping of bets and payouts per round
 CREATE TABLE IF NOT EXISTS provider_game_rounds (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
     round_id VARCHAR(255) NOT NULL UNIQUE,
     player_id UUID NOT NULL REFERENCES provider_casino_users (id) ON DELETE CASCADE,
     game_id UUID NOT NULL REFERENCES provider_games (id) ON DELETE CASCADE,
-    session_id VARCHAR(255) NOT NULL,
+    session_id UUID NOT NULL REFERENCES provider_sessions (id) ON DELETE CASCADE,
     currency VARCHAR(10) NOT NULL DEFAULT 'USD',
     status VARCHAR(50) NOT NULL DEFAULT 'open',
     total_bet_amount BIGINT NOT NULL DEFAULT 0,
     total_payout_amount BIGINT NOT NULL DEFAULT 0,
+    server_seed_hash VARCHAR(64),
+    client_seed VARCHAR(64),
+    nonce INTEGER,
+    bet JSONB,
+    outcome JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     closed_at TIMESTAMP WITH TIME ZONE
 );
 
+ALTER TABLE provider_game_rounds
+    ADD COLUMN IF NOT EXISTS server_seed_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS client_seed VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS nonce INTEGER,
+    ADD COLUMN IF NOT EXISTS bet JSONB,
+    ADD COLUMN IF NOT EXISTS outcome JSONB;
+
+-- session_id used to hold the casino's session token. Give those rounds an ended provider
+-- session per token and point session_id at it. Rounds of unregistered casinos stop the
+-- migration at SET NOT NULL and have to be resolved by hand.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'provider_game_rounds'
+          AND column_name = 'session_id'
+          AND data_type = 'character varying'
+    ) THEN
+        ALTER TABLE provider_game_rounds RENAME COLUMN session_id TO legacy_session_token;
+
+        INSERT INTO provider_sessions (provider_session_id, casino_id, session_token, player_id, game_id, currency, server_seed, server_seed_hash, expires_at, ended_at)
+        SELECT
+            'psess_' || gen_random_uuid (), casino_id, session_token, player_id, game_id, currency,
+            seed, encode(sha256(convert_to(seed, 'UTF8')), 'hex'), started_at, started_at
+        FROM (
+            SELECT DISTINCT ON (c.id, r.legacy_session_token)
+                c.id AS casino_id,
+                r.legacy_session_token AS session_token,
+                r.player_id,
+                r.game_id,
+                r.currency,
+                r.created_at AS started_at,
+                replace(gen_random_uuid ()::text || gen_random_uuid ()::text, '-', '') AS seed
+            FROM provider_game_rounds r
+            JOIN provider_casino_users u ON u.id = r.player_id
+            JOIN provider_casinos c ON c.casino_code = u.casino_code
+            ORDER BY c.id, r.legacy_session_token, r.created_at
+        ) legacy
+        ON CONFLICT (casino_id, session_token) DO NOTHING;
+
+        ALTER TABLE provider_game_rounds
+            ADD COLUMN session_id UUID REFERENCES provider_sessions (id) ON DELETE CASCADE;
+
+        UPDATE provider_game_rounds r
+        SET session_id = s.id
+        FROM provider_casino_users u, provider_casinos c, provider_sessions s
+        WHERE u.id = r.player_id
+          AND c.casino_code = u.casino_code
+          AND s.casino_id = c.id
+          AND s.session_token = r.legacy_session_token;
+
+        ALTER TABLE provider_game_rounds
+            ALTER COLUMN session_id SET NOT NULL,
+            DROP COLUMN legacy_session_token;
+    END IF;
+END $$;
+
 -- Each transaction attempt and casino response
 CREATE TABLE IF NOT EXISTS provider_bets (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
@@ -156,6 +588,22 @@ CREATE TABLE IF NOT EXISTS provider_bets (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Credits and rollbacks awaiting acknowledgement from the casino, resent with the same transaction_id
+CREATE TABLE IF NOT EXISTS provider_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid (),
+    casino_id UUID NOT NULL REFERENCES provider_casinos (id) ON DELETE CASCADE,
+    operation VARCHAR(20) NOT NULL,
+    transaction_id VARCHAR(255) NOT NULL UNIQUE,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_error VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Index for faster lookups
 CREATE INDEX IF NOT EXISTS idx_provider_bets_transaction ON provider_bets (transaction_id);
 
@@ -165,4 +613,8 @@ CREATE INDEX IF NOT EXISTS idx_provider_game_rounds_round_id ON provider_game_ro
 
 CREATE INDEX IF NOT EXISTS idx_provider_game_rounds_player ON provider_game_rounds (player_id);
 
-CREATE INDEX IF NOT EXISTS idx_provider_casino_users_casino ON provider_casino_users (casino_code, external_user_id);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_provider_game_rounds_session ON provider_game_rounds (session_id);
+
+CREATE INDEX IF NOT EXISTS idx_provider_casino_users_casino ON provider_casino_users (casino_code, external_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_provider_outbox_due ON provider_outbox (next_attempt_at) WHERE status = 'pending';
@@ -1,5 +1,8 @@
-import { pool } from './connection';
+import { pool, transaction } from './connection';
 import { v4 as uuidv4 } from 'uuid';
+import { fundingEntries, postEntries } from '../casino/ledger';
+import { getPoolBalances } from '../casino/funds';
+import { FundsSplit } from '../casino/types';
 
 async function seed() {
   console.log('🌱 Starting database seeding...');
@@ -26,17 +29,43 @@ async function seed() {
     await pool.query(`
       INSERT INTO casino_wallets (id, user_id, currency_code, playable_balance, redeemable_balance)
       VALUES 
-        ($1, $3, 'USD', 10000000, 5000000),
-        ($2, $4, 'USD', 5000000, 2500000)
-      ON CONFLICT (user_id, currency_code) DO UPDATE 
-      SET playable_balance = EXCLUDED.playable_balance,
-          redeemable_balance = EXCLUDED.redeemable_balance
+        ($1, $3, 'USD', 0, 0),
+        ($2, $4, 'USD', 0, 0)
+      ON CONFLICT (user_id, currency_code) DO NOTHING
     `, [wallet1Id, wallet2Id, user1Id, user2Id]);
     
+    // Fund them through the ledger, topping up (or down) to the seed balances
+    const seedBalances: Record<string, FundsSplit> = {
+      player1: { cash: 5000000, bonus: 5000000 },
+      player2: { cash: 2500000, bonus: 2500000 }
+    };
+    
+    for (const [username, target] of Object.entries(seedBalances)) {
+      await transaction(async (client) => {
+        const walletResult = await client.query(
+          `SELECT w.* FROM casino_wallets w
+           JOIN casino_users u ON u.id = w.user_id
+           WHERE u.username = $1 AND w.currency_code = 'USD'
+           FOR UPDATE OF w`,
+          [username]
+        );
+        const wallet = walletResult.rows[0];
+        const current = getPoolBalances(wallet);
+        
+        await postEntries(
+          client,
+          wallet,
+          fundingEntries({ cash: target.cash - current.cash, bonus: target.bonus - current.bonus }),
+          { description: 'seed balance' }
+        );
+      });
+    }
+    
     console.log('✅ Created wallets (100.00 USD and 50.00 USD in cents)');
     
-    // Create game provider
+    // Create game provider; both registries hold the same secret for the pair
     const providerId = uuidv4();
+    const partnerSecret = process.env.PARTNER_SECRET || 'partner_secret_key_change_in_production';
     
     await pool.query(`
       INSERT INTO casino_game_providers (id, code, name, api_endpoint, secret_key)
@@ -44,7 +73,7 @@ async function seed() {
       ON CONFLICT (code) DO UPDATE
       SET api_endpoint = EXCLUDED.api_endpoint,
           secret_key = EXCLUDED.secret_key
-    `, [providerId, process.env.PROVIDER_SECRET || 'provider_secret_key_change_in_production']);
+    `, [providerId, partnerSecret]);
     
     console.log('✅ Created game provider (JAQPOT)');
     
@@ -64,10 +93,10 @@ async function seed() {
         
     // Create provider games
     await pool.query(`
-      INSERT INTO provider_games (game_id, name, min_bet, max_bet)
+      INSERT INTO provider_games (game_id, name, min_bet, max_bet, engine)
       VALUES 
-        ('slots-mega-fortune', 'Mega Fortune Slots', 100, 100000),
-        ('roulette-european', 'European Roulette', 500, 500000)
+        ('slots-mega-fortune', 'Mega Fortune Slots', 100, 100000, 'slots'),
+        ('roulette-european', 'European Roulette', 500, 500000, 'roulette')
       ON CONFLICT (game_id) DO NOTHING
     `);
     
@@ -80,7 +109,7 @@ async function seed() {
       ON CONFLICT (casino_code) DO UPDATE
       SET casino_api_endpoint = EXCLUDED.casino_api_endpoint,
           secret_key = EXCLUDED.secret_key
-    `, [process.env.CASINO_SECRET || 'casino_secret_key_change_in_production']);
+    `, [partnerSecret]);
     
     console.log('✅ Created provider casino partner');
     
@@ -1,15 +1,21 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import casinoRoutes from './casino/routes';
+import adminRoutes from './casino/adminRoutes';
 import providerRoutes from './provider/routes';
-import { errorHandler, requestLogger } from './shared/middleware';
+import { startSessionSweeper } from './casino/sessionSweeper';
+import { startCatalogSync } from './casino/catalogSync';
+import { startProviderHealthMonitor } from './casino/providerHealthMonitor';
+import { startLaunchRetrier } from './casino/launchRetrier';
+import { startOutboxRelay } from './provider/outboxRelay';
+import { errorHandler, requestLogger, captureRawBody } from './shared/middleware';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(requestLogger);
 
 app.get('/health', (req, res) => {
@@ -27,6 +33,8 @@ app.use('/casino', casinoRoutes);
 
 app.use('/provider', providerRoutes);
 
+app.use('/admin', adminRoutes);
+
 app.use(errorHandler);
 
 app.use((req, res) => {
@@ -46,18 +54,44 @@ app.listen(PORT, () => {
   console.log('');
   console.log('📍 Casino Platform Endpoints:');
   console.log(`   POST /casino/launchGame      - Launch a game session`);
+  console.log(`   POST /casino/endSession      - End a game session`);
+  console.log(`   GET  /casino/currencies      - List supported currencies`);
+  console.log(`   GET  /casino/wallets/:id/transactions - Transaction history`);
+  console.log(`   GET  /casino/sessions/:id    - Session summary`);
   console.log(`   POST /casino/simulateRound   - Run a complete round simulation`);
   console.log(`   POST /casino/getBalance      - Get player balance (Provider callback)`);
   console.log(`   POST /casino/debit           - Debit for bet (Provider callback)`);
   console.log(`   POST /casino/credit          - Credit for payout (Provider callback)`);
   console.log(`   POST /casino/rollback        - Rollback a bet (Provider callback)`);
   console.log('');
+  console.log('📍 Admin Endpoints (x-admin-key, x-operator-id):');
+  console.log(`   POST /admin/users            - Create a player`);
+  console.log(`   POST /admin/users/:id/lock   - Lock a player`);
+  console.log(`   GET  /admin/wallets          - List wallets`);
+  console.log(`   POST /admin/wallets/:id/adjustments - Manual credit/debit`);
+  console.log(`   POST /admin/providers        - Register a game provider`);
+  console.log(`   GET  /admin/providers/:code/events - Provider availability history`);
+  console.log(`   GET  /admin/games            - List the game catalog`);
+  console.log(`   POST /admin/providers/:code/games/sync - Sync a provider's catalog`);
+  console.log('');
   console.log('📍 Game Provider Endpoints:');
   console.log(`   POST /provider/launch        - Initialize provider session`);
+  console.log(`   POST /provider/sessions/end  - End a session and reveal its seed`);
   console.log(`   POST /provider/simulate      - Simulate a game round`);
+  console.log(`   POST /provider/play          - Play an engine-driven round`);
+  console.log(`   GET  /provider/games         - List available games`);
   console.log(`   GET  /provider/health        - Health check`);
+  console.log(`   GET  /provider/rounds/:id    - Round state and totals`);
+  console.log(`   GET  /provider/rounds/:id/verify - Replay a round from its revealed seed`);
+  console.log(`   GET  /provider/admin/outbox  - Unacknowledged casino calls`);
   console.log('');
   console.log('='.repeat(60));
+  
+  startSessionSweeper();
+  startCatalogSync();
+  startProviderHealthMonitor();
+  startLaunchRetrier();
+  startOutboxRelay();
 });
 
 export default app;
@@ -0,0 +1,27 @@
+import { Rng } from "./rng";
+import { rouletteEngine } from "./roulette";
+import { slotEngine } from "./slots";
+
+// Game engines decide round outcomes for games the provider runs itself. A game is
+// playable through /provider/play when its provider_games.engine names one of these.
+
+export interface GameEngine<TBet = any, TOutcome = any> {
+  name: string;
+  // Validate the player's bet; throws ProviderError INVALID_BET when it is malformed
+  parseBet(input: unknown): { stake: number; bet: TBet };
+  // Draw an outcome and work out the total payout for the bet (0 for a loss)
+  play(bet: TBet, rng: Rng): { outcome: TOutcome; payout: number };
+}
+
+const engines: Record<string, GameEngine> = {
+  [rouletteEngine.name]: rouletteEngine,
+  [slotEngine.name]: slotEngine,
+};
+
+export function getEngine(name: string | null): GameEngine | null {
+  return (name && engines[name]) || null;
+}
+
+export function listEngineNames(): string[] {
+  return Object.keys(engines);
+}
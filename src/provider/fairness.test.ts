@@ -0,0 +1,52 @@
+import {
+  createRoundRng,
+  generateServerSeed,
+  hashServerSeed,
+  isSeedRevealed,
+} from "./fairness";
+
+const now = new Date("2024-01-01T12:00:00Z");
+
+function draw(serverSeed: string, clientSeed: string, nonce: number): number[] {
+  const rng = createRoundRng(serverSeed, clientSeed, nonce);
+  return Array.from({ length: 10 }, () => rng.nextInt(37));
+}
+
+describe("Fairness Module", () => {
+  describe("hashServerSeed", () => {
+    it("should commit to the seed with its SHA-256 hash", () => {
+      expect(hashServerSeed("abc")).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      );
+      expect(generateServerSeed()).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe("createRoundRng", () => {
+    it("should replay a round from its seeds and nonce", () => {
+      const serverSeed = generateServerSeed();
+
+      expect(draw(serverSeed, "client", 3)).toEqual(draw(serverSeed, "client", 3));
+    });
+
+    it("should draw a different outcome for another nonce or client seed", () => {
+      const serverSeed = generateServerSeed();
+
+      expect(draw(serverSeed, "client", 3)).not.toEqual(draw(serverSeed, "client", 4));
+      expect(draw(serverSeed, "client", 3)).not.toEqual(draw(serverSeed, "other", 3));
+    });
+  });
+
+  describe("isSeedRevealed", () => {
+    const live = { ended_at: null, expires_at: new Date("2024-01-02T12:00:00Z") };
+
+    it("should keep the seed secret while the session is live", () => {
+      expect(isSeedRevealed(live, now)).toBe(false);
+    });
+
+    it("should reveal the seed once the session has ended or expired", () => {
+      expect(isSeedRevealed({ ...live, ended_at: now }, now)).toBe(true);
+      expect(isSeedRevealed(live, new Date("2024-01-03T00:00:00Z"))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import { createRng, Rng } from "./rng";
+import { ProviderSession } from "./types";
+
+// Provably fair outcomes by commit-reveal. Each session gets a secret server seed whose
+// SHA-256 hash is published at launch. A round's outcome is drawn from
+// HMAC-SHA256(serverSeed, "<clientSeed>:<nonce>"), so once the seed is revealed at the
+// end of the session anyone can check it against the hash and replay every round.
+
+export function generateServerSeed(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function generateClientSeed(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash("sha256").update(serverSeed).digest("hex");
+}
+
+export function createRoundRng(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+): Rng {
+  const roundSeed = crypto
+    .createHmac("sha256", serverSeed)
+    .update(`${clientSeed}:${nonce}`)
+    .digest();
+  return createRng(roundSeed);
+}
+
+// The server seed may be shown once the session has ended or expired
+export function isSeedRevealed(
+  session: Pick<ProviderSession, "ended_at" | "expires_at">,
+  now: Date = new Date(),
+): boolean {
+  return (
+    session.ended_at !== null ||
+    new Date(session.expires_at).getTime() <= now.getTime()
+  );
+}
@@ -0,0 +1,45 @@
+import { getNextOutboxAttempt, isOutcomeUnknown, isRetryableCasinoError } from "./outbox";
+import { ProviderError, ProviderErrorCodes } from "./types";
+
+const now = new Date("2024-01-01T12:00:00Z");
+const config = { baseDelaySeconds: 5, maxDelaySeconds: 60 };
+
+function secondsAfterNow(date: Date): number {
+  return (date.getTime() - now.getTime()) / 1000;
+}
+
+describe("Outbox Module", () => {
+  describe("getNextOutboxAttempt", () => {
+    it("should double the delay after each failed delivery", () => {
+      expect(secondsAfterNow(getNextOutboxAttempt(1, now, config))).toBe(5);
+      expect(secondsAfterNow(getNextOutboxAttempt(2, now, config))).toBe(10);
+      expect(secondsAfterNow(getNextOutboxAttempt(3, now, config))).toBe(20);
+    });
+
+    it("should keep retrying at the maximum delay", () => {
+      expect(secondsAfterNow(getNextOutboxAttempt(10, now, config))).toBe(60);
+      expect(secondsAfterNow(getNextOutboxAttempt(500, now, config))).toBe(60);
+    });
+  });
+
+  describe("isOutcomeUnknown", () => {
+    it("should treat a missing response or casino failure as unknown", () => {
+      expect(isOutcomeUnknown(new ProviderError("timeout", ProviderErrorCodes.CASINO_UNREACHABLE, 504))).toBe(true);
+      expect(isOutcomeUnknown(new ProviderError("Internal error", ProviderErrorCodes.CASINO_API_ERROR, 500))).toBe(true);
+    });
+
+    it("should treat a casino rejection as not applied", () => {
+      expect(isOutcomeUnknown(new ProviderError("Insufficient funds", ProviderErrorCodes.CASINO_API_ERROR, 400))).toBe(false);
+      expect(isOutcomeUnknown(new ProviderError("Limit", ProviderErrorCodes.RESPONSIBLE_GAMING_LIMIT, 403))).toBe(false);
+      expect(isOutcomeUnknown(new Error("boom"))).toBe(false);
+    });
+  });
+
+  describe("isRetryableCasinoError", () => {
+    it("should retry unknown outcomes and rate limiting only", () => {
+      expect(isRetryableCasinoError(new ProviderError("timeout", ProviderErrorCodes.CASINO_UNREACHABLE, 504))).toBe(true);
+      expect(isRetryableCasinoError(new ProviderError("Slow down", ProviderErrorCodes.CASINO_API_ERROR, 429))).toBe(true);
+      expect(isRetryableCasinoError(new ProviderError("Invalid session", ProviderErrorCodes.CASINO_API_ERROR, 401))).toBe(false);
+    });
+  });
+});
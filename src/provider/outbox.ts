@@ -0,0 +1,58 @@
+import { ProviderError, ProviderErrorCodes } from "./types";
+
+// Reconciliation of wallet calls whose outcome we did not learn. A credit or rollback the
+// casino did not acknowledge is kept in provider_outbox and resent with the same
+// transactionId until it is; a debit that may or may not have been applied is undone by
+// queueing a rollback for it. Entries are only given up on when the casino rejects them.
+
+export interface OutboxRetryConfig {
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+// Read the retry policy from PROVIDER_OUTBOX_RETRY_SECONDS and PROVIDER_OUTBOX_MAX_DELAY_SECONDS
+export function getOutboxRetryConfig(): OutboxRetryConfig {
+  return {
+    baseDelaySeconds: parseInt(
+      process.env.PROVIDER_OUTBOX_RETRY_SECONDS || "5",
+    ),
+    maxDelaySeconds: parseInt(
+      process.env.PROVIDER_OUTBOX_MAX_DELAY_SECONDS || "300",
+    ),
+  };
+}
+
+// When to resend an entry after `attempts` failed deliveries, doubling the delay up to the cap
+export function getNextOutboxAttempt(
+  attempts: number,
+  now: Date = new Date(),
+  config: OutboxRetryConfig = getOutboxRetryConfig(),
+): Date {
+  const exponent = Math.min(Math.max(attempts - 1, 0), 30);
+  const delaySeconds = Math.min(
+    config.baseDelaySeconds * 2 ** exponent,
+    config.maxDelaySeconds,
+  );
+  return new Date(now.getTime() + delaySeconds * 1000);
+}
+
+// The casino may have applied the call: no response arrived, or it failed on the casino's side
+export function isOutcomeUnknown(error: unknown): boolean {
+  if (!(error instanceof ProviderError)) return false;
+
+  return (
+    error.code === ProviderErrorCodes.CASINO_UNREACHABLE ||
+    (error.code === ProviderErrorCodes.CASINO_API_ERROR &&
+      error.statusCode >= 500)
+  );
+}
+
+// Worth sending again with the same transactionId: the outcome is unknown or we were rate limited
+export function isRetryableCasinoError(error: unknown): boolean {
+  return (
+    isOutcomeUnknown(error) ||
+    (error instanceof ProviderError &&
+      error.code === ProviderErrorCodes.CASINO_API_ERROR &&
+      error.statusCode === 429)
+  );
+}
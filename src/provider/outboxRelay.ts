@@ -0,0 +1,23 @@
+import { providerService } from "./service";
+
+// Periodically resend credits and rollbacks the casino has not acknowledged yet
+export function startOutboxRelay(
+  intervalSeconds: number = parseInt(
+    process.env.PROVIDER_OUTBOX_INTERVAL_SECONDS || "5",
+  ),
+): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const delivered = await providerService.deliverOutbox();
+      if (delivered > 0) {
+        console.log(`Outbox relay delivered ${delivered} casino call(s)`);
+      }
+    } catch (error: any) {
+      console.error("Outbox relay failed:", error.message);
+    }
+  }, intervalSeconds * 1000);
+
+  // Do not keep the process alive just for the relay
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,30 @@
+import { createRng, createRandomRng } from "./rng";
+
+function draw(rng: { nextInt(max: number): number }, count: number, max: number) {
+  return Array.from({ length: count }, () => rng.nextInt(max));
+}
+
+describe("RNG Module", () => {
+  it("should replay the same sequence for the same seed", () => {
+    expect(draw(createRng("seed-1"), 20, 37)).toEqual(
+      draw(createRng("seed-1"), 20, 37),
+    );
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    expect(draw(createRng("seed-1"), 20, 1000)).not.toEqual(
+      draw(createRng("seed-2"), 20, 1000),
+    );
+  });
+
+  it("should stay within range and reach every value", () => {
+    const values = draw(createRandomRng(), 2000, 7);
+
+    expect(values.every((value) => value >= 0 && value < 7)).toBe(true);
+    expect(new Set(values).size).toBe(7);
+  });
+
+  it("should reject an empty range", () => {
+    expect(() => createRng("seed").nextInt(0)).toThrow(RangeError);
+  });
+});
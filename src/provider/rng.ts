@@ -0,0 +1,50 @@
+import crypto from "crypto";
+
+// Deterministic random number generator for game outcomes. The byte stream is
+// HMAC-SHA256(seed, counter) for counter = 0, 1, 2, ..., so the same seed always
+// replays the same outcomes while an unknown seed makes them unpredictable.
+
+export interface Rng {
+  // Uniform integer in [0, maxExclusive)
+  nextInt(maxExclusive: number): number;
+}
+
+export function createRng(seed: string | Buffer): Rng {
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = (): number => {
+    if (offset + 4 > block.length) {
+      block = crypto
+        .createHmac("sha256", seed)
+        .update(String(counter++))
+        .digest();
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  return {
+    nextInt(maxExclusive: number): number {
+      if (!Number.isInteger(maxExclusive) || maxExclusive <= 0) {
+        throw new RangeError("maxExclusive must be a positive integer");
+      }
+
+      // Reject the top of the range so every result is equally likely
+      const limit = 2 ** 32 - (2 ** 32 % maxExclusive);
+      let value = nextUint32();
+      while (value >= limit) {
+        value = nextUint32();
+      }
+      return value % maxExclusive;
+    },
+  };
+}
+
+// Generator seeded from the system CSPRNG, for rounds that need no replay
+export function createRandomRng(): Rng {
+  return createRng(crypto.randomBytes(32));
+}
@@ -0,0 +1,59 @@
+import { rouletteEngine, isWinningBet, pocketColor } from "./roulette";
+import { Rng } from "./rng";
+
+// Rng that always lands on the given pocket
+function fixedPocket(pocket: number): Rng {
+  return { nextInt: () => pocket };
+}
+
+describe("Roulette Module", () => {
+  describe("isWinningBet", () => {
+    it("should settle outside bets by colour, parity and range", () => {
+      expect(pocketColor(1)).toBe("red");
+      expect(pocketColor(2)).toBe("black");
+      expect(isWinningBet({ type: "red", amount: 100 }, 1)).toBe(true);
+      expect(isWinningBet({ type: "even", amount: 100 }, 2)).toBe(true);
+      expect(isWinningBet({ type: "high", amount: 100 }, 18)).toBe(false);
+      expect(isWinningBet({ type: "dozen", amount: 100, number: 3 }, 25)).toBe(true);
+      expect(isWinningBet({ type: "column", amount: 100, number: 2 }, 35)).toBe(true);
+    });
+
+    it("should lose every outside bet on zero", () => {
+      for (const type of ["red", "black", "odd", "even", "low", "high"] as const) {
+        expect(isWinningBet({ type, amount: 100 }, 0)).toBe(false);
+      }
+      expect(isWinningBet({ type: "straight", amount: 100, number: 0 }, 0)).toBe(true);
+    });
+  });
+
+  describe("rouletteEngine", () => {
+    it("should total the stake and pay winning bets at standard odds", () => {
+      const { stake, bet } = rouletteEngine.parseBet({
+        bets: [
+          { type: "straight", number: 17, amount: 100 },
+          { type: "black", amount: 200 },
+          { type: "dozen", number: 1, amount: 300 },
+        ],
+      });
+
+      const { outcome, payout } = rouletteEngine.play(bet, fixedPocket(17));
+
+      expect(stake).toBe(600);
+      expect(outcome).toEqual({ pocket: 17, color: "black", winningBets: [0, 1] });
+      expect(payout).toBe(100 * 36 + 200 * 2);
+    });
+
+    it("should reject malformed bets", () => {
+      expect(() => rouletteEngine.parseBet({ bets: [] })).toThrow("bets must be a non-empty list");
+      expect(() => rouletteEngine.parseBet({ bets: [{ type: "corner", amount: 100 }] })).toThrow(
+        "bets[0].type",
+      );
+      expect(() => rouletteEngine.parseBet({ bets: [{ type: "straight", number: 37, amount: 100 }] })).toThrow(
+        "bets[0].number must be between 0 and 36",
+      );
+      expect(() => rouletteEngine.parseBet({ bets: [{ type: "red", amount: 1.5 }] })).toThrow(
+        "bets[0].amount",
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { GameEngine } from "./engines";
+import { Rng } from "./rng";
+import { ProviderError, ProviderErrorCodes } from "./types";
+
+// European roulette: a single-zero wheel of 37 pockets. Outside bets lose on zero.
+// Payouts are quoted as "n to 1", so a winning bet returns amount * (n + 1).
+
+export type RouletteBetType =
+  | "straight"
+  | "red"
+  | "black"
+  | "odd"
+  | "even"
+  | "low"
+  | "high"
+  | "dozen"
+  | "column";
+
+export interface RouletteBet {
+  type: RouletteBetType;
+  amount: number;
+  // Pocket for straight bets, 1-3 for dozen and column bets
+  number?: number;
+}
+
+export interface RouletteOutcome {
+  pocket: number;
+  color: "red" | "black" | "green";
+  winningBets: number[];
+}
+
+export const ROULETTE_POCKETS = 37;
+
+const RED_POCKETS = new Set([
+  1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36,
+]);
+
+const PAYOUT_ODDS: Record<RouletteBetType, number> = {
+  straight: 35,
+  red: 1,
+  black: 1,
+  odd: 1,
+  even: 1,
+  low: 1,
+  high: 1,
+  dozen: 2,
+  column: 2,
+};
+
+export function pocketColor(pocket: number): RouletteOutcome["color"] {
+  if (pocket === 0) return "green";
+  return RED_POCKETS.has(pocket) ? "red" : "black";
+}
+
+export function isWinningBet(bet: RouletteBet, pocket: number): boolean {
+  if (bet.type === "straight") return bet.number === pocket;
+  if (pocket === 0) return false;
+
+  switch (bet.type) {
+    case "red":
+    case "black":
+      return pocketColor(pocket) === bet.type;
+    case "odd":
+      return pocket % 2 === 1;
+    case "even":
+      return pocket % 2 === 0;
+    case "low":
+      return pocket <= 18;
+    case "high":
+      return pocket >= 19;
+    case "dozen":
+      return Math.ceil(pocket / 12) === bet.number;
+    case "column":
+      return ((pocket - 1) % 3) + 1 === bet.number;
+  }
+}
+
+function invalidBet(message: string): ProviderError {
+  return new ProviderError(message, ProviderErrorCodes.INVALID_BET, 400);
+}
+
+function parseRouletteBet(input: any, index: number): RouletteBet {
+  const type = input?.type as RouletteBetType;
+  if (!Object.prototype.hasOwnProperty.call(PAYOUT_ODDS, type)) {
+    throw invalidBet(
+      `bets[${index}].type must be one of ${Object.keys(PAYOUT_ODDS).join(", ")}`,
+    );
+  }
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw invalidBet(`bets[${index}].amount must be a positive whole amount`);
+  }
+
+  const range =
+    type === "straight"
+      ? [0, 36]
+      : type === "dozen" || type === "column"
+        ? [1, 3]
+        : null;
+  if (range) {
+    const number = input.number;
+    if (!Number.isInteger(number) || number < range[0] || number > range[1]) {
+      throw invalidBet(
+        `bets[${index}].number must be between ${range[0]} and ${range[1]}`,
+      );
+    }
+    return { type, amount: input.amount, number };
+  }
+
+  return { type, amount: input.amount };
+}
+
+export const rouletteEngine: GameEngine<RouletteBet[], RouletteOutcome> = {
+  name: "roulette",
+
+  parseBet(input: any) {
+    if (!Array.isArray(input?.bets) || input.bets.length === 0) {
+      throw invalidBet("bets must be a non-empty list");
+    }
+
+    const bets = input.bets.map(parseRouletteBet);
+    const stake = bets.reduce(
+      (total: number, bet: RouletteBet) => total + bet.amount,
+      0,
+    );
+    return { stake, bet: bets };
+  },
+
+  play(bets: RouletteBet[], rng: Rng) {
+    const pocket = rng.nextInt(ROULETTE_POCKETS);
+    const winningBets: number[] = [];
+    let payout = 0;
+
+    bets.forEach((bet, index) => {
+      if (isWinningBet(bet, pocket)) {
+        winningBets.push(index);
+        payout += bet.amount * (PAYOUT_ODDS[bet.type] + 1);
+      }
+    });
+
+    return {
+      outcome: { pocket, color: pocketColor(pocket), winningBets },
+      payout,
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import { acceptsTransaction, isRoundCancelled } from "./rounds";
+
+describe("Rounds Module", () => {
+  describe("acceptsTransaction", () => {
+    it("should only take bets and payouts on open rounds", () => {
+      expect(acceptsTransaction("open", "bet")).toBe(true);
+      expect(acceptsTransaction("closed", "bet")).toBe(false);
+      expect(acceptsTransaction("cancelled", "payout")).toBe(false);
+    });
+
+    it("should accept rollbacks whatever the round state", () => {
+      expect(acceptsTransaction("closed", "rollback")).toBe(true);
+      expect(acceptsTransaction("cancelled", "rollback")).toBe(true);
+    });
+  });
+
+  describe("isRoundCancelled", () => {
+    it("should cancel a round once every stake is rolled back", () => {
+      expect(
+        isRoundCancelled([
+          { bet_type: "bet", status: "rolled_back" },
+          { bet_type: "bet", status: "failed" },
+          { bet_type: "rollback", status: "confirmed" },
+        ]),
+      ).toBe(true);
+    });
+
+    it("should keep a round with a standing or unresolved stake", () => {
+      expect(
+        isRoundCancelled([
+          { bet_type: "bet", status: "rolled_back" },
+          { bet_type: "bet", status: "confirmed" },
+        ]),
+      ).toBe(false);
+      expect(
+        isRoundCancelled([
+          { bet_type: "bet", status: "rolled_back" },
+          { bet_type: "bet", status: "pending" },
+        ]),
+      ).toBe(false);
+    });
+
+    it("should not cancel a round where no stake was rolled back", () => {
+      expect(isRoundCancelled([{ bet_type: "bet", status: "failed" }])).toBe(
+        false,
+      );
+      expect(isRoundCancelled([])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { BetStatus, BetType, RoundStatus } from "./types";
+
+// Round lifecycle. A round is open until its final payout is acknowledged (closed) or
+// every stake placed in it has been rolled back (cancelled). Only open rounds take new
+// bets and payouts; rollbacks are still accepted afterwards so that queued reconciliation
+// of an unanswered debit can complete.
+
+export function acceptsTransaction(
+  status: RoundStatus,
+  betType: BetType,
+): boolean {
+  return betType === "rollback" || status === "open";
+}
+
+// Every stake was undone: at least one bet rolled back and none still standing
+export function isRoundCancelled(
+  bets: { bet_type: BetType; status: BetStatus }[],
+): boolean {
+  const stakes = bets.filter((bet) => bet.bet_type === "bet");
+
+  return (
+    stakes.some((bet) => bet.status === "rolled_back") &&
+    stakes.every(
+      (bet) => bet.status === "rolled_back" || bet.status === "failed",
+    )
+  );
+}
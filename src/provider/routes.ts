@@ -1,22 +1,37 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { providerService } from './service';
-import { verifyCasinoSignature } from '../shared/middleware';
+import { providerService, providerKeyring } from './service';
+import { verifyCasinoSignature, requireAdmin } from '../shared/middleware';
+import { createKeyringRouter } from '../shared/keyringRoutes';
 import {
   ProviderLaunchRequest,
   ProviderLaunchResponse,
+  ProviderEndSessionRequest,
+  ProviderEndSessionResponse,
   ProviderSimulateRequest,
   ProviderSimulateResponse,
+  ProviderPlayRequest,
+  ProviderPlayResponse,
+  ProviderGamesResponse,
+  UpsertProviderGameRequest,
+  ProviderRoundResponse,
+  ProviderVerifyResponse,
+  ProviderOutboxEntry,
+  OutboxStatus,
+  OutboxEntryResponse,
   ProviderError
 } from './types';
 
 const router = Router();
 
+// Casino calls are verified against the calling casino partner's own secret
+const verifyCasino = verifyCasinoSignature((code) => providerService.getSigningCasino(code));
+
 /**
  * POST /provider/launch
  * Called by the Casino during game launch
  * Creates a provider-side game session and returns data required to start gameplay
  */
-router.post('/launch', verifyCasinoSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/launch', verifyCasino, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const {
       casinoCode,
@@ -47,7 +62,40 @@ router.post('/launch', verifyCasinoSignature, async (req: Request, res: Response
       success: true,
       providerSessionId: result.providerSessionId,
       gameUrl: result.gameUrl,
-      playerId: result.playerId
+      playerId: result.playerId,
+      serverSeedHash: result.serverSeedHash
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /provider/sessions/end
+ * Called by the Casino when a game session ends
+ * Closes the provider session to further play and reveals its server seed
+ */
+router.post('/sessions/end', verifyCasino, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { casinoCode, sessionToken } = req.body as ProviderEndSessionRequest;
+    
+    if (!casinoCode || !sessionToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'casinoCode and sessionToken are required'
+      });
+    }
+    
+    const session = await providerService.endSession(casinoCode, sessionToken);
+    
+    const response: ProviderEndSessionResponse = {
+      success: true,
+      providerSessionId: session.provider_session_id,
+      endedAt: session.ended_at as Date,
+      serverSeed: session.server_seed,
+      serverSeedHash: session.server_seed_hash
     };
     
     res.json(response);
@@ -63,7 +111,7 @@ router.post('/launch', verifyCasinoSignature, async (req: Request, res: Response
  * at least one balance check, one or more bet debits, one or more payout credits,
  * and at least one rollback request
  */
-router.post('/simulate', verifyCasinoSignature, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/simulate', verifyCasino, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const {
       casinoCode,
@@ -99,6 +147,146 @@ router.post('/simulate', verifyCasinoSignature, async (req: Request, res: Respon
   }
 });
 
+/**
+ * POST /provider/play
+ * Play one round of an engine-driven game for a launched session
+ * Debits the stake, lets the game engine decide the outcome and credits the win
+ */
+router.post('/play', verifyCasino, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { casinoCode, sessionToken, gameId, bet, clientSeed, nonce } = req.body as ProviderPlayRequest;
+    
+    if (!casinoCode || !sessionToken || !gameId || !bet) {
+      return res.status(400).json({
+        success: false,
+        error: 'casinoCode, sessionToken, gameId, and bet are required'
+      });
+    }
+    
+    const result = await providerService.playRound(casinoCode, sessionToken, gameId, bet, {
+      clientSeed,
+      nonce
+    });
+    
+    const response: ProviderPlayResponse = {
+      success: true,
+      roundId: result.roundId,
+      transactionId: result.transactionId,
+      stake: result.stake,
+      payout: result.payout,
+      outcome: result.outcome,
+      balance: result.balance,
+      payoutStatus: result.payoutStatus,
+      serverSeedHash: result.serverSeedHash,
+      clientSeed: result.clientSeed,
+      nonce: result.nonce
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /provider/games
+ * Catalog of active games, pulled by casinos to keep their game lists in sync
+ * Signed like other casino calls, over an empty body
+ */
+router.get('/games', verifyCasino, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const games = await providerService.listGames();
+    
+    const response: ProviderGamesResponse = {
+      success: true,
+      games: games.map((game) => ({
+        gameId: game.game_id,
+        name: game.name,
+        minBet: Number(game.min_bet),
+        maxBet: Number(game.max_bet)
+      }))
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /provider/rounds/:roundId
+ * Audit view of a round: state, totals and every transaction sent to the casino
+ */
+router.get('/rounds/:roundId', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { round, game, session, player, bets } = await providerService.getRoundDetails(req.params.roundId);
+    
+    const response: ProviderRoundResponse = {
+      success: true,
+      roundId: round.round_id,
+      gameId: game.game_id,
+      playerId: player.external_user_id,
+      casinoCode: player.casino_code,
+      sessionId: session.provider_session_id,
+      currency: round.currency,
+      status: round.status,
+      totalBetAmount: Number(round.total_bet_amount),
+      totalPayoutAmount: Number(round.total_payout_amount),
+      fairness: round.nonce === null ? null : {
+        serverSeedHash: round.server_seed_hash as string,
+        clientSeed: round.client_seed as string,
+        nonce: round.nonce,
+        outcome: round.outcome
+      },
+      createdAt: round.created_at,
+      closedAt: round.closed_at,
+      transactions: bets.map((bet) => ({
+        transactionId: bet.transaction_id,
+        type: bet.bet_type,
+        amount: Number(bet.amount),
+        status: bet.status,
+        balanceAfter: bet.casino_balance_after === null ? null : Number(bet.casino_balance_after),
+        createdAt: bet.created_at
+      }))
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /provider/rounds/:roundId/verify
+ * Public provably fair check: replays an engine-driven round from its revealed server seed
+ * Available once the round's session has ended or expired
+ */
+router.get('/rounds/:roundId/verify', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await providerService.verifyRound(req.params.roundId);
+    const { round } = result;
+    
+    const response: ProviderVerifyResponse = {
+      success: true,
+      roundId: round.round_id,
+      gameId: result.game.game_id,
+      serverSeed: result.serverSeed,
+      serverSeedHash: round.server_seed_hash as string,
+      clientSeed: round.client_seed as string,
+      nonce: round.nonce as number,
+      verified: result.verified,
+      seedMatchesHash: result.seedMatchesHash,
+      recordedOutcome: round.outcome,
+      computedOutcome: result.computedOutcome,
+      computedPayout: result.computedPayout
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /provider/health
  * Health check endpoint
@@ -107,4 +295,100 @@ router.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', service: 'game-provider' });
 });
 
+/**
+ * PUT /provider/admin/games/:gameId
+ * Add a game to the catalog or change its name, limits or availability
+ */
+router.put('/admin/games/:gameId', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, minBet, maxBet, isActive = true, engine } = req.body as UpsertProviderGameRequest;
+    
+    if (!name || minBet === undefined || maxBet === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'name, minBet and maxBet are required'
+      });
+    }
+    
+    const game = await providerService.upsertGame(req.params.gameId, name, minBet, maxBet, isActive, engine);
+    
+    res.json({
+      success: true,
+      game: {
+        gameId: game.game_id,
+        name: game.name,
+        minBet: Number(game.min_bet),
+        maxBet: Number(game.max_bet),
+        isActive: game.is_active,
+        engine: game.engine
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /provider/admin/outbox
+ * Credits and rollbacks queued for the casino; ?status=failed lists the ones it rejected
+ */
+router.get('/admin/outbox', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.query.status as OutboxStatus | undefined;
+    if (status && !['pending', 'delivered', 'failed'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'status must be pending, delivered or failed'
+      });
+    }
+    
+    const entries = await providerService.listOutbox(status);
+    
+    res.json({ success: true, entries: entries.map(toOutboxEntryResponse) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /provider/admin/outbox/:id/retry
+ * Queue a rejected entry again, resending it with its original transactionId
+ */
+router.post('/admin/outbox/:id/retry', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await providerService.retryOutboxEntry(req.params.id);
+    
+    res.json({ success: true, entry: toOutboxEntryResponse(entry) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function toOutboxEntryResponse(entry: ProviderOutboxEntry): OutboxEntryResponse {
+  return {
+    id: entry.id,
+    operation: entry.operation,
+    transactionId: entry.transaction_id,
+    status: entry.status,
+    attempts: entry.attempts,
+    nextAttemptAt: new Date(entry.next_attempt_at).toISOString(),
+    lastError: entry.last_error,
+    createdAt: new Date(entry.created_at).toISOString(),
+    deliveredAt: entry.delivered_at ? new Date(entry.delivered_at).toISOString() : null
+  };
+}
+
+/**
+ * /provider/admin/casinos/:code/keys
+ * Admin routes to stage, promote and retire a casino partner's signing keys
+ */
+router.use(
+  '/admin/casinos/:code/keys',
+  requireAdmin,
+  createKeyringRouter(providerKeyring, async (code) => {
+    const casino = await providerService.getCasinoByCode(code);
+    return casino ? casino.id : null;
+  })
+);
+
 export default router;
@@ -0,0 +1,148 @@
+import { ProviderService } from "./service";
+import {
+  ProviderCasino,
+  ProviderError,
+  ProviderErrorCodes,
+  ProviderGame,
+  ProviderSession,
+} from "./types";
+import { query, transaction } from "../database/connection";
+
+jest.mock("../database/connection", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const casino: ProviderCasino = {
+  id: "casino-1",
+  casino_code: "CASINO_MAIN",
+  casino_api_endpoint: "http://casino.test",
+  secret_key: "secret",
+  signature_mode: "raw",
+  is_active: true,
+  created_at: new Date(),
+};
+
+const game: ProviderGame = {
+  id: "game-uuid-1",
+  game_id: "slots-mega-fortune",
+  name: "Mega Fortune Slots",
+  is_active: true,
+  min_bet: 100,
+  max_bet: 100000,
+  engine: "slots",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const session: ProviderSession = {
+  id: "session-1",
+  provider_session_id: "ps-1",
+  casino_id: "casino-1",
+  session_token: "token-1",
+  player_id: "player-1",
+  game_id: "game-uuid-1",
+  currency: "USD",
+  server_seed: "seed",
+  server_seed_hash: "hash",
+  next_nonce: 0,
+  expires_at: new Date(Date.now() + 3600 * 1000),
+  ended_at: null,
+  created_at: new Date(),
+};
+
+// A service whose session is launched and whose casino answers each wallet endpoint as scripted
+function makeService(replies: Record<string, () => any>) {
+  const service = new ProviderService();
+  jest.spyOn(service, "getCasinoByCode").mockResolvedValue(casino);
+  jest.spyOn(service, "getGameByGameId").mockResolvedValue(game);
+  jest.spyOn(service, "requireSession").mockResolvedValue(session);
+  const callCasinoApi = jest
+    .spyOn(service, "callCasinoApi")
+    .mockImplementation(async (_casino, endpoint: string) => replies[endpoint]());
+  return { service, callCasinoApi };
+}
+
+describe("Provider Service Module", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedQuery.mockResolvedValue({ rows: [{ next_nonce: 1, status: "open" }] });
+    (transaction as jest.Mock).mockImplementation(async (callback) =>
+      callback({ query: mockedQuery }),
+    );
+  });
+
+  describe("playRound", () => {
+    it("should hold a payout the casino refuses instead of throwing", async () => {
+      const { service, callCasinoApi } = makeService({
+        "/debit": () => ({ success: true, balance: 9000 }),
+        "/credit": () => {
+          throw new ProviderError(
+            "Round is already closed",
+            ProviderErrorCodes.CASINO_API_ERROR,
+            409,
+          );
+        },
+      });
+
+      const result = await service.playRound(
+        "CASINO_MAIN",
+        "token-1",
+        "slots-mega-fortune",
+        { amount: 1000 },
+        { clientSeed: "client", nonce: 0 },
+      );
+
+      expect(callCasinoApi).toHaveBeenCalledTimes(2);
+      expect(result.payoutStatus).toBe("held");
+      expect(result.balance).toBe(9000);
+
+      const outboxInsert = mockedQuery.mock.calls.find(([sql]) =>
+        sql.includes("INSERT INTO provider_outbox"),
+      );
+      expect(outboxInsert).toBeDefined();
+      expect(outboxInsert![1]).toEqual([
+        "casino-1",
+        "credit",
+        expect.stringMatching(/^payout/),
+        expect.any(String),
+        "failed",
+        1,
+        "Round is already closed",
+      ]);
+      expect(JSON.parse(outboxInsert![1][3])).toMatchObject({
+        roundId: result.roundId,
+        relatedTransactionId: result.transactionId,
+        isRoundFinished: true,
+      });
+    });
+
+    it("should queue a payout the casino did not answer for resending", async () => {
+      const { service } = makeService({
+        "/debit": () => ({ success: true, balance: 9000 }),
+        "/credit": () => {
+          throw new ProviderError(
+            "Casino did not respond",
+            ProviderErrorCodes.CASINO_UNREACHABLE,
+            504,
+          );
+        },
+      });
+
+      const result = await service.playRound(
+        "CASINO_MAIN",
+        "token-1",
+        "slots-mega-fortune",
+        { amount: 1000 },
+      );
+
+      expect(result.payoutStatus).toBe("pending");
+      const outboxInsert = mockedQuery.mock.calls.find(([sql]) =>
+        sql.includes("INSERT INTO provider_outbox"),
+      );
+      expect(outboxInsert![1].slice(4)).toEqual(["pending", 0, null]);
+    });
+  });
+});
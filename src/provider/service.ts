@@ -1,9 +1,11 @@
 import { query, transaction } from "../database/connection";
 import axios from "axios";
 import {
-  signBody,
+  signRequest,
   generateTransactionId,
   generateRoundId,
+  SIGNATURE_TIMESTAMP_HEADER,
+  SIGNATURE_NONCE_HEADER,
 } from "../shared/security";
 import {
   ProviderGame,
@@ -15,8 +17,51 @@ import {
   ProviderErrorCodes,
   BetType,
   BetStatus,
+  ProviderOutboxEntry,
+  ProviderSession,
+  OutboxOperation,
+  OutboxStatus,
 } from "./types";
+import {
+  getNextOutboxAttempt,
+  isOutcomeUnknown,
+  isRetryableCasinoError,
+} from "./outbox";
+import { acceptsTransaction, isRoundCancelled } from "./rounds";
+import { getProviderSessionTtlSeconds, getSessionProblem } from "./sessions";
+import { getEngine, listEngineNames } from "./engines";
+import {
+  createRoundRng,
+  generateClientSeed,
+  generateServerSeed,
+  hashServerSeed,
+  isSeedRevealed,
+} from "./fairness";
 import { v4 as uuidv4 } from "uuid";
+import { isDeepStrictEqual } from "util";
+import {
+  KeyringService,
+  getVerificationSecrets,
+  getSigningSecret,
+} from "../shared/keyring";
+import { SigningPartner } from "../shared/middleware";
+
+// Outcome of a wallet call whose failure is being reconciled rather than thrown
+type CasinoCallResult =
+  | { ok: true; transactionId: string; response: any }
+  | { ok: false; transactionId: string; error: ProviderError; held?: boolean };
+
+export const providerKeyring = new KeyringService({
+  keysTable: "provider_casino_keys",
+  auditTable: "provider_key_audit_log",
+  getFallbackSecret: async (casinoId) => {
+    const result = await query(
+      "SELECT secret_key FROM provider_casinos WHERE id = $1",
+      [casinoId],
+    );
+    return result.rows[0]?.secret_key || null;
+  },
+});
 
 export class ProviderService {
   // Get casino partner by code
@@ -29,6 +74,36 @@ export class ProviderService {
     return result.rows[0] || null;
   }
 
+  // Resolve a casino partner with the secrets currently valid for its requests
+  // The registry secret_key verifies until an inbound key is promoted
+
+  async getSigningCasino(casinoCode: string): Promise<SigningPartner | null> {
+    const casino = await this.getCasinoByCode(casinoCode);
+    if (!casino) return null;
+
+    const keys = await providerKeyring.getKeys(casino.id, "inbound");
+    const secrets = getVerificationSecrets(keys, casino.secret_key);
+
+    return { id: casino.id, secrets, signatureMode: casino.signature_mode };
+  }
+
+  // Get the secret used to sign calls to a casino (primary outbound key)
+  // The casino's registry secret_key signs until an outbound key is promoted
+
+  async getCasinoSigningSecret(casino: ProviderCasino): Promise<string> {
+    const keys = await providerKeyring.getKeys(casino.id, "outbound");
+    const secret = getSigningSecret(keys, casino.secret_key);
+    if (!secret) {
+      throw new ProviderError(
+        "No active signing key for casino",
+        ProviderErrorCodes.SIGNING_KEY_UNAVAILABLE,
+        500,
+      );
+    }
+
+    return secret;
+  }
+
   // Get game by ID
 
   async getGameByGameId(gameId: string): Promise<ProviderGame | null> {
@@ -39,6 +114,71 @@ export class ProviderService {
     return result.rows[0] || null;
   }
 
+  // Active games offered to casino partners
+
+  async listGames(): Promise<ProviderGame[]> {
+    const result = await query(
+      "SELECT * FROM provider_games WHERE is_active = true ORDER BY game_id",
+    );
+    return result.rows;
+  }
+
+  // Create or update a game in the provider catalog (admin)
+
+  async upsertGame(
+    gameId: string,
+    name: string,
+    minBet: number,
+    maxBet: number,
+    isActive: boolean,
+    engine?: string | null,
+  ): Promise<ProviderGame> {
+    if (
+      !Number.isInteger(minBet) ||
+      !Number.isInteger(maxBet) ||
+      minBet <= 0 ||
+      maxBet < minBet
+    ) {
+      throw new ProviderError(
+        "minBet and maxBet must be whole amounts with 0 < minBet <= maxBet",
+        ProviderErrorCodes.INVALID_GAME_CONFIG,
+        400,
+      );
+    }
+
+    if (engine && !getEngine(engine)) {
+      throw new ProviderError(
+        `engine must be one of ${listEngineNames().join(", ")}`,
+        ProviderErrorCodes.INVALID_GAME_CONFIG,
+        400,
+      );
+    }
+
+    // An update without an engine keeps the current one
+    const result = await query(
+      `INSERT INTO provider_games (game_id, name, min_bet, max_bet, is_active, engine)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (game_id) DO UPDATE
+       SET name = EXCLUDED.name,
+           min_bet = EXCLUDED.min_bet,
+           max_bet = EXCLUDED.max_bet,
+           is_active = EXCLUDED.is_active,
+           engine = CASE WHEN $7::boolean THEN provider_games.engine ELSE EXCLUDED.engine END,
+           updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        gameId,
+        name,
+        minBet,
+        maxBet,
+        isActive,
+        engine || null,
+        engine === undefined,
+      ],
+    );
+    return result.rows[0];
+  }
+
   // Get or create casino user mapping
   async getOrCreateCasinoUser(
     casinoCode: string,
@@ -78,6 +218,50 @@ export class ProviderService {
     return result.rows[0] || null;
   }
 
+  // A round with its game and every transaction recorded for it, for audits
+
+  async getRoundDetails(roundId: string): Promise<{
+    round: ProviderGameRound;
+    game: ProviderGame;
+    session: ProviderSession;
+    player: ProviderCasinoUser;
+    bets: ProviderBet[];
+  }> {
+    const round = await this.getRoundByRoundId(roundId);
+    if (!round) {
+      throw new ProviderError(
+        "Round not found",
+        ProviderErrorCodes.ROUND_NOT_FOUND,
+        404,
+      );
+    }
+
+    const gameResult = await query(
+      "SELECT * FROM provider_games WHERE id = $1",
+      [round.game_id],
+    );
+    const sessionResult = await query(
+      "SELECT * FROM provider_sessions WHERE id = $1",
+      [round.session_id],
+    );
+    const playerResult = await query(
+      "SELECT * FROM provider_casino_users WHERE id = $1",
+      [round.player_id],
+    );
+    const betsResult = await query(
+      "SELECT * FROM provider_bets WHERE round_id = $1 ORDER BY created_at, id",
+      [round.id],
+    );
+
+    return {
+      round,
+      game: gameResult.rows[0],
+      session: sessionResult.rows[0],
+      player: playerResult.rows[0],
+      bets: betsResult.rows,
+    };
+  }
+
   /**
    * Get bet by transaction ID
    */
@@ -105,6 +289,7 @@ export class ProviderService {
     providerSessionId: string;
     gameUrl: string;
     playerId: string;
+    serverSeedHash: string;
   }> {
     // Validate casino
     const casino = await this.getCasinoByCode(casinoCode);
@@ -129,32 +314,110 @@ export class ProviderService {
     // Get or create user
     const user = await this.getOrCreateCasinoUser(casinoCode, playerId);
 
-    // Generate provider session ID
-    const providerSessionId = `psess_${uuidv4()}`;
+    // A repeated launch for the same casino session gets the session issued the first time,
+    // together with the server seed it committed to
+    const serverSeed = generateServerSeed();
+    const inserted = await query(
+      `INSERT INTO provider_sessions (provider_session_id, casino_id, session_token, player_id, game_id, currency, server_seed, server_seed_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP + make_interval(secs => $9))
+       ON CONFLICT (casino_id, session_token) DO NOTHING
+       RETURNING *`,
+      [
+        `psess_${uuidv4()}`,
+        casino.id,
+        sessionToken,
+        user.id,
+        game.id,
+        currency,
+        serverSeed,
+        hashServerSeed(serverSeed),
+        getProviderSessionTtlSeconds(),
+      ],
+    );
+
+    let session: ProviderSession = inserted.rows[0];
+    if (!session) {
+      session = await this.requireSession(casino, sessionToken, game.id);
+      if (session.player_id !== user.id) {
+        throw new ProviderError(
+          "Session was launched for a different player",
+          ProviderErrorCodes.INVALID_SESSION,
+          401,
+        );
+      }
+    }
 
     return {
-      providerSessionId,
-      gameUrl: `/games/${gameId}?session=${providerSessionId}`,
+      providerSessionId: session.provider_session_id,
+      gameUrl: `/games/${gameId}?session=${session.provider_session_id}`,
       playerId: user.player_id,
+      serverSeedHash: session.server_seed_hash,
     };
   }
 
+  // Provider session a casino launched with this session token
+
+  async getSessionByToken(
+    casinoId: string,
+    sessionToken: string,
+  ): Promise<ProviderSession | null> {
+    const result = await query(
+      "SELECT * FROM provider_sessions WHERE casino_id = $1 AND session_token = $2",
+      [casinoId, sessionToken],
+    );
+    return result.rows[0] || null;
+  }
+
+  // The live session behind a token, checked against the calling casino and the game played
+
+  async requireSession(
+    casino: ProviderCasino,
+    sessionToken: string,
+    gameId?: string,
+  ): Promise<ProviderSession> {
+    const session = await this.getSessionByToken(casino.id, sessionToken);
+    const problem = getSessionProblem(session, {
+      casinoId: casino.id,
+      gameId,
+    });
+    if (problem) {
+      throw new ProviderError(
+        problem,
+        ProviderErrorCodes.INVALID_SESSION,
+        401,
+      );
+    }
+
+    return session as ProviderSession;
+  }
+
   // Call Casino API with signature
   async callCasinoApi(
     casino: ProviderCasino,
     endpoint: string,
     payload: any,
   ): Promise<any> {
-    const signature = signBody(payload, process.env.PROVIDER_SECRET || "");
+    // Sign with the primary outbound key; the casino verifies it against the
+    // secrets it stores for our provider code
+    // Each call carries a fresh timestamp and nonce so it cannot be replayed
+    const signed = signRequest(
+      payload,
+      await this.getCasinoSigningSecret(casino),
+      casino.signature_mode,
+    );
 
     try {
+      // Send the exact bytes that were signed
       const response = await axios.post(
         `${casino.casino_api_endpoint}${endpoint}`,
-        payload,
+        signed.payload,
         {
           headers: {
             "Content-Type": "application/json",
-            "x-provider-signature": signature,
+            "x-provider-code": process.env.PROVIDER_CODE || "JAQPOT",
+            "x-provider-signature": signed.signature,
+            [SIGNATURE_TIMESTAMP_HEADER]: signed.timestamp,
+            [SIGNATURE_NONCE_HEADER]: signed.nonce,
           },
           timeout: 10000,
         },
@@ -163,13 +426,23 @@ export class ProviderService {
       return response.data;
     } catch (error: any) {
       if (error.response) {
+        // Responsible-gaming breaches are passed on as-is so the game can tell the player
+        const code =
+          error.response.data?.code === ProviderErrorCodes.RESPONSIBLE_GAMING_LIMIT
+            ? ProviderErrorCodes.RESPONSIBLE_GAMING_LIMIT
+            : ProviderErrorCodes.CASINO_API_ERROR;
         throw new ProviderError(
           error.response.data?.error || "Casino API error",
-          ProviderErrorCodes.CASINO_API_ERROR,
+          code,
           error.response.status,
         );
       }
-      throw error;
+      // No answer: the casino may or may not have applied the call
+      throw new ProviderError(
+        `Casino did not respond: ${error.message}`,
+        ProviderErrorCodes.CASINO_UNREACHABLE,
+        504,
+      );
     }
   }
 
@@ -204,16 +477,33 @@ export class ProviderService {
       );
     }
 
+    // Rounds belong to the player, game and currency the session was launched with
+    const session = await this.requireSession(casino, sessionToken, game.id);
+
     // Generate round ID
     const roundId = generateRoundId();
 
+    // The last payout finishes the round unless more bets or payouts follow it
+    const finalPayoutIndex = actions.reduce(
+      (last, action, index) =>
+        action.type === "payout"
+          ? index
+          : action.type === "bet"
+            ? -1
+            : last,
+      -1,
+    );
+
     // Track results and bet transaction IDs for rollback references
     const results: any[] = [];
     const betTransactionIds: string[] = [];
     let currentBalance = 0;
 
-    for (const action of actions) {
+    for (const [actionIndex, action] of actions.entries()) {
       try {
+        // The session may expire part-way through the round
+        await this.requireSession(casino, sessionToken, game.id);
+
         switch (action.type) {
           case "balance_check": {
             const balanceResponse = await this.callCasinoApi(
@@ -234,33 +524,32 @@ export class ProviderService {
           }
 
           case "bet": {
-            const transactionId = generateTransactionId("bet");
+            // Reject bets outside the game limits before calling the casino
+            this.checkBetLimits(game, action.amount);
 
-            const debitResponse = await this.callCasinoApi(casino, "/debit", {
-              sessionToken,
-              transactionId,
-              roundId,
-              amount: action.amount,
-              description: "Game bet",
-            });
-
-            currentBalance = debitResponse.balance;
-            betTransactionIds.push(transactionId);
-
-            // Record bet in provider database
-            await this.recordBet(
+            const debit = await this.sendDebit(
+              casino,
+              session,
               roundId,
-              transactionId,
-              "bet",
               action.amount,
-              "confirmed",
-              currentBalance,
-              debitResponse,
             );
+            if (!debit.ok) {
+              results.push({
+                action: "bet",
+                success: false,
+                error: debit.error.message,
+                code: debit.error.code,
+                reconciliation: "rolling_back",
+              });
+              continue;
+            }
+
+            currentBalance = debit.response.balance;
+            betTransactionIds.push(debit.transactionId);
 
             results.push({
               action: "bet",
-              transactionId,
+              transactionId: debit.transactionId,
               amount: action.amount,
               balanceAfter: currentBalance,
               success: true,
@@ -269,37 +558,37 @@ export class ProviderService {
           }
 
           case "payout": {
-            const transactionId = generateTransactionId("payout");
-            const relatedTransactionId =
-              action.betIndex !== undefined
-                ? betTransactionIds[action.betIndex]
-                : undefined;
-
-            const creditResponse = await this.callCasinoApi(casino, "/credit", {
-              sessionToken,
-              transactionId,
-              roundId,
-              amount: action.amount,
-              relatedTransactionId,
-              description: "Game payout",
-            });
-
-            currentBalance = creditResponse.balance;
-
-            // Record payout in provider database
-            await this.recordBet(
+            const credit = await this.sendCredit(
+              casino,
+              session,
               roundId,
-              transactionId,
-              "payout",
               action.amount,
-              "confirmed",
-              currentBalance,
-              creditResponse,
+              {
+                relatedTransactionId:
+                  action.betIndex !== undefined
+                    ? betTransactionIds[action.betIndex]
+                    : undefined,
+                isRoundFinished: actionIndex === finalPayoutIndex,
+              },
             );
+            if (!credit.ok) {
+              results.push({
+                action: "payout",
+                transactionId: credit.transactionId,
+                amount: action.amount,
+                success: false,
+                error: credit.error.message,
+                code: credit.error.code,
+                reconciliation: "retrying",
+              });
+              continue;
+            }
+
+            currentBalance = credit.response.balance;
 
             results.push({
               action: "payout",
-              transactionId,
+              transactionId: credit.transactionId,
               amount: action.amount,
               balanceAfter: currentBalance,
               success: true,
@@ -323,29 +612,60 @@ export class ProviderService {
             const originalTransactionId = betTransactionIds[action.betIndex];
             const transactionId = generateTransactionId("rollback");
 
-            const rollbackResponse = await this.callCasinoApi(
-              casino,
-              "/rollback",
-              {
-                sessionToken,
-                transactionId,
-                originalTransactionId,
-                reason: "Game cancelled",
-              },
-            );
-
-            currentBalance = rollbackResponse.balance;
+            const rollbackPayload = {
+              sessionToken,
+              transactionId,
+              originalTransactionId,
+              reason: "Game cancelled",
+            };
 
-            // Record rollback in provider database
             await this.recordBet(
+              session,
               roundId,
               transactionId,
               "rollback",
               0,
-              "confirmed",
+            );
+
+            let rollbackResponse: any;
+            try {
+              rollbackResponse = await this.callCasinoApi(
+                casino,
+                "/rollback",
+                rollbackPayload,
+              );
+            } catch (error: any) {
+              if (!isRetryableCasinoError(error)) {
+                await this.setBetStatus(transactionId, "failed");
+                throw error;
+              }
+
+              await this.enqueueOutbox(
+                casino,
+                "rollback",
+                transactionId,
+                rollbackPayload,
+              );
+              results.push({
+                action: "rollback",
+                transactionId,
+                originalTransactionId,
+                success: false,
+                error: error.message,
+                code: error.code,
+                reconciliation: "retrying",
+              });
+              continue;
+            }
+
+            currentBalance = rollbackResponse.balance;
+
+            await this.confirmBet(
+              transactionId,
               currentBalance,
               rollbackResponse,
             );
+            await this.markBetRolledBack(originalTransactionId, transactionId);
 
             results.push({
               action: "rollback",
@@ -371,6 +691,7 @@ export class ProviderService {
           action: action.type,
           success: false,
           error: error.message || "Action failed",
+          code: error.code,
         });
 
         // If a bet fails due to insufficient funds, continue with other actions
@@ -387,79 +708,648 @@ export class ProviderService {
     };
   }
 
-  // Record a bet/payout/rollback in provider database
-  private async recordBet(
+  // Play one round of an engine-driven game: debit the stake, draw the outcome from the
+  // session's server seed, the client seed and the nonce, and credit the payout (zero for a
+  // loss), which closes the round
+  async playRound(
+    casinoCode: string,
+    sessionToken: string,
+    gameId: string,
+    betInput: unknown,
+    fairnessInput: { clientSeed?: unknown; nonce?: unknown } = {},
+  ): Promise<{
+    roundId: string;
+    transactionId: string;
+    stake: number;
+    payout: number;
+    outcome: unknown;
+    balance: number;
+    payoutStatus: "credited" | "pending" | "held";
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+  }> {
+    const casino = await this.getCasinoByCode(casinoCode);
+    if (!casino) {
+      throw new ProviderError(
+        "Invalid casino",
+        ProviderErrorCodes.INVALID_CASINO,
+        401,
+      );
+    }
+
+    const game = await this.getGameByGameId(gameId);
+    if (!game) {
+      throw new ProviderError(
+        "Game not found",
+        ProviderErrorCodes.INVALID_GAME,
+        404,
+      );
+    }
+
+    const engine = getEngine(game.engine);
+    if (!engine) {
+      throw new ProviderError(
+        "Game has no engine and cannot be played",
+        ProviderErrorCodes.GAME_NOT_PLAYABLE,
+        400,
+      );
+    }
+
+    const session = await this.requireSession(casino, sessionToken, game.id);
+    const { stake, bet } = engine.parseBet(betInput);
+    this.checkBetLimits(game, stake);
+    const clientSeed = this.parseClientSeed(fairnessInput.clientSeed);
+    const nonce = await this.claimNonce(session, fairnessInput.nonce);
+
+    const roundId = generateRoundId();
+    const debit = await this.sendDebit(casino, session, roundId, stake);
+    if (!debit.ok) {
+      // The stake is being rolled back, so the round is not played
+      throw debit.error;
+    }
+
+    const { outcome, payout } = engine.play(
+      bet,
+      createRoundRng(session.server_seed, clientSeed, nonce),
+    );
+    await query(
+      `UPDATE provider_game_rounds
+       SET server_seed_hash = $1, client_seed = $2, nonce = $3, bet = $4, outcome = $5
+       WHERE round_id = $6`,
+      [
+        session.server_seed_hash,
+        clientSeed,
+        nonce,
+        JSON.stringify(bet),
+        JSON.stringify(outcome),
+        roundId,
+      ],
+    );
+
+    // The stake is already taken, so a refused payout is held rather than thrown
+    const credit = await this.sendCredit(casino, session, roundId, payout, {
+      relatedTransactionId: debit.transactionId,
+      isRoundFinished: true,
+      holdIfRejected: true,
+    });
+    if (!credit.ok && !credit.held) {
+      console.warn(
+        `Payout ${credit.transactionId} for round ${roundId} queued for retry: ${credit.error.message}`,
+      );
+    }
+
+    return {
+      roundId,
+      transactionId: debit.transactionId,
+      stake,
+      payout,
+      outcome,
+      balance: credit.ok ? credit.response.balance : debit.response.balance,
+      payoutStatus: credit.ok ? "credited" : credit.held ? "held" : "pending",
+      serverSeedHash: session.server_seed_hash,
+      clientSeed,
+      nonce,
+    };
+  }
+
+  private parseClientSeed(input: unknown): string {
+    if (input === undefined || input === null) {
+      return generateClientSeed();
+    }
+    if (typeof input !== "string" || input.length === 0 || input.length > 64) {
+      throw new ProviderError(
+        "clientSeed must be a string of 1 to 64 characters",
+        ProviderErrorCodes.INVALID_BET,
+        400,
+      );
+    }
+    return input;
+  }
+
+  // Take the session's next nonce, or the requested one if it has not been used yet.
+  // Nonces only move forward, so no two rounds of a session share an outcome stream.
+  private async claimNonce(
+    session: ProviderSession,
+    requested: unknown,
+  ): Promise<number> {
+    if (
+      requested !== undefined &&
+      requested !== null &&
+      (!Number.isInteger(requested) || (requested as number) < 0)
+    ) {
+      throw new ProviderError(
+        "nonce must be a non-negative integer",
+        ProviderErrorCodes.INVALID_NONCE,
+        400,
+      );
+    }
+
+    const result = await query(
+      `UPDATE provider_sessions
+       SET next_nonce = COALESCE($2::int, next_nonce) + 1
+       WHERE id = $1 AND ($2::int IS NULL OR $2::int >= next_nonce)
+       RETURNING next_nonce - 1 AS nonce`,
+      [session.id, requested ?? null],
+    );
+    if (result.rows.length === 0) {
+      throw new ProviderError(
+        "nonce has already been used in this session",
+        ProviderErrorCodes.INVALID_NONCE,
+        409,
+      );
+    }
+    return result.rows[0].nonce;
+  }
+
+  // End a session at the casino's request and reveal its server seed. Ending it again
+  // returns the same seed.
+  async endSession(
+    casinoCode: string,
+    sessionToken: string,
+  ): Promise<ProviderSession> {
+    const casino = await this.getCasinoByCode(casinoCode);
+    if (!casino) {
+      throw new ProviderError(
+        "Invalid casino",
+        ProviderErrorCodes.INVALID_CASINO,
+        401,
+      );
+    }
+
+    const result = await query(
+      `UPDATE provider_sessions
+       SET ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP)
+       WHERE casino_id = $1 AND session_token = $2
+       RETURNING *`,
+      [casino.id, sessionToken],
+    );
+    if (result.rows.length === 0) {
+      throw new ProviderError(
+        "Session not found",
+        ProviderErrorCodes.INVALID_SESSION,
+        401,
+      );
+    }
+    return result.rows[0];
+  }
+
+  // Replay an engine-driven round from its revealed server seed, client seed and nonce
+  async verifyRound(roundId: string): Promise<{
+    round: ProviderGameRound;
+    game: ProviderGame;
+    serverSeed: string;
+    seedMatchesHash: boolean;
+    computedOutcome: unknown;
+    computedPayout: number;
+    verified: boolean;
+  }> {
+    const { round, game, session } = await this.getRoundDetails(roundId);
+    const engine = getEngine(game.engine);
+    if (round.nonce === null || round.client_seed === null || !engine) {
+      throw new ProviderError(
+        "Round was not drawn by a game engine and cannot be verified",
+        ProviderErrorCodes.ROUND_NOT_VERIFIABLE,
+        400,
+      );
+    }
+    if (!isSeedRevealed(session)) {
+      throw new ProviderError(
+        "Server seed is revealed once the session has ended",
+        ProviderErrorCodes.SEED_NOT_REVEALED,
+        409,
+      );
+    }
+
+    const seedMatchesHash =
+      hashServerSeed(session.server_seed) === round.server_seed_hash;
+    const { outcome, payout } = engine.play(
+      round.bet,
+      createRoundRng(session.server_seed, round.client_seed, round.nonce),
+    );
+
+    return {
+      round,
+      game,
+      serverSeed: session.server_seed,
+      seedMatchesHash,
+      computedOutcome: outcome,
+      computedPayout: payout,
+      // JSONB does not keep key order, so compare structurally
+      verified: seedMatchesHash && isDeepStrictEqual(outcome, round.outcome),
+    };
+  }
+
+  private checkBetLimits(game: ProviderGame, amount: number): void {
+    if (amount < Number(game.min_bet) || amount > Number(game.max_bet)) {
+      throw new ProviderError(
+        `Bet amount must be between ${game.min_bet} and ${game.max_bet}`,
+        ProviderErrorCodes.BET_LIMIT_EXCEEDED,
+        400,
+      );
+    }
+  }
+
+  // Debit a stake, recorded as pending first so an unanswered debit can still be reconciled
+  // A rejected debit throws; one with an unknown outcome is queued for rollback and not ok
+  private async sendDebit(
+    casino: ProviderCasino,
+    session: ProviderSession,
     roundId: string,
-    transactionId: string,
-    betType: BetType,
     amount: number,
-    status: BetStatus,
-    balanceAfter: number,
-    responseCache: any,
-  ): Promise<void> {
-    // First, ensure round exists (create if needed)
-    let round = await this.getRoundByRoundId(roundId);
+  ): Promise<CasinoCallResult> {
+    const transactionId = generateTransactionId("bet");
 
-    if (!round) {
-      // Create a placeholder round (in real implementation, you'd have proper user/game context)
-      const roundDbId = uuidv4();
-
-      // Get first casino user and game as placeholder
-      const userResult = await query(
-        "SELECT * FROM provider_casino_users LIMIT 1",
-      );
-      const gameResult = await query("SELECT * FROM provider_games LIMIT 1");
-
-      if (userResult.rows[0] && gameResult.rows[0]) {
-        await query(
-          `INSERT INTO provider_game_rounds (id, round_id, player_id, game_id, session_id, currency, status)
-           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-          [
-            roundDbId,
-            roundId,
-            userResult.rows[0].id,
-            gameResult.rows[0].id,
-            "session",
-            "USD",
-            "open",
-          ],
+    await this.recordBet(session, roundId, transactionId, "bet", amount);
+
+    let response: any;
+    try {
+      response = await this.callCasinoApi(casino, "/debit", {
+        sessionToken: session.session_token,
+        transactionId,
+        roundId,
+        amount,
+        description: "Game bet",
+      });
+    } catch (error: any) {
+      if (!isOutcomeUnknown(error)) {
+        await this.setBetStatus(transactionId, "failed");
+        throw error;
+      }
+
+      // The casino may have taken the stake; roll it back to be sure
+      await this.queueRollback(
+        casino,
+        session,
+        roundId,
+        transactionId,
+        "Debit outcome unknown",
+      );
+      return { ok: false, transactionId, error };
+    }
+
+    await this.confirmBet(transactionId, response.balance, response);
+    return { ok: true, transactionId, response };
+  }
+
+  // Credit a payout; an unanswered one is queued for resending. A rejected credit throws,
+  // or with holdIfRejected is kept as a failed outbox entry for manual reconciliation
+  private async sendCredit(
+    casino: ProviderCasino,
+    session: ProviderSession,
+    roundId: string,
+    amount: number,
+    options: {
+      relatedTransactionId?: string;
+      isRoundFinished: boolean;
+      holdIfRejected?: boolean;
+    },
+  ): Promise<CasinoCallResult> {
+    const transactionId = generateTransactionId("payout");
+    const payload = {
+      sessionToken: session.session_token,
+      transactionId,
+      roundId,
+      amount,
+      relatedTransactionId: options.relatedTransactionId,
+      isRoundFinished: options.isRoundFinished,
+      description: "Game payout",
+    };
+
+    await this.recordBet(session, roundId, transactionId, "payout", amount);
+
+    let response: any;
+    try {
+      response = await this.callCasinoApi(casino, "/credit", payload);
+    } catch (error: any) {
+      if (!isRetryableCasinoError(error)) {
+        await this.setBetStatus(transactionId, "failed");
+        if (!options.holdIfRejected) {
+          throw error;
+        }
+
+        await this.enqueueOutbox(casino, "credit", transactionId, payload, {
+          rejectedWith: String(error.message).slice(0, 500),
+        });
+        console.error(
+          `Payout ${transactionId} for round ${roundId} rejected by the casino, held for manual reconciliation: ${error.message}`,
         );
-        round = await this.getRoundByRoundId(roundId);
+        return { ok: false, transactionId, error, held: true };
       }
+
+      // A won payout must reach the player; resend it until the casino acknowledges it
+      await this.enqueueOutbox(casino, "credit", transactionId, payload);
+      return { ok: false, transactionId, error };
     }
 
-    if (!round) return;
+    await this.confirmBet(transactionId, response.balance, response);
+    if (options.isRoundFinished) {
+      await this.closeRound(roundId);
+    }
+    return { ok: true, transactionId, response };
+  }
+
+  // Resend due outbox entries; returns how many the casino acknowledged
+  async deliverOutbox(batchSize: number = 50): Promise<number> {
+    // Lease claimed entries so a slow delivery is not picked up twice
+    const claimed = await query(
+      `UPDATE provider_outbox
+       SET next_attempt_at = CURRENT_TIMESTAMP + INTERVAL '60 seconds'
+       WHERE id IN (
+         SELECT id FROM provider_outbox
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [batchSize],
+    );
+
+    let delivered = 0;
+    for (const entry of claimed.rows as ProviderOutboxEntry[]) {
+      const casinoResult = await query(
+        "SELECT * FROM provider_casinos WHERE id = $1",
+        [entry.casino_id],
+      );
+      const casino: ProviderCasino = casinoResult.rows[0];
+
+      let response: any;
+      try {
+        response = await this.callCasinoApi(
+          casino,
+          `/${entry.operation}`,
+          entry.payload,
+        );
+      } catch (error: any) {
+        await this.recordDeliveryFailure(entry, error);
+        continue;
+      }
+
+      await query(
+        `UPDATE provider_outbox
+         SET status = 'delivered', attempts = attempts + 1, last_error = NULL,
+             delivered_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [entry.id],
+      );
+      await this.confirmBet(entry.transaction_id, response.balance, response);
+      if (entry.operation === "credit" && entry.payload.isRoundFinished) {
+        await this.closeRound(entry.payload.roundId);
+      }
+      if (entry.operation === "rollback") {
+        await this.markBetRolledBack(
+          entry.payload.originalTransactionId,
+          entry.transaction_id,
+        );
+      }
+      delivered++;
+    }
+
+    return delivered;
+  }
+
+  // Outbox entries for reconciliation, newest first
+
+  async listOutbox(status?: OutboxStatus): Promise<ProviderOutboxEntry[]> {
+    const result = await query(
+      `SELECT * FROM provider_outbox
+       WHERE ($1::text IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT 200`,
+      [status || null],
+    );
+    return result.rows;
+  }
+
+  // Put an entry the casino rejected back in the queue, e.g. once the cause is fixed
+
+  async retryOutboxEntry(id: string): Promise<ProviderOutboxEntry> {
+    const result = await query(
+      `UPDATE provider_outbox
+       SET status = 'pending', next_attempt_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'failed'
+       RETURNING *`,
+      [id],
+    );
+
+    if (!result.rows[0]) {
+      throw new ProviderError(
+        "No failed outbox entry with this id",
+        ProviderErrorCodes.OUTBOX_ENTRY_NOT_FOUND,
+        404,
+      );
+    }
+
+    return result.rows[0];
+  }
+
+  // Keep retrying calls that may still go through; give up on ones the casino refused
+  private async recordDeliveryFailure(
+    entry: ProviderOutboxEntry,
+    error: any,
+  ): Promise<void> {
+    const lastError = String(error.message).slice(0, 500);
+
+    if (isRetryableCasinoError(error)) {
+      await query(
+        `UPDATE provider_outbox
+         SET attempts = attempts + 1, next_attempt_at = $2, last_error = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [entry.id, getNextOutboxAttempt(entry.attempts + 1), lastError],
+      );
+      return;
+    }
 
-    // Record the bet
-    const betId = uuidv4();
     await query(
-      `INSERT INTO provider_bets (id, transaction_id, round_id, bet_type, amount, status, casino_balance_after, response_cache)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `UPDATE provider_outbox
+       SET status = 'failed', attempts = attempts + 1, last_error = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [entry.id, lastError],
+    );
+    await this.setBetStatus(entry.transaction_id, "failed");
+    console.error(
+      `Outbox ${entry.operation} ${entry.transaction_id} rejected by the casino, needs manual reconciliation: ${lastError}`,
+    );
+  }
+
+  // Queue a call for delivery; the first attempt is made by the next outbox run.
+  // A call the casino already rejected is stored as failed, to be retried by an operator.
+  private async enqueueOutbox(
+    casino: ProviderCasino,
+    operation: OutboxOperation,
+    transactionId: string,
+    payload: object,
+    options: { rejectedWith?: string } = {},
+  ): Promise<void> {
+    await query(
+      `INSERT INTO provider_outbox (casino_id, operation, transaction_id, payload, status, attempts, last_error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
        ON CONFLICT (transaction_id) DO NOTHING`,
       [
-        betId,
+        casino.id,
+        operation,
         transactionId,
-        round.id,
-        betType,
-        amount,
-        status,
-        balanceAfter,
-        JSON.stringify(responseCache),
+        JSON.stringify(payload),
+        options.rejectedWith ? "failed" : "pending",
+        options.rejectedWith ? 1 : 0,
+        options.rejectedWith || null,
       ],
     );
+  }
 
-    // Update round totals
-    if (betType === "bet") {
-      await query(
-        "UPDATE provider_game_rounds SET total_bet_amount = total_bet_amount + $1 WHERE id = $2",
-        [amount, round.id],
-      );
-    } else if (betType === "payout") {
-      await query(
-        "UPDATE provider_game_rounds SET total_payout_amount = total_payout_amount + $1 WHERE id = $2",
-        [amount, round.id],
+  // Roll back a debit whose outcome is unknown; the casino records a tombstone if it never applied it
+  private async queueRollback(
+    casino: ProviderCasino,
+    session: ProviderSession,
+    roundId: string,
+    originalTransactionId: string,
+    reason: string,
+  ): Promise<void> {
+    const transactionId = generateTransactionId("rollback");
+
+    await this.recordBet(session, roundId, transactionId, "rollback", 0);
+    await this.enqueueOutbox(casino, "rollback", transactionId, {
+      sessionToken: session.session_token,
+      transactionId,
+      originalTransactionId,
+      reason,
+    });
+  }
+
+  // Record a bet/payout/rollback as pending before it is sent to the casino
+  // The round is opened by its first transaction, for the session's player and game
+  private async recordBet(
+    session: ProviderSession,
+    roundId: string,
+    transactionId: string,
+    betType: BetType,
+    amount: number,
+  ): Promise<void> {
+    await query(
+      `INSERT INTO provider_game_rounds (round_id, player_id, game_id, session_id, currency)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (round_id) DO NOTHING`,
+      [
+        roundId,
+        session.player_id,
+        session.game_id,
+        session.id,
+        session.currency,
+      ],
+    );
+    const round = (await this.getRoundByRoundId(roundId)) as ProviderGameRound;
+
+    if (!acceptsTransaction(round.status, betType)) {
+      throw new ProviderError(
+        `Round ${roundId} is ${round.status}`,
+        ProviderErrorCodes.ROUND_CLOSED,
+        409,
       );
     }
+
+    // Record the bet
+    const betId = uuidv4();
+    await query(
+      `INSERT INTO provider_bets (id, transaction_id, round_id, bet_type, amount, status)
+       VALUES ($1, $2, $3, $4, $5, 'pending')
+       ON CONFLICT (transaction_id) DO NOTHING`,
+      [betId, transactionId, round.id, betType, amount],
+    );
+  }
+
+  // Mark a transaction acknowledged by the casino and count it in the round totals
+  private async confirmBet(
+    transactionId: string,
+    balanceAfter: number,
+    responseCache: any,
+  ): Promise<void> {
+    await transaction(async (client) => {
+      // A failed entry retried by an operator can still be confirmed
+      const result = await client.query(
+        `UPDATE provider_bets
+         SET status = 'confirmed', casino_balance_after = $2, response_cache = $3
+         WHERE transaction_id = $1 AND status IN ('pending', 'failed')
+         RETURNING *`,
+        [transactionId, balanceAfter, JSON.stringify(responseCache)],
+      );
+      const bet: ProviderBet | undefined = result.rows[0];
+      if (!bet) return;
+
+      if (bet.bet_type === "bet") {
+        await client.query(
+          "UPDATE provider_game_rounds SET total_bet_amount = total_bet_amount + $1 WHERE id = $2",
+          [bet.amount, bet.round_id],
+        );
+      } else if (bet.bet_type === "payout") {
+        await client.query(
+          "UPDATE provider_game_rounds SET total_payout_amount = total_payout_amount + $1 WHERE id = $2",
+          [bet.amount, bet.round_id],
+        );
+      }
+    });
+  }
+
+  private async setBetStatus(
+    transactionId: string,
+    status: BetStatus,
+  ): Promise<void> {
+    await query(
+      "UPDATE provider_bets SET status = $2 WHERE transaction_id = $1 AND status = 'pending'",
+      [transactionId, status],
+    );
+  }
+
+  // Mark a bet undone by an acknowledged rollback, taking it out of the round totals
+  private async markBetRolledBack(
+    transactionId: string,
+    rollbackTransactionId: string,
+  ): Promise<void> {
+    await transaction(async (client) => {
+      const result = await client.query(
+        "SELECT * FROM provider_bets WHERE transaction_id = $1 FOR UPDATE",
+        [transactionId],
+      );
+      const bet: ProviderBet | undefined = result.rows[0];
+      if (!bet || bet.status === "rolled_back") return;
+
+      await client.query(
+        `UPDATE provider_bets
+         SET status = 'rolled_back', is_rolled_back = true, rollback_idempotency_marker = $2
+         WHERE id = $1`,
+        [bet.id, rollbackTransactionId],
+      );
+
+      if (bet.status === "confirmed" && bet.bet_type === "bet") {
+        await client.query(
+          "UPDATE provider_game_rounds SET total_bet_amount = total_bet_amount - $1 WHERE id = $2",
+          [bet.amount, bet.round_id],
+        );
+      }
+
+      const roundBets = await client.query(
+        "SELECT bet_type, status FROM provider_bets WHERE round_id = $1",
+        [bet.round_id],
+      );
+      if (isRoundCancelled(roundBets.rows)) {
+        await client.query(
+          `UPDATE provider_game_rounds
+           SET status = 'cancelled', closed_at = COALESCE(closed_at, CURRENT_TIMESTAMP)
+           WHERE id = $1 AND status <> 'cancelled'`,
+          [bet.round_id],
+        );
+      }
+    });
+  }
+
+  // Close a round once its final payout is acknowledged
+  private async closeRound(roundId: string): Promise<void> {
+    await query(
+      `UPDATE provider_game_rounds
+       SET status = 'closed', closed_at = CURRENT_TIMESTAMP
+       WHERE round_id = $1 AND status = 'open'`,
+      [roundId],
+    );
   }
 }
 
@@ -0,0 +1,90 @@
+import { getSessionProblem, getProviderSessionTtlSeconds } from "./sessions";
+import { ProviderSession } from "./types";
+
+const now = new Date("2024-01-01T12:00:00Z");
+
+const session: ProviderSession = {
+  id: "session-1",
+  provider_session_id: "psess_1",
+  casino_id: "casino-1",
+  session_token: "token-1",
+  player_id: "player-1",
+  game_id: "game-1",
+  currency: "USD",
+  server_seed: "seed",
+  server_seed_hash: "hash",
+  next_nonce: 0,
+  expires_at: new Date("2024-01-02T12:00:00Z"),
+  ended_at: null,
+  created_at: now,
+};
+
+describe("Provider Sessions Module", () => {
+  describe("getSessionProblem", () => {
+    it("should accept a live session of the calling casino and game", () => {
+      expect(
+        getSessionProblem(
+          session,
+          { casinoId: "casino-1", gameId: "game-1" },
+          now,
+        ),
+      ).toBeNull();
+    });
+
+    it("should reject tokens the provider never launched for this casino", () => {
+      expect(getSessionProblem(null, { casinoId: "casino-1" }, now)).toBe(
+        "Session was not launched with this provider",
+      );
+      expect(getSessionProblem(session, { casinoId: "casino-2" }, now)).toBe(
+        "Session was not launched with this provider",
+      );
+    });
+
+    it("should reject a session used for another game", () => {
+      expect(
+        getSessionProblem(
+          session,
+          { casinoId: "casino-1", gameId: "game-2" },
+          now,
+        ),
+      ).toBe("Session was launched for a different game");
+    });
+
+    it("should reject a session the casino has ended", () => {
+      expect(
+        getSessionProblem(session, { casinoId: "casino-1" }, now),
+      ).toBeNull();
+      expect(
+        getSessionProblem({ ...session, ended_at: now }, { casinoId: "casino-1" }, now),
+      ).toBe("Session has ended");
+    });
+
+    it("should reject an expired session", () => {
+      const later = new Date("2024-01-02T12:00:00Z");
+
+      expect(getSessionProblem(session, { casinoId: "casino-1" }, later)).toBe(
+        "Session has expired",
+      );
+    });
+  });
+
+  describe("getProviderSessionTtlSeconds", () => {
+    const original = process.env.PROVIDER_SESSION_TTL_SECONDS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.PROVIDER_SESSION_TTL_SECONDS;
+      } else {
+        process.env.PROVIDER_SESSION_TTL_SECONDS = original;
+      }
+    });
+
+    it("should fall back to a day for missing or invalid values", () => {
+      process.env.PROVIDER_SESSION_TTL_SECONDS = "abc";
+      expect(getProviderSessionTtlSeconds()).toBe(86400);
+
+      process.env.PROVIDER_SESSION_TTL_SECONDS = "600";
+      expect(getProviderSessionTtlSeconds()).toBe(600);
+    });
+  });
+});
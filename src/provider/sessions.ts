@@ -0,0 +1,33 @@
+import { ProviderSession } from "./types";
+
+// Provider sessions exist only for casino session tokens launched through /provider/launch.
+// Every provider-side action checks that its token belongs to a session of the calling
+// casino, for the game being played, and that the session has not ended or expired.
+
+// Read the session lifetime from PROVIDER_SESSION_TTL_SECONDS
+export function getProviderSessionTtlSeconds(): number {
+  const parsed = parseInt(process.env.PROVIDER_SESSION_TTL_SECONDS || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 86400;
+}
+
+// Why a session cannot be used for an action, or null when it can
+export function getSessionProblem(
+  session: ProviderSession | null,
+  expected: { casinoId: string; gameId?: string },
+  now: Date = new Date(),
+): string | null {
+  if (!session || session.casino_id !== expected.casinoId) {
+    return "Session was not launched with this provider";
+  }
+  if (expected.gameId !== undefined && session.game_id !== expected.gameId) {
+    return "Session was launched for a different game";
+  }
+  if (session.ended_at) {
+    return "Session has ended";
+  }
+  if (new Date(session.expires_at).getTime() <= now.getTime()) {
+    return "Session has expired";
+  }
+
+  return null;
+}
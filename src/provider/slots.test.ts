@@ -0,0 +1,55 @@
+import { slotEngine, getLineMultiplier, REEL_STRIP, PAYTABLE } from "./slots";
+import { Rng } from "./rng";
+
+// Rng that stops the reels at the given positions in turn
+function fixedStops(stops: number[]): Rng {
+  let index = 0;
+  return { nextInt: () => stops[index++] };
+}
+
+describe("Slots Module", () => {
+  describe("getLineMultiplier", () => {
+    it("should pay three of a kind from the paytable", () => {
+      expect(getLineMultiplier(["seven", "seven", "seven"])).toBe(PAYTABLE.seven);
+      expect(getLineMultiplier(["lemon", "lemon", "lemon"])).toBe(PAYTABLE.lemon);
+    });
+
+    it("should pay two leading cherries and nothing else", () => {
+      expect(getLineMultiplier(["cherry", "cherry", "bell"])).toBe(2);
+      expect(getLineMultiplier(["bell", "cherry", "cherry"])).toBe(0);
+      expect(getLineMultiplier(["bar", "bell", "seven"])).toBe(0);
+    });
+
+    it("should return less than the stake on average", () => {
+      let total = 0;
+      for (const a of REEL_STRIP) {
+        for (const b of REEL_STRIP) {
+          for (const c of REEL_STRIP) {
+            total += getLineMultiplier([a, b, c]);
+          }
+        }
+      }
+      const rtp = total / REEL_STRIP.length ** 3;
+
+      expect(rtp).toBeGreaterThan(0.7);
+      expect(rtp).toBeLessThan(1);
+    });
+  });
+
+  describe("slotEngine", () => {
+    it("should read the line at the reel stops and pay the stake times the multiplier", () => {
+      const seven = REEL_STRIP.indexOf("seven");
+      const { bet } = slotEngine.parseBet({ amount: 100 });
+
+      const { outcome, payout } = slotEngine.play(bet, fixedStops([seven, seven, seven]));
+
+      expect(outcome.line).toEqual(["seven", "seven", "seven"]);
+      expect(payout).toBe(100 * PAYTABLE.seven);
+    });
+
+    it("should reject a missing or fractional amount", () => {
+      expect(() => slotEngine.parseBet({})).toThrow("amount must be a positive whole amount");
+      expect(() => slotEngine.parseBet({ amount: 0.5 })).toThrow("amount must be a positive whole amount");
+    });
+  });
+});
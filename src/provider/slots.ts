@@ -0,0 +1,88 @@
+import { GameEngine } from "./engines";
+import { Rng } from "./rng";
+import { ProviderError, ProviderErrorCodes } from "./types";
+
+// Three-reel slot with a single payline. Each reel stops at a uniformly random
+// position on the same weighted strip; the symbols on the line are paid from the
+// paytable as a multiple of the stake.
+
+export type SlotSymbol =
+  | "cherry"
+  | "lemon"
+  | "orange"
+  | "plum"
+  | "bell"
+  | "bar"
+  | "seven";
+
+export interface SlotBet {
+  amount: number;
+}
+
+export interface SlotOutcome {
+  stops: number[];
+  line: SlotSymbol[];
+  multiplier: number;
+}
+
+// 20 positions; rarer symbols pay more
+export const REEL_STRIP: SlotSymbol[] = [
+  "cherry", "lemon", "orange", "cherry", "plum", "lemon", "seven",
+  "cherry", "orange", "lemon", "bell", "cherry", "orange", "lemon",
+  "bar", "cherry", "plum", "orange", "lemon", "cherry",
+];
+
+export const REEL_COUNT = 3;
+
+// Multiplier for three of a kind on the line
+export const PAYTABLE: Record<SlotSymbol, number> = {
+  seven: 1000,
+  bar: 200,
+  bell: 100,
+  plum: 50,
+  orange: 20,
+  lemon: 10,
+  cherry: 5,
+};
+
+// Two cherries on the first two reels still pay
+export const TWO_CHERRIES_MULTIPLIER = 2;
+
+export function getLineMultiplier(line: SlotSymbol[]): number {
+  if (line.every((symbol) => symbol === line[0])) {
+    return PAYTABLE[line[0]];
+  }
+  if (line[0] === "cherry" && line[1] === "cherry") {
+    return TWO_CHERRIES_MULTIPLIER;
+  }
+  return 0;
+}
+
+export const slotEngine: GameEngine<SlotBet, SlotOutcome> = {
+  name: "slots",
+
+  parseBet(input: any) {
+    if (!Number.isInteger(input?.amount) || input.amount <= 0) {
+      throw new ProviderError(
+        "amount must be a positive whole amount",
+        ProviderErrorCodes.INVALID_BET,
+        400,
+      );
+    }
+
+    return { stake: input.amount, bet: { amount: input.amount } };
+  },
+
+  play(bet: SlotBet, rng: Rng) {
+    const stops = Array.from({ length: REEL_COUNT }, () =>
+      rng.nextInt(REEL_STRIP.length),
+    );
+    const line = stops.map((stop) => REEL_STRIP[stop]);
+    const multiplier = getLineMultiplier(line);
+
+    return {
+      outcome: { stops, line, multiplier },
+      payout: bet.amount * multiplier,
+    };
+  },
+};
@@ -1,5 +1,7 @@
 // Provider Domain Types
 
+import { SignatureMode } from '../shared/security';
+
 export interface ProviderGame {
   id: string;
   game_id: string;
@@ -7,7 +9,10 @@ export interface ProviderGame {
   is_active: boolean;
   min_bet: number;
   max_bet: number;
+  // Engine that decides outcomes (see engines.ts); null for games only driven by scripts
+  engine: string | null;
   created_at: Date;
+  updated_at: Date;
 }
 
 export interface ProviderCasino {
@@ -15,6 +20,7 @@ export interface ProviderCasino {
   casino_code: string;
   casino_api_endpoint: string;
   secret_key: string;
+  signature_mode: SignatureMode;
   is_active: boolean;
   created_at: Date;
 }
@@ -27,6 +33,24 @@ export interface ProviderCasinoUser {
   created_at: Date;
 }
 
+// A game session started by a casino launch, identified to the casino by its session token
+export interface ProviderSession {
+  id: string;
+  provider_session_id: string;
+  casino_id: string;
+  session_token: string;
+  player_id: string;
+  game_id: string;
+  currency: string;
+  // Commitment for provably fair rounds (see fairness.ts); the seed stays secret until the session ends
+  server_seed: string;
+  server_seed_hash: string;
+  next_nonce: number;
+  expires_at: Date;
+  ended_at: Date | null;
+  created_at: Date;
+}
+
 export interface ProviderGameRound {
   id: string;
   round_id: string;
@@ -37,6 +61,12 @@ export interface ProviderGameRound {
   status: RoundStatus;
   total_bet_amount: number;
   total_payout_amount: number;
+  // Set for rounds decided by a game engine
+  server_seed_hash: string | null;
+  client_seed: string | null;
+  nonce: number | null;
+  bet: any;
+  outcome: any;
   created_at: Date;
   closed_at: Date | null;
 }
@@ -55,9 +85,27 @@ export interface ProviderBet {
   created_at: Date;
 }
 
+// A casino wallet call awaiting acknowledgement (see outbox.ts)
+export interface ProviderOutboxEntry {
+  id: string;
+  casino_id: string;
+  operation: OutboxOperation;
+  transaction_id: string;
+  payload: any;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  delivered_at: Date | null;
+}
+
 export type RoundStatus = 'open' | 'closed' | 'cancelled';
 export type BetType = 'bet' | 'payout' | 'rollback';
 export type BetStatus = 'pending' | 'confirmed' | 'failed' | 'rolled_back';
+export type OutboxOperation = 'credit' | 'rollback';
+export type OutboxStatus = 'pending' | 'delivered' | 'failed';
 
 // API Request/Response Types
 
@@ -75,6 +123,81 @@ export interface ProviderLaunchResponse {
   providerSessionId: string;
   gameUrl: string;
   playerId: string;
+  serverSeedHash: string;
+}
+
+export interface ProviderEndSessionRequest {
+  casinoCode: string;
+  sessionToken: string;
+}
+
+export interface ProviderEndSessionResponse {
+  success: boolean;
+  providerSessionId: string;
+  endedAt: Date;
+  serverSeed: string;
+  serverSeedHash: string;
+}
+
+export interface ProviderGamesResponse {
+  success: boolean;
+  games: {
+    gameId: string;
+    name: string;
+    minBet: number;
+    maxBet: number;
+  }[];
+}
+
+export interface UpsertProviderGameRequest {
+  name: string;
+  minBet: number;
+  maxBet: number;
+  isActive?: boolean;
+  engine?: string | null;
+}
+
+export interface ProviderPlayRequest {
+  casinoCode: string;
+  sessionToken: string;
+  gameId: string;
+  // Engine-specific: { amount } for slots, { bets: [{ type, amount, number? }] } for roulette
+  bet: any;
+  // Provably fair inputs; a random client seed and the session's next nonce when omitted
+  clientSeed?: string;
+  nonce?: number;
+}
+
+export interface ProviderPlayResponse {
+  success: boolean;
+  roundId: string;
+  transactionId: string;
+  stake: number;
+  payout: number;
+  outcome: any;
+  balance: number;
+  // 'pending' while an unacknowledged win is being resent to the casino; 'held' when the
+  // casino refused it and it awaits manual reconciliation in the outbox
+  payoutStatus: 'credited' | 'pending' | 'held';
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export interface ProviderVerifyResponse {
+  success: boolean;
+  roundId: string;
+  gameId: string;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  // The revealed seed matches the hash published at launch and replays the recorded outcome
+  verified: boolean;
+  seedMatchesHash: boolean;
+  recordedOutcome: any;
+  computedOutcome: any;
+  computedPayout: number;
 }
 
 export interface ProviderSimulateRequest {
@@ -104,6 +227,50 @@ export interface SimulationResult {
   balanceAfter?: number;
   success: boolean;
   error?: string;
+  // Set when a call with an unknown outcome was queued: the credit or rollback is being
+  // resent, or a debit is being rolled back
+  reconciliation?: 'retrying' | 'rolling_back';
+}
+
+export interface ProviderRoundResponse {
+  success: boolean;
+  roundId: string;
+  gameId: string;
+  playerId: string;
+  casinoCode: string;
+  sessionId: string;
+  currency: string;
+  status: RoundStatus;
+  totalBetAmount: number;
+  totalPayoutAmount: number;
+  fairness: {
+    serverSeedHash: string;
+    clientSeed: string;
+    nonce: number;
+    outcome: any;
+  } | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  transactions: {
+    transactionId: string;
+    type: BetType;
+    amount: number;
+    status: BetStatus;
+    balanceAfter: number | null;
+    createdAt: Date;
+  }[];
+}
+
+export interface OutboxEntryResponse {
+  id: string;
+  operation: OutboxOperation;
+  transactionId: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
 }
 
 // Provider Error Types
@@ -128,4 +295,15 @@ export const ProviderErrorCodes = {
   ROUND_CLOSED: 'ROUND_CLOSED',
   BET_NOT_FOUND: 'BET_NOT_FOUND',
   SIGNATURE_INVALID: 'SIGNATURE_INVALID',
+  BET_LIMIT_EXCEEDED: 'BET_LIMIT_EXCEEDED',
+  SIGNING_KEY_UNAVAILABLE: 'SIGNING_KEY_UNAVAILABLE',
+  RESPONSIBLE_GAMING_LIMIT: 'RESPONSIBLE_GAMING_LIMIT',
+  INVALID_GAME_CONFIG: 'INVALID_GAME_CONFIG',
+  CASINO_UNREACHABLE: 'CASINO_UNREACHABLE',
+  OUTBOX_ENTRY_NOT_FOUND: 'OUTBOX_ENTRY_NOT_FOUND',
+  INVALID_BET: 'INVALID_BET',
+  GAME_NOT_PLAYABLE: 'GAME_NOT_PLAYABLE',
+  INVALID_NONCE: 'INVALID_NONCE',
+  ROUND_NOT_VERIFIABLE: 'ROUND_NOT_VERIFIABLE',
+  SEED_NOT_REVEALED: 'SEED_NOT_REVEALED',
 } as const;
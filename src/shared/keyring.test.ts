@@ -0,0 +1,275 @@
+import {
+  isKeyActive,
+  getVerificationSecrets,
+  getSigningSecret,
+  isValidOverlap,
+  isKeyExpiring,
+  parseKeyTimestamp,
+  keyFingerprint,
+  KeyringError,
+  SigningKey,
+  KeyringService,
+  MAX_OVERLAP_SECONDS
+} from './keyring';
+import { transaction } from '../database/connection';
+
+jest.mock('../database/connection', () => ({ query: jest.fn(), transaction: jest.fn() }));
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+function makeKey(overrides: Partial<SigningKey>): SigningKey {
+  return {
+    id: 'key-1',
+    partner_id: 'partner-1',
+    direction: 'inbound',
+    slot: 'primary',
+    secret_key: 'secret',
+    activates_at: new Date('2024-01-01T00:00:00Z'),
+    expires_at: null,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+// In-memory stand-in for the keys and audit tables, answering the statements KeyringService issues
+function fakeKeyringClient() {
+  const keys: SigningKey[] = [];
+  const audit: { action: string; key_fingerprint: string; details: any }[] = [];
+  const later = (seconds: number) => new Date(Date.now() + seconds * 1000);
+
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.startsWith('INSERT INTO audit')) {
+        audit.push({ action: params[3], key_fingerprint: params[4], details: JSON.parse(params[6]) });
+        return { rows: [] };
+      }
+      if (sql.startsWith('INSERT INTO keys')) {
+        const fallback = params.length === 5;
+        keys.push(makeKey({
+          id: params[0],
+          slot: 'secondary',
+          secret_key: params[3],
+          activates_at: new Date(),
+          expires_at: fallback ? later(params[4]) : params[5]
+        }));
+        return { rows: [] };
+      }
+      if (sql.startsWith('DELETE FROM keys WHERE id')) {
+        keys.splice(keys.findIndex((key) => key.id === params[0]), 1);
+        return { rows: [] };
+      }
+      if (sql.includes("SET slot = 'secondary'")) {
+        Object.assign(keys.find((key) => key.id === params[0])!, { slot: 'secondary', expires_at: later(params[1]) });
+        return { rows: [] };
+      }
+      if (sql.includes("SET slot = 'primary'")) {
+        Object.assign(keys.find((key) => key.id === params[0])!, { slot: 'primary', expires_at: null });
+        return { rows: [] };
+      }
+      if (sql.includes('WHERE id = $1')) {
+        return { rows: keys.filter((key) => key.id === params[0]) };
+      }
+      if (sql.includes("slot = 'secondary'")) {
+        return { rows: keys.filter((key) => key.slot === 'secondary') };
+      }
+      return { rows: [...keys] };
+    })
+  };
+
+  (transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+  return { keys, audit };
+}
+
+describe('Keyring Module', () => {
+  describe('isKeyActive', () => {
+    it('should accept a key inside its validity window', () => {
+      expect(isKeyActive(makeKey({}), now)).toBe(true);
+    });
+
+    it('should reject a key that is not active yet', () => {
+      const key = makeKey({ activates_at: new Date('2024-01-02T00:00:00Z') });
+
+      expect(isKeyActive(key, now)).toBe(false);
+    });
+
+    it('should reject an expired key', () => {
+      const key = makeKey({ expires_at: new Date('2024-01-01T11:00:00Z') });
+
+      expect(isKeyActive(key, now)).toBe(false);
+    });
+  });
+
+  describe('getVerificationSecrets', () => {
+    it('should accept both keys during the overlap window, primary first', () => {
+      const keys = [
+        makeKey({ slot: 'secondary', secret_key: 'old', expires_at: new Date('2024-01-02T00:00:00Z') }),
+        makeKey({ slot: 'primary', secret_key: 'new' })
+      ];
+
+      expect(getVerificationSecrets(keys, 'registry', now)).toEqual(['new', 'old']);
+    });
+
+    it('should drop the old key once the overlap window ends', () => {
+      const keys = [
+        makeKey({ slot: 'secondary', secret_key: 'old', expires_at: new Date('2024-01-01T06:00:00Z') }),
+        makeKey({ slot: 'primary', secret_key: 'new' })
+      ];
+
+      expect(getVerificationSecrets(keys, 'registry', now)).toEqual(['new']);
+    });
+
+    it('should keep verifying with the fallback secret while the first key is only staged', () => {
+      const keys = [makeKey({ slot: 'secondary', secret_key: 'staged' })];
+
+      expect(getVerificationSecrets([], 'registry', now)).toEqual(['registry']);
+      expect(getVerificationSecrets(keys, 'registry', now)).toEqual(['registry', 'staged']);
+    });
+
+    it('should keep the fallback secret through the overlap of the first promotion', () => {
+      // promoteKey stores the fallback as the demoted secondary key
+      const keys = [
+        makeKey({ slot: 'primary', secret_key: 'new' }),
+        makeKey({ slot: 'secondary', secret_key: 'registry', expires_at: new Date('2024-01-02T00:00:00Z') })
+      ];
+      const later = new Date('2024-01-02T12:00:00Z');
+
+      expect(getVerificationSecrets(keys, 'registry', now)).toEqual(['new', 'registry']);
+      expect(getVerificationSecrets(keys, 'registry', later)).toEqual(['new']);
+    });
+  });
+
+  describe('getSigningSecret', () => {
+    it('should sign with the primary key', () => {
+      const keys = [
+        makeKey({ slot: 'secondary', secret_key: 'staged' }),
+        makeKey({ slot: 'primary', secret_key: 'current' })
+      ];
+
+      expect(getSigningSecret(keys, 'registry', now)).toBe('current');
+    });
+
+    it('should sign with the fallback secret until a key is promoted', () => {
+      const keys = [makeKey({ slot: 'secondary', secret_key: 'staged' })];
+
+      expect(getSigningSecret(keys, 'registry', now)).toBe('registry');
+    });
+
+    it('should return null when the promoted primary key is not active', () => {
+      const keys = [makeKey({ slot: 'primary', secret_key: 'current', expires_at: new Date('2024-01-01T11:00:00Z') })];
+
+      expect(getSigningSecret(keys, 'registry', now)).toBeNull();
+    });
+  });
+
+  describe('isValidOverlap', () => {
+    it('should accept whole seconds up to the limit', () => {
+      expect(isValidOverlap(0)).toBe(true);
+      expect(isValidOverlap(3600)).toBe(true);
+      expect(isValidOverlap(MAX_OVERLAP_SECONDS)).toBe(true);
+    });
+
+    it('should reject negative, fractional, non-numeric and oversized overlaps', () => {
+      expect(isValidOverlap(-1)).toBe(false);
+      expect(isValidOverlap(1.5)).toBe(false);
+      expect(isValidOverlap('3600')).toBe(false);
+      expect(isValidOverlap(MAX_OVERLAP_SECONDS + 1)).toBe(false);
+    });
+  });
+
+  describe('KeyringService.promoteKey', () => {
+    it('should keep the fallback secret verifying through the overlap on the first rotation', async () => {
+      const staged = makeKey({ id: 'staged', slot: 'secondary', secret_key: 'new' });
+      const client = { query: jest.fn(async (sql: string, params?: unknown[]) => ({ rows: sql.includes('FOR UPDATE') ? [staged] : [] })) };
+      (transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+      const getFallbackSecret = jest.fn(async () => 'registry');
+      const keyring = new KeyringService({ keysTable: 'keys', auditTable: 'audit', getFallbackSecret });
+
+      await keyring.promoteKey('partner-1', 'inbound', 'ops', 3600);
+
+      expect(getFallbackSecret).toHaveBeenCalledWith('partner-1');
+      const insert = client.query.mock.calls.find(([sql]) => sql.startsWith('INSERT INTO keys'));
+      expect(insert).toBeDefined();
+      expect(insert![0]).toContain("'secondary'");
+      expect(insert![1]).toEqual([expect.any(String), 'partner-1', 'inbound', 'registry', 3600]);
+    });
+  });
+
+  describe('parseKeyTimestamp', () => {
+    it('should parse ISO timestamps and flag anything else', () => {
+      expect(parseKeyTimestamp('2024-01-01T12:00:00Z')).toEqual(now);
+      expect(parseKeyTimestamp(undefined)).toBeUndefined();
+      expect(parseKeyTimestamp('not a date')).toBeNull();
+      expect(parseKeyTimestamp(1704110400000)).toBeNull();
+    });
+  });
+
+  describe('isKeyExpiring', () => {
+    it('should flag keys with an end date still ahead', () => {
+      expect(isKeyExpiring(makeKey({ expires_at: new Date('2024-01-02T00:00:00Z') }), now)).toBe(true);
+      expect(isKeyExpiring(makeKey({ expires_at: new Date('2024-01-01T06:00:00Z') }), now)).toBe(false);
+      expect(isKeyExpiring(makeKey({ expires_at: null }), now)).toBe(false);
+    });
+  });
+
+  describe('KeyringService.stageKey', () => {
+    const keyring = new KeyringService({ keysTable: 'keys', auditTable: 'audit', getFallbackSecret: async () => null });
+
+    it('should not silently revoke a demoted primary by staging the next key', async () => {
+      const { keys, audit } = fakeKeyringClient();
+
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'first' });
+      await keyring.promoteKey('partner-1', 'inbound', 'ops', 3600);
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'second' });
+      await keyring.promoteKey('partner-1', 'inbound', 'ops', 3600);
+
+      const error = await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'third' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(KeyringError);
+      expect(error.code).toBe('KEY_IN_OVERLAP');
+      expect(error.statusCode).toBe(409);
+      expect(keys.map((key) => [key.slot, key.secret_key])).toEqual([
+        ['secondary', 'first'],
+        ['primary', 'second']
+      ]);
+      expect(audit.map((entry) => entry.action)).toEqual(['stage', 'promote', 'stage', 'promote']);
+    });
+
+    it('should retire the demoted primary with an audit entry when replacing it', async () => {
+      const { keys, audit } = fakeKeyringClient();
+
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'first' });
+      await keyring.promoteKey('partner-1', 'inbound', 'ops', 3600);
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'second' });
+      await keyring.promoteKey('partner-1', 'inbound', 'ops', 3600);
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'third', replace: true });
+
+      expect(keys.map((key) => [key.slot, key.secret_key])).toEqual([
+        ['primary', 'second'],
+        ['secondary', 'third']
+      ]);
+      expect(audit.slice(-2)).toEqual([
+        { action: 'retire', key_fingerprint: keyFingerprint('first'), details: { replacedByStage: true } },
+        { action: 'stage', key_fingerprint: keyFingerprint('third'), details: expect.any(Object) }
+      ]);
+    });
+
+    it('should replace a staged key that has not been promoted', async () => {
+      const { keys, audit } = fakeKeyringClient();
+
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'first' });
+      await keyring.stageKey('partner-1', 'inbound', 'ops', { secret: 'second' });
+
+      expect(keys.map((key) => key.secret_key)).toEqual(['second']);
+      expect(audit.map((entry) => entry.action)).toEqual(['stage', 'retire', 'stage']);
+    });
+  });
+
+  describe('keyFingerprint', () => {
+    it('should not reveal the secret', () => {
+      const fingerprint = keyFingerprint('super_secret');
+
+      expect(fingerprint).not.toContain('super_secret');
+      expect(fingerprint.length).toBe(16);
+    });
+  });
+});
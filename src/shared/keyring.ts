@@ -0,0 +1,303 @@
+import crypto from 'crypto';
+import { query, transaction } from '../database/connection';
+import { v4 as uuidv4 } from 'uuid';
+
+// Signing key rotation shared by the casino and provider domains.
+// Every partner holds up to two keys per direction:
+//   inbound  - verifies requests the partner sends us
+//   outbound - signs requests we send the partner
+// The primary key signs; any key inside its validity window verifies.
+// Until a key is first promoted, the partner's fallback secret (its registry secret_key)
+// acts as the primary.
+
+export type KeyDirection = 'inbound' | 'outbound';
+export type KeySlot = 'primary' | 'secondary';
+export type KeyAction = 'stage' | 'promote' | 'retire';
+
+export interface SigningKey {
+  id: string;
+  partner_id: string;
+  direction: KeyDirection;
+  slot: KeySlot;
+  secret_key: string;
+  activates_at: Date;
+  expires_at: Date | null;
+  created_at: Date;
+}
+
+export interface KeyAuditEntry {
+  id: string;
+  partner_id: string;
+  direction: KeyDirection;
+  action: KeyAction;
+  key_fingerprint: string;
+  operator: string;
+  details: any;
+  created_at: Date;
+}
+
+export class KeyringError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'KeyringError';
+  }
+}
+
+// Check whether a key is inside its validity window
+export function isKeyActive(key: SigningKey, now: Date = new Date()): boolean {
+  if (new Date(key.activates_at).getTime() > now.getTime()) return false;
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now.getTime()) return false;
+  return true;
+}
+
+// Whether a key has an end date still ahead, e.g. a demoted primary inside its overlap window
+export function isKeyExpiring(key: SigningKey, now: Date = new Date()): boolean {
+  return key.expires_at !== null && new Date(key.expires_at).getTime() > now.getTime();
+}
+
+// Whether the fallback secret still acts as the primary: no key has been promoted yet
+export function usesFallbackPrimary(keys: SigningKey[]): boolean {
+  return !keys.some((key) => key.slot === 'primary');
+}
+
+// All secrets that may verify a signature right now, primary first
+export function getVerificationSecrets(
+  keys: SigningKey[],
+  fallbackSecret: string | null,
+  now: Date = new Date()
+): string[] {
+  const secrets = keys
+    .filter((key) => isKeyActive(key, now))
+    .sort((a, b) => (a.slot === b.slot ? 0 : a.slot === 'primary' ? -1 : 1))
+    .map((key) => key.secret_key);
+
+  return usesFallbackPrimary(keys) && fallbackSecret ? [fallbackSecret, ...secrets] : secrets;
+}
+
+// The secret used to sign outgoing requests, if the primary key is active
+export function getSigningSecret(
+  keys: SigningKey[],
+  fallbackSecret: string | null,
+  now: Date = new Date()
+): string | null {
+  if (usesFallbackPrimary(keys)) {
+    return fallbackSecret || null;
+  }
+
+  const primary = keys.find((key) => key.slot === 'primary' && isKeyActive(key, now));
+  return primary ? primary.secret_key : null;
+}
+
+// Longest overlap a promotion may request: 30 days
+export const MAX_OVERLAP_SECONDS = 30 * 24 * 60 * 60;
+
+// A promotion overlap must be a whole number of seconds within the limit
+export function isValidOverlap(seconds: unknown): seconds is number {
+  return Number.isInteger(seconds) && (seconds as number) >= 0 && (seconds as number) <= MAX_OVERLAP_SECONDS;
+}
+
+// Read an optional key timestamp from a request: undefined when absent, null when not a valid date
+export function parseKeyTimestamp(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Short, non-reversible identifier for a secret, safe to log
+export function keyFingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').substring(0, 16);
+}
+
+interface KeyringOptions {
+  keysTable: string;
+  auditTable: string;
+  // The partner's registry secret, acting as its primary in both directions until the first promoted key
+  getFallbackSecret: (partnerId: string) => Promise<string | null>;
+}
+
+// Persistence and rotation workflow for one domain's keyring tables
+export class KeyringService {
+  constructor(private options: KeyringOptions) {}
+
+  async getKeys(partnerId: string, direction: KeyDirection): Promise<SigningKey[]> {
+    const result = await query(
+      `SELECT * FROM ${this.options.keysTable} WHERE partner_id = $1 AND direction = $2`,
+      [partnerId, direction]
+    );
+    return result.rows;
+  }
+
+  async getAuditLog(partnerId: string): Promise<KeyAuditEntry[]> {
+    const result = await query(
+      `SELECT * FROM ${this.options.auditTable} WHERE partner_id = $1 ORDER BY created_at DESC`,
+      [partnerId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Stage a new key in the secondary slot, retiring the key it replaces
+   * A secret is generated when none is supplied. A secondary key with an end date
+   * still ahead (a demoted primary in its overlap window) is only replaced when
+   * `replace` is set, as partners may still be signing with it.
+   */
+  async stageKey(
+    partnerId: string,
+    direction: KeyDirection,
+    operator: string,
+    options: { secret?: string; activatesAt?: Date; expiresAt?: Date; replace?: boolean } = {}
+  ): Promise<{ key: SigningKey; secret: string }> {
+    const secret = options.secret || crypto.randomBytes(32).toString('hex');
+
+    return await transaction(async (client) => {
+      const secondaryResult = await client.query(
+        `SELECT * FROM ${this.options.keysTable}
+         WHERE partner_id = $1 AND direction = $2 AND slot = 'secondary'
+         FOR UPDATE`,
+        [partnerId, direction]
+      );
+      const secondary = secondaryResult.rows[0] as SigningKey | undefined;
+
+      if (secondary && isKeyExpiring(secondary) && !options.replace) {
+        throw new KeyringError(
+          'The secondary key is still verifying until it expires; retire it or stage with replace',
+          'KEY_IN_OVERLAP',
+          409
+        );
+      }
+
+      if (secondary) {
+        await client.query(`DELETE FROM ${this.options.keysTable} WHERE id = $1`, [secondary.id]);
+        await this.audit(client, partnerId, direction, 'retire', secondary.secret_key, operator, {
+          replacedByStage: true
+        });
+      }
+
+      const keyId = uuidv4();
+      await client.query(
+        `INSERT INTO ${this.options.keysTable} (id, partner_id, direction, slot, secret_key, activates_at, expires_at)
+         VALUES ($1, $2, $3, 'secondary', $4, COALESCE($5, CURRENT_TIMESTAMP), $6)`,
+        [keyId, partnerId, direction, secret, options.activatesAt || null, options.expiresAt || null]
+      );
+
+      await this.audit(client, partnerId, direction, 'stage', secret, operator, {
+        activatesAt: options.activatesAt || null,
+        expiresAt: options.expiresAt || null
+      });
+
+      const keyResult = await client.query(`SELECT * FROM ${this.options.keysTable} WHERE id = $1`, [keyId]);
+      return { key: keyResult.rows[0], secret };
+    });
+  }
+
+  /**
+   * Promote the staged key to primary. The previous primary moves to the
+   * secondary slot and keeps verifying until the overlap window ends. On the
+   * first promotion the previous primary is the fallback secret, stored as a key
+   * so that it gets the same overlap.
+   */
+  async promoteKey(
+    partnerId: string,
+    direction: KeyDirection,
+    operator: string,
+    overlapSeconds: number = parseInt(process.env.KEY_ROTATION_OVERLAP_SECONDS || '86400')
+  ): Promise<SigningKey[]> {
+    return await transaction(async (client) => {
+      const keysResult = await client.query(
+        `SELECT * FROM ${this.options.keysTable} WHERE partner_id = $1 AND direction = $2 FOR UPDATE`,
+        [partnerId, direction]
+      );
+      const keys = keysResult.rows as SigningKey[];
+      const staged = keys.find((key) => key.slot === 'secondary');
+      const current = keys.find((key) => key.slot === 'primary');
+
+      if (!staged) {
+        throw new KeyringError('No staged key to promote', 'KEY_NOT_FOUND', 404);
+      }
+
+      if (current) {
+        await client.query(
+          `UPDATE ${this.options.keysTable}
+           SET slot = 'secondary', expires_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+           WHERE id = $1`,
+          [current.id, overlapSeconds]
+        );
+      }
+
+      await client.query(
+        `UPDATE ${this.options.keysTable}
+         SET slot = 'primary', activates_at = LEAST(activates_at, CURRENT_TIMESTAMP), expires_at = NULL
+         WHERE id = $1`,
+        [staged.id]
+      );
+
+      // First promotion: keep the fallback secret verifying for the overlap window
+      const fallbackSecret = current ? null : await this.options.getFallbackSecret(partnerId);
+      if (fallbackSecret) {
+        await client.query(
+          `INSERT INTO ${this.options.keysTable} (id, partner_id, direction, slot, secret_key, activates_at, expires_at)
+           VALUES ($1, $2, $3, 'secondary', $4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + make_interval(secs => $5))`,
+          [uuidv4(), partnerId, direction, fallbackSecret, overlapSeconds]
+        );
+      }
+
+      await this.audit(client, partnerId, direction, 'promote', staged.secret_key, operator, {
+        previousPrimary: current
+          ? keyFingerprint(current.secret_key)
+          : fallbackSecret
+            ? keyFingerprint(fallbackSecret)
+            : null,
+        overlapSeconds
+      });
+
+      const result = await client.query(
+        `SELECT * FROM ${this.options.keysTable} WHERE partner_id = $1 AND direction = $2`,
+        [partnerId, direction]
+      );
+      return result.rows;
+    });
+  }
+
+  /**
+   * Retire the secondary key immediately, ending any overlap window
+   */
+  async retireKey(partnerId: string, direction: KeyDirection, operator: string): Promise<void> {
+    await transaction(async (client) => {
+      const result = await client.query(
+        `DELETE FROM ${this.options.keysTable}
+         WHERE partner_id = $1 AND direction = $2 AND slot = 'secondary'
+         RETURNING *`,
+        [partnerId, direction]
+      );
+
+      if (!result.rows[0]) {
+        throw new KeyringError('No secondary key to retire', 'KEY_NOT_FOUND', 404);
+      }
+
+      await this.audit(client, partnerId, direction, 'retire', result.rows[0].secret_key, operator, {});
+    });
+  }
+
+  // Record a rotation event; only the key fingerprint is stored, never the secret
+  private async audit(
+    client: any,
+    partnerId: string,
+    direction: KeyDirection,
+    action: KeyAction,
+    secret: string,
+    operator: string,
+    details: any
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO ${this.options.auditTable} (id, partner_id, direction, action, key_fingerprint, operator, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [uuidv4(), partnerId, direction, action, keyFingerprint(secret), operator, JSON.stringify(details)]
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createKeyringRouter } from './keyringRoutes';
+import { KeyringService } from './keyring';
+
+jest.mock('../database/connection', () => ({ query: jest.fn(), transaction: jest.fn() }));
+
+describe('Keyring Routes', () => {
+  const keyring = new KeyringService({ keysTable: 'keys', auditTable: 'audit', getFallbackSecret: async () => null });
+  const stageKey = jest.spyOn(keyring, 'stageKey');
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use('/partners/:code/keys', createKeyringRouter(keyring, async (code) => (code === 'ACME' ? 'partner-1' : null)));
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/partners/ACME/keys`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    stageKey.mockReset();
+  });
+
+  function post(path: string, body: object) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-operator-id': 'ops' },
+      body: JSON.stringify({ direction: 'inbound', ...body })
+    });
+  }
+
+  describe('POST /stage', () => {
+    it('should reject a timestamp that is not a date', async () => {
+      const response = await post('/stage', { activatesAt: 'next tuesday' });
+
+      expect(response.status).toBe(400);
+      expect(stageKey).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry that is not after activation', async () => {
+      const response = await post('/stage', {
+        activatesAt: '2030-01-02T00:00:00Z',
+        expiresAt: '2030-01-01T00:00:00Z'
+      });
+
+      expect(response.status).toBe(400);
+      expect(stageKey).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry in the past when activation is omitted', async () => {
+      const response = await post('/stage', { expiresAt: '2020-01-01T00:00:00Z' });
+
+      expect(response.status).toBe(400);
+      expect(stageKey).not.toHaveBeenCalled();
+    });
+
+    it('should stage a key with a valid window', async () => {
+      stageKey.mockResolvedValue({
+        key: { id: 'key-1', activates_at: new Date('2030-01-01T00:00:00Z'), expires_at: new Date('2030-02-01T00:00:00Z') } as any,
+        secret: 'new'
+      });
+
+      const response = await post('/stage', {
+        activatesAt: '2030-01-01T00:00:00Z',
+        expiresAt: '2030-02-01T00:00:00Z'
+      });
+
+      expect(response.status).toBe(200);
+      expect(stageKey).toHaveBeenCalledWith('partner-1', 'inbound', 'ops', {
+        secret: undefined,
+        activatesAt: new Date('2030-01-01T00:00:00Z'),
+        expiresAt: new Date('2030-02-01T00:00:00Z'),
+        replace: false
+      });
+    });
+  });
+});
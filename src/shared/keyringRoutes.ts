@@ -0,0 +1,178 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  KeyringService,
+  KeyDirection,
+  keyFingerprint,
+  isValidOverlap,
+  parseKeyTimestamp,
+  MAX_OVERLAP_SECONDS,
+} from './keyring';
+
+// Admin routes for rotating a partner's signing keys.
+// Mounted under a path with a :code parameter identifying the partner.
+export function createKeyringRouter(
+  keyring: KeyringService,
+  resolvePartnerId: (code: string) => Promise<string | null>
+): Router {
+  const router = Router({ mergeParams: true });
+
+  // Resolve partner, direction and operator shared by every rotation route
+  async function resolveContext(req: Request, res: Response) {
+    const partnerId = await resolvePartnerId(req.params.code);
+    if (!partnerId) {
+      res.status(404).json({ success: false, error: 'Partner not found' });
+      return null;
+    }
+
+    const direction = (req.body?.direction || req.query.direction) as KeyDirection;
+    if (direction !== 'inbound' && direction !== 'outbound') {
+      res.status(400).json({ success: false, error: "direction must be 'inbound' or 'outbound'" });
+      return null;
+    }
+
+    const operator = req.header('x-operator-id');
+    if (!operator) {
+      res.status(400).json({ success: false, error: 'x-operator-id header is required' });
+      return null;
+    }
+
+    return { partnerId, direction, operator };
+  }
+
+  /**
+   * GET .../keys
+   * Lists key metadata (never secrets) and the rotation audit log
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const partnerId = await resolvePartnerId(req.params.code);
+      if (!partnerId) {
+        return res.status(404).json({ success: false, error: 'Partner not found' });
+      }
+
+      const keys = [
+        ...(await keyring.getKeys(partnerId, 'inbound')),
+        ...(await keyring.getKeys(partnerId, 'outbound')),
+      ];
+
+      res.json({
+        success: true,
+        keys: keys.map((key) => ({
+          id: key.id,
+          direction: key.direction,
+          slot: key.slot,
+          fingerprint: keyFingerprint(key.secret_key),
+          activatesAt: key.activates_at,
+          expiresAt: key.expires_at,
+        })),
+        auditLog: await keyring.getAuditLog(partnerId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST .../keys/stage
+   * Stages a new secondary key; the secret is returned once so it can be shared with the partner
+   * A key still in its overlap window is only replaced with `replace: true`
+   */
+  router.post('/stage', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = await resolveContext(req, res);
+      if (!context) return;
+
+      const { secret, replace } = req.body;
+      const activatesAt = parseKeyTimestamp(req.body.activatesAt);
+      const expiresAt = parseKeyTimestamp(req.body.expiresAt);
+      if (activatesAt === null || expiresAt === null) {
+        return res.status(400).json({
+          success: false,
+          error: 'activatesAt and expiresAt must be ISO 8601 timestamps',
+        });
+      }
+      if (expiresAt && expiresAt.getTime() <= (activatesAt || new Date()).getTime()) {
+        return res.status(400).json({
+          success: false,
+          error: 'expiresAt must be after activatesAt (or after now when activatesAt is omitted)',
+        });
+      }
+
+      const result = await keyring.stageKey(context.partnerId, context.direction, context.operator, {
+        secret,
+        activatesAt,
+        expiresAt,
+        replace: replace === true,
+      });
+
+      res.json({
+        success: true,
+        keyId: result.key.id,
+        secret: result.secret,
+        fingerprint: keyFingerprint(result.secret),
+        activatesAt: result.key.activates_at,
+        expiresAt: result.key.expires_at,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST .../keys/promote
+   * Promotes the staged key to primary; the old primary keeps verifying for the overlap window
+   */
+  router.post('/promote', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = await resolveContext(req, res);
+      if (!context) return;
+
+      const { overlapSeconds } = req.body;
+      if (overlapSeconds !== undefined && !isValidOverlap(overlapSeconds)) {
+        return res.status(400).json({
+          success: false,
+          error: `overlapSeconds must be a whole number between 0 and ${MAX_OVERLAP_SECONDS}`,
+        });
+      }
+
+      const keys = await keyring.promoteKey(
+        context.partnerId,
+        context.direction,
+        context.operator,
+        overlapSeconds
+      );
+
+      res.json({
+        success: true,
+        keys: keys.map((key) => ({
+          id: key.id,
+          slot: key.slot,
+          fingerprint: keyFingerprint(key.secret_key),
+          activatesAt: key.activates_at,
+          expiresAt: key.expires_at,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST .../keys/retire
+   * Retires the secondary key immediately
+   */
+  router.post('/retire', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = await resolveContext(req, res);
+      if (!context) return;
+
+      await keyring.retireKey(context.partnerId, context.direction, context.operator);
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { verifyCasinoSignature, SigningPartner } from './middleware';
+import { signRequest, SIGNATURE_TIMESTAMP_HEADER, SIGNATURE_NONCE_HEADER } from './security';
+
+const partners: Record<string, SigningPartner> = {
+  CASINO_A: { id: 'casino-a', secrets: ['secret_a'], signatureMode: 'raw' },
+  CASINO_B: { id: 'casino-b', secrets: ['secret_b'], signatureMode: 'raw' }
+};
+
+// A request signed by CASINO_A with the given code header and body
+function signedRequest(headerCode: string | undefined, body: object): Request {
+  const signed = signRequest(body, 'secret_a');
+  const headers: Record<string, string | undefined> = {
+    'x-casino-signature': signed.signature,
+    'x-casino-code': headerCode,
+    [SIGNATURE_TIMESTAMP_HEADER]: signed.timestamp,
+    [SIGNATURE_NONCE_HEADER]: signed.nonce
+  };
+
+  return {
+    header: (name: string) => headers[name.toLowerCase()],
+    body: JSON.parse(signed.payload),
+    rawBody: Buffer.from(signed.payload)
+  } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = { locals: {} as any, status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('Middleware Module', () => {
+  describe('verifyCasinoSignature', () => {
+    const lookup = jest.fn(async (code: string) => partners[code] || null);
+    const verify = verifyCasinoSignature(lookup);
+
+    beforeEach(() => lookup.mockClear());
+
+    it('should accept a request signed by the casino it names', async () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      await verify(signedRequest('CASINO_A', { casinoCode: 'CASINO_A' }), res as unknown as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals.casino).toBe(partners.CASINO_A);
+    });
+
+    it('should reject a body naming a different casino than the signing one', async () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      await verify(signedRequest('CASINO_A', { casinoCode: 'CASINO_B' }), res as unknown as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(lookup).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'PARTNER_MISMATCH' }));
+    });
+
+    it('should identify the casino from the body when there is no header', async () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      await verify(signedRequest(undefined, { casinoCode: 'CASINO_A' }), res as unknown as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(lookup).toHaveBeenCalledWith('CASINO_A');
+    });
+  });
+});
@@ -1,50 +1,174 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifySignature } from './security';
+import crypto from 'crypto';
+import {
+  verifySignature,
+  canonicalJson,
+  isTimestampWithinSkew,
+  SignatureMode,
+  SIGNATURE_TIMESTAMP_HEADER,
+  SIGNATURE_NONCE_HEADER
+} from './security';
+import { NonceStore } from './nonceStore';
 
-// Middleware to verify x-casino-signature header
-
-export function verifyCasinoSignature(req: Request, res: Response, next: NextFunction) {
-  const signature = req.header('x-casino-signature');
-  const secret = process.env.CASINO_SECRET;
-  
-  if (!secret) {
-    console.error('CASINO_SECRET not configured');
-    return res.status(500).json({ error: 'Server configuration error' });
-  }
-  
-  if (!verifySignature(signature || '', req.body, secret)) {
-    console.warn('Invalid casino signature received');
-    return res.status(401).json({
-      success: false,
-      error: 'Invalid signature',
-      code: 'SIGNATURE_INVALID'
-    });
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
   }
-  
-  next();
 }
 
-// Middleware to verify x-provider-signature header
+// A signing partner (provider or casino), the secrets currently valid
+// for verifying its requests and how its request bodies are signed
+export interface SigningPartner {
+  id: string;
+  secrets: string[];
+  signatureMode: SignatureMode;
+}
 
-export function verifyProviderSignature(req: Request, res: Response, next: NextFunction) {
-  const signature = req.header('x-provider-signature');
-  const secret = process.env.PROVIDER_SECRET;
-  
-  if (!secret) {
-    console.error('PROVIDER_SECRET not configured');
-    return res.status(500).json({ error: 'Server configuration error' });
-  }
-  
-  if (!verifySignature(signature || '', req.body, secret)) {
-    console.warn('Invalid provider signature received');
-    return res.status(401).json({
-      success: false,
-      error: 'Invalid signature',
-      code: 'SIGNATURE_INVALID'
-    });
-  }
+// express.json() verify hook keeping the exact request bytes for signature checks
+export function captureRawBody(req: Request, res: Response, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+export type PartnerLookup = (code: string) => Promise<SigningPartner | null>;
+
+interface PartnerSignatureOptions {
+  signatureHeader: string;
+  codeHeader: string;
+  codeField: string;
+  localsKey: string;
+  unknownPartnerCode: string;
+}
+
+// Maximum accepted difference between the signature timestamp and our clock
+function getMaxSkewSeconds(): number {
+  return parseInt(process.env.SIGNATURE_MAX_SKEW_SECONDS || '300');
+}
+
+// Resolve the calling partner by code and verify the request against its own secret.
+// The signature must cover a fresh timestamp and a nonce that has not been seen before.
+function verifyPartnerSignature(options: PartnerSignatureOptions, lookupPartner: PartnerLookup) {
+  // Nonces only need to be remembered for as long as their timestamp is accepted
+  const nonces = new NonceStore(getMaxSkewSeconds() * 2 * 1000);
   
-  next();
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = req.header(options.signatureHeader);
+      const timestamp = req.header(SIGNATURE_TIMESTAMP_HEADER) || '';
+      const nonce = req.header(SIGNATURE_NONCE_HEADER) || '';
+      const headerCode = req.header(options.codeHeader);
+      const bodyCode = req.body?.[options.codeField];
+      const partnerCode = headerCode || bodyCode;
+      
+      if (!timestamp || !nonce) {
+        return res.status(401).json({
+          success: false,
+          error: `${SIGNATURE_TIMESTAMP_HEADER} and ${SIGNATURE_NONCE_HEADER} headers are required`,
+          code: 'SIGNATURE_INVALID'
+        });
+      }
+      
+      if (!isTimestampWithinSkew(timestamp, getMaxSkewSeconds())) {
+        console.warn(`Signed request outside the allowed clock skew: ${timestamp}`);
+        return res.status(401).json({
+          success: false,
+          error: 'Signature timestamp outside the allowed window',
+          code: 'SIGNATURE_EXPIRED'
+        });
+      }
+      
+      if (!partnerCode) {
+        return res.status(401).json({
+          success: false,
+          error: `${options.codeHeader} header or ${options.codeField} is required`,
+          code: options.unknownPartnerCode
+        });
+      }
+      
+      // Handlers act on the body's code, so it must name the partner whose signature we check
+      if (headerCode && bodyCode !== undefined && bodyCode !== headerCode) {
+        console.warn(`Signed request for ${bodyCode} sent as ${headerCode}`);
+        return res.status(401).json({
+          success: false,
+          error: `${options.codeField} does not match the ${options.codeHeader} header`,
+          code: 'PARTNER_MISMATCH'
+        });
+      }
+      
+      const partner = await lookupPartner(partnerCode);
+      if (!partner) {
+        console.warn(`Signed request from unknown partner: ${partnerCode}`);
+        return res.status(401).json({
+          success: false,
+          error: 'Unknown partner',
+          code: options.unknownPartnerCode
+        });
+      }
+      
+      // Verify over the bytes actually received, or canonical JSON for partners that need it.
+      // Requests without a body (GETs) are signed over empty content in either mode.
+      const signedContent = !req.rawBody
+        ? Buffer.alloc(0)
+        : partner.signatureMode === 'canonical'
+          ? canonicalJson(req.body)
+          : req.rawBody;
+      
+      if (!verifySignature(signature || '', signedContent, partner.secrets, { timestamp, nonce })) {
+        console.warn(`Invalid signature received from ${partnerCode}`);
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid signature',
+          code: 'SIGNATURE_INVALID'
+        });
+      }
+      
+      // Only record the nonce once the signature is known to be genuine
+      if (!nonces.checkAndStore(`${partner.id}:${nonce}`)) {
+        console.warn(`Replayed signed request from ${partnerCode}`);
+        return res.status(401).json({
+          success: false,
+          error: 'Request has already been processed',
+          code: 'REPLAY_DETECTED'
+        });
+      }
+      
+      res.locals[options.localsKey] = partner;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Middleware to verify x-casino-signature header against the calling casino's secret
+
+export function verifyCasinoSignature(lookupCasino: PartnerLookup) {
+  return verifyPartnerSignature(
+    {
+      signatureHeader: 'x-casino-signature',
+      codeHeader: 'x-casino-code',
+      codeField: 'casinoCode',
+      localsKey: 'casino',
+      unknownPartnerCode: 'INVALID_CASINO'
+    },
+    lookupCasino
+  );
+}
+
+// Middleware to verify x-provider-signature header against the calling provider's secret
+
+export function verifyProviderSignature(lookupProvider: PartnerLookup) {
+  return verifyPartnerSignature(
+    {
+      signatureHeader: 'x-provider-signature',
+      codeHeader: 'x-provider-code',
+      codeField: 'providerCode',
+      localsKey: 'provider',
+      unknownPartnerCode: 'PROVIDER_NOT_FOUND'
+    },
+    lookupProvider
+  );
 }
 
 // Error handling middleware
@@ -59,7 +183,8 @@ export function errorHandler(err: any, req: Request, res: Response, next: NextFu
   res.status(statusCode).json({
     success: false,
     error: message,
-    code: code
+    code: code,
+    ...(err.details !== undefined && { details: err.details })
   });
 }
 
@@ -74,3 +199,44 @@ export function requestLogger(req: Request, res: Response, next: NextFunction) {
   
   next();
 }
+
+// Middleware to restrict admin routes to holders of ADMIN_API_KEY
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  
+  if (!adminKey) {
+    console.error('ADMIN_API_KEY not configured');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  
+  const providedKey = req.header('x-admin-key') || '';
+  const a = Buffer.from(providedKey);
+  const b = Buffer.from(adminKey);
+  
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key',
+      code: 'UNAUTHORIZED'
+    });
+  }
+  
+  next();
+}
+
+// Require the x-operator-id header on admin changes so every change is attributable
+export function requireOperator(req: Request, res: Response, next: NextFunction) {
+  const operatorId = req.header('x-operator-id');
+  
+  if (!operatorId) {
+    return res.status(400).json({
+      success: false,
+      error: 'x-operator-id header is required',
+      code: 'OPERATOR_REQUIRED'
+    });
+  }
+  
+  res.locals.operatorId = operatorId;
+  next();
+}
@@ -0,0 +1,27 @@
+import { NonceStore } from './nonceStore';
+
+describe('NonceStore', () => {
+  it('should accept a nonce the first time', () => {
+    const store = new NonceStore(1000);
+    
+    expect(store.checkAndStore('nonce-1', 0)).toBe(true);
+  });
+
+  it('should reject a nonce seen within its TTL', () => {
+    const store = new NonceStore(1000);
+    
+    store.checkAndStore('nonce-1', 0);
+    
+    expect(store.checkAndStore('nonce-1', 500)).toBe(false);
+  });
+
+  it('should forget nonces once they expire', () => {
+    const store = new NonceStore(1000);
+    
+    store.checkAndStore('nonce-1', 0);
+    store.checkAndStore('nonce-2', 600);
+    
+    expect(store.checkAndStore('nonce-3', 1200)).toBe(true);
+    expect(store.size).toBe(2);
+  });
+});
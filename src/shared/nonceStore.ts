@@ -0,0 +1,36 @@
+// Short-lived in-memory store of signature nonces, used to block exact replays.
+// Entries only need to outlive the accepted clock-skew window: anything older
+// is already rejected by the timestamp check.
+
+export class NonceStore {
+  private entries = new Map<string, number>();
+
+  constructor(private ttlMs: number) {}
+
+  /**
+   * Record a nonce; returns false if it was already seen and has not expired
+   */
+  checkAndStore(nonce: string, now: number = Date.now()): boolean {
+    this.prune(now);
+
+    const expiresAt = this.entries.get(nonce);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries.set(nonce, now + this.ttlMs);
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Drop expired nonces (Map iterates in insertion order, so stop at the first live one)
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt > now) break;
+      this.entries.delete(nonce);
+    }
+  }
+}
@@ -1,4 +1,13 @@
-import { signBody, verifySignature, generateTransactionId, generateRoundId, generateSessionToken } from './security';
+import {
+  signBody,
+  verifySignature,
+  signRequest,
+  canonicalJson,
+  isTimestampWithinSkew,
+  generateTransactionId,
+  generateRoundId,
+  generateSessionToken
+} from './security';
 
 describe('Security Module', () => {
   describe('signBody', () => {
@@ -60,6 +69,24 @@ describe('Security Module', () => {
       expect(isValid).toBe(false);
     });
 
+    it('should accept a signature made with any of several secrets', () => {
+      const body = { test: 'data' };
+      
+      const signature = signBody(body, 'new_secret');
+      const isValid = verifySignature(signature, body, ['old_secret', 'new_secret']);
+      
+      expect(isValid).toBe(true);
+    });
+
+    it('should reject a signature made with a secret not in the list', () => {
+      const body = { test: 'data' };
+      
+      const signature = signBody(body, 'retired_secret');
+      const isValid = verifySignature(signature, body, ['old_secret', 'new_secret']);
+      
+      expect(isValid).toBe(false);
+    });
+
     it('should reject tampered payload', () => {
       const originalBody = { amount: 100 };
       const tamperedBody = { amount: 200 };
@@ -72,6 +99,126 @@ describe('Security Module', () => {
     });
   });
 
+  describe('raw body signatures', () => {
+    const secret = 'test_secret';
+
+    it('should verify the exact bytes received regardless of key order', () => {
+      const raw = '{"b":2,"a":1}';
+      const signature = signBody(raw, secret);
+      
+      expect(verifySignature(signature, Buffer.from(raw), secret)).toBe(true);
+    });
+
+    it('should verify raw bodies containing whitespace', () => {
+      const raw = '{\n  "amount": 100,\n  "currency": "USD"\n}';
+      const signature = signBody(raw, secret);
+      
+      expect(verifySignature(signature, Buffer.from(raw), secret)).toBe(true);
+    });
+
+    it('should verify raw bodies with exponent-formatted numbers', () => {
+      const raw = '{"amount":1e3}';
+      const signature = signBody(raw, secret);
+      
+      expect(verifySignature(signature, Buffer.from(raw), secret)).toBe(true);
+    });
+
+    it('should not match a re-serialized body with different key order', () => {
+      const raw = '{"b":2,"a":1}';
+      const signature = signBody(raw, secret);
+      const reserialized = JSON.stringify({ a: 1, b: 2 });
+      
+      expect(verifySignature(signature, reserialized, secret)).toBe(false);
+    });
+
+    it('should reject a single changed byte', () => {
+      const signature = signBody('{"amount":100}', secret);
+      
+      expect(verifySignature(signature, Buffer.from('{"amount":100 }'), secret)).toBe(false);
+    });
+
+    it('should sign exactly the payload returned by signRequest', () => {
+      const { payload, signature, timestamp, nonce } = signRequest({ b: 2, a: 1 }, secret);
+      
+      expect(verifySignature(signature, Buffer.from(payload), secret, { timestamp, nonce })).toBe(true);
+    });
+  });
+
+  describe('canonical JSON signatures', () => {
+    const secret = 'test_secret';
+
+    it('should produce the same output regardless of key order', () => {
+      expect(canonicalJson({ b: 2, a: { d: 4, c: 3 } })).toBe(canonicalJson({ a: { c: 3, d: 4 }, b: 2 }));
+    });
+
+    it('should produce the same output regardless of whitespace and number format', () => {
+      const compact = JSON.parse('{"amount":1000,"tags":["x","y"]}');
+      const spaced = JSON.parse('{ "tags": [ "x", "y" ],\n "amount": 1e3 }');
+      
+      expect(canonicalJson(spaced)).toBe(canonicalJson(compact));
+      expect(canonicalJson(compact)).toBe('{"amount":1000,"tags":["x","y"]}');
+    });
+
+    it('should verify a canonical signature against a differently ordered body', () => {
+      const { signature, timestamp, nonce } = signRequest({ b: 2, a: 1 }, secret, 'canonical');
+      const received = JSON.parse('{ "a": 1, "b": 2 }');
+      
+      expect(verifySignature(signature, canonicalJson(received), secret, { timestamp, nonce })).toBe(true);
+    });
+  });
+
+  describe('replay guard', () => {
+    const body = { amount: 100 };
+    const secret = 'test_secret';
+
+    it('should bind the timestamp and nonce into the signature', () => {
+      const guard = { timestamp: '1700000000', nonce: 'abc' };
+      
+      expect(signBody(body, secret, guard)).not.toBe(signBody(body, secret));
+    });
+
+    it('should verify a request signed with signRequest', () => {
+      const { signature, timestamp, nonce } = signRequest(body, secret);
+      
+      expect(verifySignature(signature, body, secret, { timestamp, nonce })).toBe(true);
+    });
+
+    it('should reject a signature replayed with a different nonce', () => {
+      const { signature, timestamp } = signRequest(body, secret);
+      
+      expect(verifySignature(signature, body, secret, { timestamp, nonce: 'other' })).toBe(false);
+    });
+
+    it('should reject a signature replayed with a different timestamp', () => {
+      const { signature, nonce } = signRequest(body, secret);
+      
+      expect(verifySignature(signature, body, secret, { timestamp: '1', nonce })).toBe(false);
+    });
+
+    it('should use a fresh nonce for every request', () => {
+      expect(signRequest(body, secret).nonce).not.toBe(signRequest(body, secret).nonce);
+    });
+  });
+
+  describe('isTimestampWithinSkew', () => {
+    const now = 1700000000 * 1000;
+
+    it('should accept timestamps inside the window', () => {
+      expect(isTimestampWithinSkew('1699999900', 300, now)).toBe(true);
+      expect(isTimestampWithinSkew('1700000100', 300, now)).toBe(true);
+    });
+
+    it('should reject timestamps outside the window', () => {
+      expect(isTimestampWithinSkew('1699999000', 300, now)).toBe(false);
+      expect(isTimestampWithinSkew('1700001000', 300, now)).toBe(false);
+    });
+
+    it('should reject malformed timestamps', () => {
+      expect(isTimestampWithinSkew('not-a-number', 300, now)).toBe(false);
+      expect(isTimestampWithinSkew('', 300, now)).toBe(false);
+    });
+  });
+
   describe('generateTransactionId', () => {
     it('should generate unique IDs', () => {
       const id1 = generateTransactionId();
@@ -1,31 +1,120 @@
 import crypto from 'crypto';
 
-// Sign request body with HMAC-SHA256
-export function signBody(body: any, secret: string): string {
-  const payload = JSON.stringify(body);
-  return crypto
-    .createHmac('sha256', secret)
-    .update(payload)
-    .digest('hex');
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+export const SIGNATURE_NONCE_HEADER = 'x-signature-nonce';
+
+// How a partner's request body is turned into signed bytes:
+//   raw       - the exact bytes sent on the wire
+//   canonical - canonical JSON (sorted keys, no whitespace) of the parsed body
+export type SignatureMode = 'raw' | 'canonical';
+
+// Timestamp and nonce bound into a signature to prevent replays
+export interface ReplayGuard {
+  timestamp: string;
+  nonce: string;
+}
+
+// Serialize a value as canonical JSON: object keys sorted, no insignificant whitespace
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  
+  return JSON.stringify(value);
+}
+
+// Sign a request payload with HMAC-SHA256
+// Strings and Buffers are signed as-is; other values are JSON-serialized first.
+// When a replay guard is given the signature covers "<timestamp>.<nonce>.<payload>"
+export function signBody(body: any, secret: string, guard?: ReplayGuard): string {
+  const payload = Buffer.isBuffer(body)
+    ? body
+    : Buffer.from(typeof body === 'string' ? body : JSON.stringify(body));
+  const hmac = crypto.createHmac('sha256', secret);
+  
+  if (guard) {
+    hmac.update(`${guard.timestamp}.${guard.nonce}.`);
+  }
+  
+  return hmac.update(payload).digest('hex');
 }
 
 // Verify signature matches the body
-export function verifySignature(providedSig: string, body: any, secret: string): boolean {
+// Accepts several secrets so that keys can overlap during rotation
+export function verifySignature(
+  providedSig: string,
+  body: any,
+  secret: string | string[],
+  guard?: ReplayGuard
+): boolean {
   if (!providedSig) return false;
   
-  const expectedSig = signBody(body, secret);
+  const secrets = Array.isArray(secret) ? secret : [secret];
   
-  // constant-time comparison
-  try {
-    const a = Buffer.from(providedSig, 'hex');
-    const b = Buffer.from(expectedSig, 'hex');
+  return secrets.some((candidate) => {
+    if (!candidate) return false;
     
-    if (a.length !== b.length) return false;
+    const expectedSig = signBody(body, candidate, guard);
     
-    return crypto.timingSafeEqual(a, b);
-  } catch {
-    return false;
-  }
+    // constant-time comparison
+    try {
+      const a = Buffer.from(providedSig, 'hex');
+      const b = Buffer.from(expectedSig, 'hex');
+      
+      if (a.length !== b.length) return false;
+      
+      return crypto.timingSafeEqual(a, b);
+    } catch {
+      return false;
+    }
+  });
+}
+
+function createReplayGuard(): ReplayGuard {
+  return {
+    timestamp: Math.floor(Date.now() / 1000).toString(),
+    nonce: crypto.randomBytes(16).toString('hex'),
+  };
+}
+
+// Serialize and sign an outgoing request with a fresh timestamp and nonce
+// The returned payload must be sent verbatim as the request body
+export function signRequest(
+  body: any,
+  secret: string,
+  mode: SignatureMode = 'raw'
+): { payload: string; signature: string } & ReplayGuard {
+  const payload = mode === 'canonical' ? canonicalJson(body) : JSON.stringify(body);
+  const guard = createReplayGuard();
+  
+  return { payload, signature: signBody(payload, secret, guard), ...guard };
+}
+
+// Sign a request that has no body (such as a GET) with a fresh timestamp and nonce
+export function signEmptyRequest(secret: string): { signature: string } & ReplayGuard {
+  const guard = createReplayGuard();
+  
+  return { signature: signBody('', secret, guard), ...guard };
+}
+
+// Check that a signature timestamp (unix seconds) is within the allowed clock skew
+export function isTimestampWithinSkew(
+  timestamp: string,
+  maxSkewSeconds: number,
+  now: number = Date.now()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!timestamp || !Number.isFinite(seconds)) return false;
+  
+  return Math.abs(now / 1000 - seconds) <= maxSkewSeconds;
 }
 
 // Generate unique transaction ID
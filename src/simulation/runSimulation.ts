@@ -159,9 +159,24 @@ async function testIdempotency() {
   console.log(`   Transaction ID: ${transactionId}`);
   console.log('');
   
-  const signBody = (body: any, secret: string) => {
+  // Every request needs its own timestamp and nonce, otherwise the casino rejects it as a replay
+  // The signature covers the exact body bytes, so the same string is signed and sent
+  const signedHeaders = (rawBody: string, secret: string) => {
     const crypto = require('crypto');
-    return crypto.createHmac('sha256', secret).update(JSON.stringify(body)).digest('hex');
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${nonce}.${rawBody}`)
+      .digest('hex');
+    
+    return {
+      'Content-Type': 'application/json',
+      'x-provider-code': process.env.PROVIDER_CODE || 'JAQPOT',
+      'x-provider-signature': signature,
+      'x-signature-timestamp': timestamp,
+      'x-signature-nonce': nonce
+    };
   };
   
   const debitPayload = {
@@ -171,17 +186,18 @@ async function testIdempotency() {
     amount: 500
   };
   
-  const signature = signBody(debitPayload, process.env.PROVIDER_SECRET || 'provider_secret_key_change_in_production');
+  const rawDebit = JSON.stringify(debitPayload);
+  const secret = process.env.PARTNER_SECRET || 'partner_secret_key_change_in_production';
   
-  const firstDebit = await axios.post(`${BASE_URL}/casino/debit`, debitPayload, {
-    headers: { 'x-provider-signature': signature }
+  const firstDebit = await axios.post(`${BASE_URL}/casino/debit`, rawDebit, {
+    headers: signedHeaders(rawDebit, secret)
   });
   
   console.log('   First debit request:');
   console.log(`   - Balance after: $${(firstDebit.data.balance / 100).toFixed(2)}`);
   
-  const secondDebit = await axios.post(`${BASE_URL}/casino/debit`, debitPayload, {
-    headers: { 'x-provider-signature': signature }
+  const secondDebit = await axios.post(`${BASE_URL}/casino/debit`, rawDebit, {
+    headers: signedHeaders(rawDebit, secret)
   });
   
   console.log('');